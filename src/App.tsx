@@ -9,6 +9,9 @@ import Pools from './pages/Pools';
 import GenerationEngine from './pages/GenerationEngine';
 import Roller from './pages/Roller';
 import Rules from './pages/Rules';
+import RollTables from './pages/RollTables';
+import SavedView from './pages/SavedView';
+import Snapshots from './pages/Snapshots';
 import WorldSettings from './pages/WorldSettings';
 import AppSettings from './pages/AppSettings';
 import TagManagerPage from './pages/TagManagerPage';
@@ -60,6 +63,9 @@ const App: React.FC = () => {
                                             <Route path="app-settings" element={<AppSettings />} />
                                             <Route path="pool/:poolName" element={<Pools />} />
                                             <Route path="rules" element={<Rules />} />
+                                            <Route path="roll-tables" element={<RollTables />} />
+                                            <Route path="view/:viewId" element={<SavedView />} />
+                                            <Route path="snapshots" element={<Snapshots />} />
                                             <Route path="tags" element={<TagManagerPage />} />
                                             <Route path="components" element={<ComponentManager />} />
                                             <Route path="forge" element={<GenerationEngine defaultMode="Asset" />} />
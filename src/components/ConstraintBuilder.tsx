@@ -0,0 +1,161 @@
+import React from 'react';
+import { Plus, Trash2, FolderPlus, AlertTriangle } from 'lucide-react';
+import { ConstraintGroupMode, ConstraintOperator, RollConstraint, RollConstraintGroup, RollConstraintNode } from '../types';
+import { isConstraintGroup } from '../services/rollerEngine';
+import { NexusInput, NexusSelect } from './ui';
+import { ConstraintField, ConstraintSchema } from '../utils/constraintSchema';
+import { useStrings } from '../lib/translations';
+
+export const CONSTRAINT_OPERATORS: ConstraintOperator[] = [
+    'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'missing', 'truthy', 'in', 'between', 'regex', 'hasTag'
+];
+
+const GROUP_MODES: ConstraintGroupMode[] = ['and', 'or', 'not'];
+
+const CUSTOM_PATH = '__custom__';
+const TYPED_VALUE_OPERATORS: ConstraintOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'];
+
+// New conditions start on the first numeric field, since those are the most common filters
+const createCondition = (fields: ConstraintField[]): RollConstraint => {
+    const field = fields.find(f => f.type === 'number') || fields.find(f => f.path.startsWith('components.')) || fields[0];
+    if (!field) return { path: '', operator: 'eq', value: '' };
+    return { path: field.path, operator: ConstraintSchema.getOperators(field, CONSTRAINT_OPERATORS)[0], value: '' };
+};
+
+// Operator-specific hint for the value field
+const valuePlaceholderKey = (op: ConstraintOperator): string => {
+    switch (op) {
+        case 'in': return 'roller.placeholder.list';
+        case 'between': return 'roller.placeholder.range';
+        case 'regex': return 'roller.placeholder.regex';
+        case 'hasTag': return 'roller.placeholder.tag';
+        default: return 'roller.placeholder.value';
+    }
+};
+
+const ConstraintLeafRow: React.FC<{
+    constraint: RollConstraint;
+    fields: ConstraintField[];
+    onChange: (c: RollConstraint) => void;
+    onRemove: () => void;
+}> = ({ constraint, fields, onChange, onRemove }) => {
+    const { s } = useStrings();
+    const field = fields.find(f => f.path === constraint.path);
+    const operators = ConstraintSchema.getOperators(field, CONSTRAINT_OPERATORS);
+    const showPath = constraint.operator !== 'hasTag' || fields.length > 0;
+    const showValue = constraint.operator !== 'truthy';
+    const isTyped = !!field && TYPED_VALUE_OPERATORS.includes(constraint.operator);
+    const groups = Array.from(new Set(fields.map(f => f.group)));
+
+    const handlePathSelect = (path: string) => {
+        if (path === CUSTOM_PATH) {
+            onChange({ ...constraint, path: '' });
+            return;
+        }
+        const next = fields.find(f => f.path === path);
+        const allowed = ConstraintSchema.getOperators(next, CONSTRAINT_OPERATORS);
+        const operator = allowed.includes(constraint.operator) ? constraint.operator : allowed[0];
+        onChange({ ...constraint, path, operator, value: next?.type === 'boolean' ? true : '' });
+    };
+
+    const renderValue = () => {
+        if (isTyped && field!.type === 'select' && field!.options) {
+            return (
+                <NexusSelect value={constraint.value ?? ''} onChange={e => onChange({ ...constraint, value: e.target.value })} className="text-xs">
+                    <option value="">{s('roller.placeholder.value')}</option>
+                    {field!.options.map(o => <option key={o} value={o}>{o}</option>)}
+                </NexusSelect>
+            );
+        }
+        if (isTyped && field!.type === 'boolean') {
+            // Stored as a real boolean: loose equality would not match 'true' against true
+            return (
+                <NexusSelect value={String(constraint.value === true)} onChange={e => onChange({ ...constraint, value: e.target.value === 'true' })} className="text-xs">
+                    <option value="true">{s('roller.value.true')}</option>
+                    <option value="false">{s('roller.value.false')}</option>
+                </NexusSelect>
+            );
+        }
+        return <NexusInput type={isTyped && field!.type === 'number' ? 'number' : 'text'} value={constraint.value ?? ''} onChange={e => onChange({ ...constraint, value: e.target.value })} placeholder={s(valuePlaceholderKey(constraint.operator))} className="text-xs" />;
+    };
+
+    return (
+        <div className="bg-nexus-900 p-2 rounded border border-slate-700 space-y-2 animate-in fade-in slide-in-from-left-2">
+            {showPath && fields.length > 0 && (
+                <NexusSelect value={field ? field.path : CUSTOM_PATH} onChange={e => handlePathSelect(e.target.value)} className="text-xs font-mono">
+                    {groups.map(group => (
+                        <optgroup key={group} label={group}>
+                            {fields.filter(f => f.group === group).map(f => <option key={f.path} value={f.path}>{f.label} ({f.type})</option>)}
+                        </optgroup>
+                    ))}
+                    <option value={CUSTOM_PATH}>{s('roller.builder.customPath')}</option>
+                </NexusSelect>
+            )}
+            {showPath && !field && (
+                <>
+                    <NexusInput value={constraint.path} onChange={e => onChange({ ...constraint, path: e.target.value })} placeholder={s('roller.placeholder.path')} className="text-xs font-mono" />
+                    {fields.length > 0 && constraint.path.trim() && (
+                        <div className="text-[10px] text-orange-400 flex items-center gap-1"><AlertTriangle size={10} /> {s('roller.builder.unknownPath')}</div>
+                    )}
+                </>
+            )}
+            <div className="flex gap-2 items-center">
+                <div className="w-1/2">
+                    <NexusSelect value={constraint.operator} onChange={e => onChange({ ...constraint, operator: e.target.value as ConstraintOperator })} className="text-xs">
+                        {operators.map(op => <option key={op} value={op}>{s(`roller.operator.${op}`)}</option>)}
+                    </NexusSelect>
+                </div>
+                <div className="flex-1">
+                    {showValue && renderValue()}
+                </div>
+                <button onClick={onRemove} className="text-slate-500 hover:text-red-400 transition-colors"><Trash2 size={14} /></button>
+            </div>
+        </div>
+    );
+};
+
+interface ConstraintGroupEditorProps {
+    group: RollConstraintGroup;
+    onChange: (group: RollConstraintGroup) => void;
+    onRemove?: () => void; // Omitted for the root group
+    fields?: ConstraintField[]; // Known paths for the current pool; empty = free-typed paths only
+}
+
+/**
+ * Recursive AND / OR / NOT builder. The root group is always an AND/OR/NOT node;
+ * leaves are plain RollConstraints.
+ */
+export const ConstraintGroupEditor: React.FC<ConstraintGroupEditorProps> = ({ group, onChange, onRemove, fields = [] }) => {
+    const { s } = useStrings();
+
+    const updateChild = (idx: number, child: RollConstraintNode) =>
+        onChange({ ...group, children: group.children.map((c, i) => i === idx ? child : c) });
+    const removeChild = (idx: number) =>
+        onChange({ ...group, children: group.children.filter((_, i) => i !== idx) });
+    const addCondition = () =>
+        onChange({ ...group, children: [...group.children, createCondition(fields)] });
+    const addGroup = () =>
+        onChange({ ...group, children: [...group.children, { mode: 'or', children: [] }] });
+
+    const borderColor = group.mode === 'or' ? 'border-blue-500/40' : group.mode === 'not' ? 'border-red-500/40' : 'border-slate-700/50';
+
+    return (
+        <div className={`space-y-2 ${onRemove ? `border-l-2 ${borderColor} pl-2` : ''}`}>
+            <div className="flex gap-2 items-center">
+                <div className="w-28">
+                    <NexusSelect value={group.mode} onChange={e => onChange({ ...group, mode: e.target.value as ConstraintGroupMode })} className="text-xs font-bold">
+                        {GROUP_MODES.map(mode => <option key={mode} value={mode}>{s(`roller.group.${mode}`)}</option>)}
+                    </NexusSelect>
+                </div>
+                <button onClick={addCondition} className="text-xs font-bold text-slate-500 hover:text-nexus-accent flex items-center gap-1" title={s('roller.builder.addCondition')}><Plus size={12} /> {s('roller.builder.condition')}</button>
+                <button onClick={addGroup} className="text-xs font-bold text-slate-500 hover:text-nexus-accent flex items-center gap-1" title={s('roller.builder.addGroup')}><FolderPlus size={12} /> {s('roller.builder.group')}</button>
+                {onRemove && <button onClick={onRemove} className="ml-auto text-slate-500 hover:text-red-400 transition-colors" title={s('roller.builder.removeGroup')}><Trash2 size={14} /></button>}
+            </div>
+            {group.children.map((child, idx) => isConstraintGroup(child) ? (
+                <ConstraintGroupEditor key={idx} group={child} fields={fields} onChange={updated => updateChild(idx, updated)} onRemove={() => removeChild(idx)} />
+            ) : (
+                <ConstraintLeafRow key={idx} constraint={child} fields={fields} onChange={updated => updateChild(idx, updated)} onRemove={() => removeChild(idx)} />
+            ))}
+        </div>
+    );
+};
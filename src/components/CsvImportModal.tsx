@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileSpreadsheet, Upload, AlertTriangle } from 'lucide-react';
+import { UniversalEntity, World } from '../types';
+import { db } from '../services/db';
+import { useWorldManager } from '../contexts/ServiceContext';
+import { useToast } from '../contexts/ToastContext';
+import { useStrings } from '../lib/translations';
+import { NexusModal, NexusButton, NexusSelect } from './ui';
+import { CsvUtils, CsvTable } from '../utils/csvUtils';
+
+interface CsvImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    world: World;
+    poolName: string;
+    onImported: () => void;
+}
+
+const PREVIEW_ROWS = 3;
+const MAX_LISTED_ERRORS = 50;
+
+// Spreadsheet import for one pool: pick a file, map its columns to fields, review row errors
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({ isOpen, onClose, world, poolName, onImported }) => {
+    const worldManager = useWorldManager();
+    const { s } = useStrings();
+    const { toast } = useToast();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [fileName, setFileName] = useState('');
+    const [table, setTable] = useState<CsvTable | null>(null);
+    const [mapping, setMapping] = useState<string[]>([]);
+    const [existing, setExisting] = useState<UniversalEntity[]>([]);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const pool = world.pools[poolName];
+    const columns = useMemo(() => pool ? CsvUtils.poolColumns(world, pool) : [], [world, pool]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setFileName('');
+        setTable(null);
+        setMapping([]);
+        db.getEntitiesForPool(world.id, poolName)
+            .then(setExisting)
+            .catch(e => {
+                // Without them every row would be imported as new
+                setExisting([]);
+                toast({ title: s('csv.toast.loadFailed'), message: e instanceof Error ? e.message : String(e), type: "error" });
+            });
+    }, [isOpen, world.id, poolName]);
+
+    const plan = useMemo(
+        () => table && pool ? CsvUtils.buildEntities(table, mapping, world, pool, existing) : null,
+        [table, mapping, world, pool, existing]
+    );
+    const updates = plan ? plan.entities.filter(item => item.isUpdate).length : 0;
+    const failedRows = plan ? new Set(plan.errors.map(error => error.row)).size : 0;
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            const parsed = CsvUtils.parse(String(event.target?.result || ''));
+            setFileName(file.name);
+            setTable(parsed);
+            setMapping(CsvUtils.suggestMapping(parsed.headers, columns));
+        };
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const setColumn = (index: number, key: string) => setMapping(prev => prev.map((value, i) => {
+        if (i === index) return key;
+        return value === key ? '' : value; // A field takes one column at most
+    }));
+
+    const handleImport = async () => {
+        if (!plan) return;
+        setIsWorking(true);
+        const result = await worldManager.importPoolRows(world.id, poolName, plan.entities.map(item => item.entity), plan.newTags);
+        setIsWorking(false);
+        if (!result.ok) {
+            toast({ title: s('csv.toast.failed'), message: result.error.message, type: "error" });
+            return;
+        }
+        toast({ title: s('csv.toast.imported'), message: s('csv.toast.importedCount', { created: result.value - updates, updated: updates, failed: failedRows }), type: failedRows > 0 ? "warning" : "success" });
+        onImported();
+        onClose();
+    };
+
+    const footer = (
+        <>
+            <NexusButton variant="ghost" onClick={onClose}>{s('common.cancel')}</NexusButton>
+            <NexusButton onClick={handleImport} disabled={!plan || plan.entities.length === 0 || isWorking} icon={<Upload size={16} />}>
+                {s('csv.importRows', { count: plan?.entities.length ?? 0 })}
+            </NexusButton>
+        </>
+    );
+
+    return (
+        <NexusModal isOpen={isOpen} onClose={onClose} title={<><FileSpreadsheet size={18} className="text-nexus-accent" /> {s('csv.importTitle', { pool: poolName })}</>} footer={footer} maxWidth="max-w-4xl">
+            <div className="space-y-5">
+                <div className="flex items-center gap-3">
+                    <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,.tsv,.txt" className="hidden" />
+                    <NexusButton variant="secondary" onClick={() => fileInputRef.current?.click()} icon={<FileSpreadsheet size={16} />}>{s('csv.chooseFile')}</NexusButton>
+                    <span className="text-xs font-mono text-slate-500 truncate">
+                        {table ? s('csv.fileSummary', { name: fileName, rows: table.rows.length, format: table.delimiter === '\t' ? 'TSV' : 'CSV' }) : s('csv.fileHint')}
+                    </span>
+                </div>
+
+                {table && (
+                    <section>
+                        <h3 className="text-xs font-bold uppercase text-slate-400 mb-2">{s('csv.mapping')}</h3>
+                        <div className="border border-slate-700 rounded overflow-hidden">
+                            <table className="w-full text-xs">
+                                <thead className="bg-nexus-900 text-slate-500 uppercase">
+                                    <tr>
+                                        <th className="text-left p-2 w-1/4">{s('csv.column')}</th>
+                                        <th className="text-left p-2">{s('csv.sample')}</th>
+                                        <th className="text-left p-2 w-1/3">{s('csv.field')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {table.headers.map((header, i) => (
+                                        <tr key={i} className="border-t border-slate-800">
+                                            <td className="p-2 font-mono text-slate-200">{header || <span className="italic text-slate-600">{s('csv.unnamed')}</span>}</td>
+                                            <td className="p-2 text-slate-500 truncate max-w-[12rem]">
+                                                {table.rows.slice(0, PREVIEW_ROWS).map(row => row[i]).filter(Boolean).join(' · ')}
+                                            </td>
+                                            <td className="p-1">
+                                                <NexusSelect value={mapping[i] || ''} onChange={e => setColumn(i, e.target.value)} className="text-xs py-1.5">
+                                                    <option value="">{s('csv.ignore')}</option>
+                                                    {columns.map(column => <option key={column.key} value={column.key}>{column.label}</option>)}
+                                                </NexusSelect>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {!mapping.includes('name') && !mapping.includes('id') && (
+                            <p className="text-xs text-amber-400 mt-2">{s('csv.needsName')}</p>
+                        )}
+                    </section>
+                )}
+
+                {plan && (
+                    <section>
+                        <div className="text-sm text-slate-300 mb-2">
+                            {s('csv.planSummary', { created: plan.entities.length - updates, updated: updates, failed: failedRows, tags: plan.newTags.length })}
+                        </div>
+                        {plan.errors.length > 0 && (
+                            <ul className="max-h-48 overflow-y-auto custom-scrollbar text-xs space-y-0.5 bg-nexus-900 border border-red-900/60 rounded p-2">
+                                {plan.errors.slice(0, MAX_LISTED_ERRORS).map((error, i) => (
+                                    <li key={i} className="flex gap-2 text-red-300">
+                                        <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                                        <span className="font-mono text-slate-500 shrink-0">{s('csv.rowN', { row: error.row })}{error.column ? ` · ${error.column}` : ''}</span>
+                                        <span>{error.message}</span>
+                                    </li>
+                                ))}
+                                {plan.errors.length > MAX_LISTED_ERRORS && <li className="text-slate-500 italic">{s('snapshots.diff.more', { count: plan.errors.length - MAX_LISTED_ERRORS })}</li>}
+                            </ul>
+                        )}
+                    </section>
+                )}
+            </div>
+        </NexusModal>
+    );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Layers, Undo2 } from 'lucide-react';
+import { RollDeck } from '../types';
+import { RollCandidate } from '../services/rollerEngine';
+import { NexusModal } from './ui';
+import { useStrings } from '../lib/translations';
+
+interface DeckPeekModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    deck: RollDeck;
+    candidates: RollCandidate[];
+    onReturnCard: (id: string) => void;
+}
+
+// Shows what is still in the deck and the discard pile, with per-card "return to deck"
+export const DeckPeekModal: React.FC<DeckPeekModalProps> = ({ isOpen, onClose, deck, candidates, onReturnCard }) => {
+    const { s } = useStrings();
+    const drawnIds = new Set(deck.drawn.map(d => d.id));
+    const remaining = candidates.filter(c => !drawnIds.has(c.id));
+
+    return (
+        <NexusModal isOpen={isOpen} onClose={onClose} title={<><Layers size={18} className="text-nexus-accent" /> {s('roller.deck.peekTitle', { pool: deck.pool })}</>} maxWidth="max-w-3xl">
+            <div className="grid grid-cols-2 gap-4 max-h-[60vh]">
+                <div className="flex flex-col min-h-0">
+                    <div className="text-xs font-bold uppercase text-slate-500 mb-2">{s('roller.deck.remaining', { count: remaining.length })}</div>
+                    <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1">
+                        {remaining.length === 0 && <div className="text-xs italic text-slate-500">{s('roller.deck.emptyDeck')}</div>}
+                        {remaining.map(c => (
+                            <div key={c.id} className="flex justify-between text-xs bg-nexus-900 border border-slate-700 rounded px-2 py-1.5">
+                                <span className="text-slate-200 truncate">{c.name}</span>
+                                <span className="text-slate-500 shrink-0 ml-2">{c.rarity}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex flex-col min-h-0">
+                    <div className="text-xs font-bold uppercase text-slate-500 mb-2">{s('roller.deck.drawn', { count: deck.drawn.length })}</div>
+                    <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1">
+                        {deck.drawn.length === 0 && <div className="text-xs italic text-slate-500">{s('roller.deck.noneDrawn')}</div>}
+                        {[...deck.drawn].reverse().map(card => (
+                            <div key={card.id} className="flex items-center gap-2 text-xs bg-nexus-900 border border-slate-700 rounded px-2 py-1.5">
+                                <span className="text-slate-300 truncate flex-1">{card.name}</span>
+                                <span className="text-slate-600 font-mono shrink-0">{new Date(card.drawnAt).toLocaleDateString()}</span>
+                                <button onClick={() => onReturnCard(card.id)} className="text-slate-500 hover:text-nexus-accent" title={s('roller.deck.returnCard')}><Undo2 size={14} /></button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </NexusModal>
+    );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { History, RotateCcw, Undo2, Layers } from 'lucide-react';
+import { EntityRevision, TagDefinition, UniversalEntity } from '../types';
+import { db } from '../services/db';
+import { RevisionUtils, FieldChange } from '../utils/revisionUtils';
+import { NexusModal, NexusButton } from './ui';
+import { useToast } from '../contexts/ToastContext';
+import { useStrings } from '../lib/translations';
+
+interface EntityHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    entityId: string;
+    entityName: string;
+    tags?: Record<string, TagDefinition>;
+    // Called with the restored entity, or null after a bulk undo (reload from the DB)
+    onRestored: (entity: UniversalEntity | null) => void;
+}
+
+const KIND_STYLES: Record<FieldChange['kind'], string> = {
+    added: 'text-green-400',
+    removed: 'text-red-400',
+    changed: 'text-amber-300'
+};
+
+// Per-entity revision list with field-level diffs, one-click restore and bulk-change undo
+export const EntityHistoryModal: React.FC<EntityHistoryModalProps> = ({ isOpen, onClose, entityId, entityName, tags = {}, onRestored }) => {
+    const { s } = useStrings();
+    const { toast } = useToast();
+    const [revisions, setRevisions] = useState<EntityRevision[]>([]);
+    const [batchCounts, setBatchCounts] = useState<Record<string, number>>({});
+    const [isLoading, setIsLoading] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const loadRevisions = async () => {
+        setIsLoading(true);
+        try {
+            const list = await db.getEntityRevisions(entityId);
+            const batchIds = Array.from(new Set(list.map(r => r.batchId).filter((id): id is string => !!id)));
+            const counts = await Promise.all(batchIds.map(id => db.countBatch(id)));
+            const next: Record<string, number> = {};
+            batchIds.forEach((id, i) => { next[id] = counts[i]; });
+            setRevisions(list);
+            setBatchCounts(next);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen) loadRevisions();
+    }, [isOpen, entityId]);
+
+    const handleRestore = async (revision: EntityRevision, state: 'before' | 'after') => {
+        setIsBusy(true);
+        try {
+            const restored = await db.restoreRevision(revision.id, state);
+            if (restored) {
+                toast({ title: s('history.toast.restored'), message: new Date(revision.timestamp).toLocaleString(), type: "success" });
+                onRestored(restored);
+                await loadRevisions();
+            }
+        } catch (e) {
+            toast({ title: s('history.toast.failed'), message: String(e), type: "error" });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleUndoBatch = async (batchId: string) => {
+        setIsBusy(true);
+        try {
+            const { restored, skipped } = await db.revertBatch(batchId);
+            toast({ title: s('history.toast.batchReverted'), message: s('history.toast.batchRevertedCount', { restored, skipped }), type: skipped > 0 ? "warning" : "success" });
+            onRestored(null);
+            await loadRevisions();
+        } catch (e) {
+            toast({ title: s('history.toast.failed'), message: String(e), type: "error" });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const renderValue = (change: FieldChange, value: any) =>
+        change.path === 'tags' ? `#${tags[value]?.label || value}` : RevisionUtils.formatValue(value);
+
+    return (
+        <NexusModal isOpen={isOpen} onClose={onClose} title={<><History size={18} className="text-nexus-accent" /> {s('history.title', { name: entityName })}</>} maxWidth="max-w-3xl">
+            <div className="space-y-3 max-h-[65vh] overflow-y-auto custom-scrollbar pr-1">
+                {isLoading && revisions.length === 0 && <div className="text-xs italic text-slate-500">{s('history.loading')}</div>}
+                {!isLoading && revisions.length === 0 && <div className="text-xs italic text-slate-500">{s('history.empty')}</div>}
+                {revisions.map((revision, idx) => {
+                    const changes = RevisionUtils.diff(revision.before, revision.after);
+                    const isCurrent = idx === 0;
+                    const isOldest = idx === revisions.length - 1;
+                    return (
+                        <div key={revision.id} className={`rounded-lg border p-3 ${isCurrent ? 'border-nexus-accent/50 bg-nexus-accent/5' : 'border-slate-700 bg-nexus-900'}`}>
+                            <div className="flex flex-wrap items-center gap-2 text-xs mb-2">
+                                <span className="font-mono text-slate-400">{new Date(revision.timestamp).toLocaleString()}</span>
+                                <span className="px-1.5 py-0.5 rounded bg-nexus-800 border border-slate-600 text-slate-300 font-bold uppercase">{s(`history.source.${revision.source}`)}</span>
+                                {isCurrent && <span className="text-nexus-accent font-bold uppercase">{s('history.current')}</span>}
+                                <span className="text-slate-500">{s('history.changes', { count: changes.length })}</span>
+                                <div className="ml-auto flex gap-2">
+                                    {!isCurrent && (
+                                        <NexusButton size="sm" variant="ghost" disabled={isBusy} onClick={() => handleRestore(revision, 'after')} icon={<RotateCcw size={12} />}>{s('history.restore')}</NexusButton>
+                                    )}
+                                    {isOldest && revision.before && (
+                                        <NexusButton size="sm" variant="ghost" disabled={isBusy} onClick={() => handleRestore(revision, 'before')} icon={<Undo2 size={12} />}>{s('history.restoreOriginal')}</NexusButton>
+                                    )}
+                                    {revision.batchId && revision.source !== 'restore' && (
+                                        <NexusButton size="sm" variant="ghost" disabled={isBusy} onClick={() => handleUndoBatch(revision.batchId!)} icon={<Layers size={12} />}>{s('history.undoBatch', { count: batchCounts[revision.batchId] ?? 1 })}</NexusButton>
+                                    )}
+                                </div>
+                            </div>
+                            {changes.length === 0 ? (
+                                <div className="text-xs italic text-slate-600">{s('history.noChanges')}</div>
+                            ) : (
+                                <ul className="space-y-0.5 text-xs font-mono">
+                                    {changes.map((change, i) => (
+                                        <li key={`${change.path}-${i}`} className="flex gap-2 break-all">
+                                            <span className={`shrink-0 ${KIND_STYLES[change.kind]}`}>{change.kind === 'added' ? '+' : change.kind === 'removed' ? '−' : '~'}</span>
+                                            <span className="text-slate-400 shrink-0">{change.path}</span>
+                                            {change.kind === 'changed' && <span className="text-slate-500 line-through">{renderValue(change, change.before)}</span>}
+                                            {change.kind === 'changed' && <span className="text-slate-600">→</span>}
+                                            {change.kind !== 'removed' && <span className="text-slate-200">{renderValue(change, change.after)}</span>}
+                                            {change.kind === 'removed' && <span className="text-slate-500 line-through">{renderValue(change, change.before)}</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </NexusModal>
+    );
+};
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileJson, Download, Copy, Save, Trash2, AlertTriangle, Lock } from 'lucide-react';
+import { ExportProfile, RulebookPackage, World } from '../types';
+import { db } from '../services/db';
+import { useWorldManager } from '../contexts/ServiceContext';
+import { useActiveWorld } from '../contexts/ActiveWorldContext';
+import { useToast } from '../contexts/ToastContext';
+import { useStrings, useTranslation } from '../lib/translations';
+import { downloadFile } from '../lib/utils';
+import { NexusModal, NexusButton, NexusTextArea } from './ui';
+import { ExportProfileUtils, EXPORT_CONVERSIONS } from '../utils/exportProfileUtils';
+
+interface ExportProfilesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    world: World;
+}
+
+const PREVIEW_RECORDS = 2;
+
+// Parses the editor text; the error is shown instead of a preview
+const parseProfile = (text: string): { profile?: ExportProfile; error?: string } => {
+    try {
+        return { profile: JSON.parse(text) };
+    } catch (e) {
+        return { error: e instanceof Error ? e.message : String(e) };
+    }
+};
+
+// First records of every collection, so the preview stays readable for large worlds
+const previewOf = (output: any) => Array.isArray(output)
+    ? output.slice(0, PREVIEW_RECORDS)
+    : Object.fromEntries(Object.entries(output).map(([name, records]) => [name, (records as any[]).slice(0, PREVIEW_RECORDS)]));
+
+// Lists built-in and custom export profiles; custom ones are edited as JSON with a live preview
+export const ExportProfilesModal: React.FC<ExportProfilesModalProps> = ({ isOpen, onClose, world }) => {
+    const worldManager = useWorldManager();
+    const { triggerRefresh } = useActiveWorld();
+    const { s } = useStrings();
+    const { t } = useTranslation();
+    const { toast } = useToast();
+
+    const [pkg, setPkg] = useState<RulebookPackage | null>(null);
+    const [selectedId, setSelectedId] = useState('');
+    const [draft, setDraft] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+    const profiles = ExportProfileUtils.listProfiles(world);
+    const selected = profiles.find(profile => profile.id === selectedId);
+    const isBuiltIn = !!selected && ExportProfileUtils.isBuiltIn(selected.id);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        db.getFullWorldPackage(world.id).then(result => { if (!cancelled) setPkg(result); });
+        return () => { cancelled = true; };
+    }, [isOpen, world.id]);
+
+    useEffect(() => {
+        if (isOpen && !selectedId) setSelectedId(profiles[0]?.id || '');
+    }, [isOpen, selectedId, profiles]);
+
+    useEffect(() => {
+        // Keyed on the id: a new copy shows up once the world reloads, edits are not reset by it
+        if (selected) setDraft(JSON.stringify(selected, null, 2));
+        setConfirmingDelete(false);
+    }, [selected?.id]);
+
+    const parsed = useMemo(() => parseProfile(draft), [draft]);
+    const problems = useMemo(() => parsed.profile ? ExportProfileUtils.validate(parsed.profile) : [parsed.error!], [parsed]);
+    const result = useMemo(
+        () => pkg && parsed.profile && problems.length === 0 ? ExportProfileUtils.apply(pkg, parsed.profile) : null,
+        [pkg, parsed, problems]
+    );
+    const isDirty = !!selected && draft !== JSON.stringify(selected, null, 2);
+
+    const handleDuplicate = async () => {
+        const source = parsed.profile && problems.length === 0 ? parsed.profile : selected;
+        if (!source) return;
+        const copy: ExportProfile = { ...JSON.parse(JSON.stringify(source)), id: crypto.randomUUID(), name: s('exportProfiles.copyName', { name: source.name }), created: Date.now() };
+        await worldManager.saveExportProfile(world.id, copy);
+        triggerRefresh();
+        setSelectedId(copy.id);
+    };
+
+    const handleSave = async () => {
+        if (!selected || isBuiltIn || !parsed.profile || problems.length > 0) return;
+        await worldManager.saveExportProfile(world.id, { ...parsed.profile, id: selected.id });
+        triggerRefresh();
+        toast({ title: s('exportProfiles.toast.saved'), message: parsed.profile.name, type: "success" });
+    };
+
+    const handleDelete = async () => {
+        if (!selected || isBuiltIn) return;
+        // First click arms the button, the second deletes
+        if (!confirmingDelete) { setConfirmingDelete(true); return; }
+        await worldManager.deleteExportProfile(world.id, selected.id);
+        triggerRefresh();
+        setSelectedId('');
+    };
+
+    const handleDownload = async () => {
+        if (!parsed.profile) return;
+        setIsWorking(true);
+        const exported = await worldManager.exportWorldWithProfile(world.id, parsed.profile);
+        setIsWorking(false);
+        if (!exported.ok) {
+            toast({ title: s('home.toast.exportFailed.title'), message: exported.error.message, type: "error" });
+            return;
+        }
+        const { output, counts } = exported.value;
+        const total = (Object.values(counts) as number[]).reduce((sum, n) => sum + n, 0);
+        const slug = ExportProfileUtils.convert(parsed.profile.name, 'slug') || 'export';
+        downloadFile(JSON.stringify(output, null, 2), `${world.name.replace(/\s+/g, '_')}_${slug}.json`, 'application/json');
+        toast({ title: s('home.toast.exportComplete.title'), message: s('exportProfiles.toast.exported', { count: total }), type: "success" });
+    };
+
+    const footer = (
+        <>
+            <NexusButton variant="ghost" onClick={onClose}>{s('common.cancel')}</NexusButton>
+            <NexusButton onClick={handleDownload} disabled={!result || isWorking} icon={<Download size={16} />}>{s('exportProfiles.download')}</NexusButton>
+        </>
+    );
+
+    return (
+        <NexusModal isOpen={isOpen} onClose={onClose} title={<><FileJson size={18} className="text-nexus-accent" /> {s('exportProfiles.title')}</>} footer={footer} maxWidth="max-w-5xl">
+            <div className="flex gap-4 min-h-[28rem]">
+                <ul className="w-56 shrink-0 space-y-1">
+                    {profiles.map(profile => (
+                        <li key={profile.id}>
+                            <button
+                                onClick={() => setSelectedId(profile.id)}
+                                className={`w-full text-left px-3 py-2 rounded border text-sm flex items-center gap-2 transition-colors ${profile.id === selectedId ? 'border-nexus-accent bg-nexus-accent/10 text-white' : 'border-slate-700 bg-nexus-900 text-slate-400 hover:text-slate-200'}`}
+                            >
+                                {ExportProfileUtils.isBuiltIn(profile.id) && <Lock size={12} className="shrink-0 text-slate-500" />}
+                                <span className="truncate">{profile.name}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+
+                {selected && (
+                    <div className="flex-1 min-w-0 space-y-3">
+                        {selected.description && <p className="text-xs text-slate-400">{selected.description}</p>}
+                        <div className="flex gap-2">
+                            <NexusButton size="sm" variant="secondary" onClick={handleDuplicate} icon={<Copy size={14} />}>{s('exportProfiles.duplicate')}</NexusButton>
+                            {!isBuiltIn && <NexusButton size="sm" onClick={handleSave} disabled={!isDirty || problems.length > 0} icon={<Save size={14} />}>{s('common.save')}</NexusButton>}
+                            {!isBuiltIn && <NexusButton size="sm" variant="ghost" onClick={handleDelete} icon={<Trash2 size={14} />}>{confirmingDelete ? s('exportProfiles.confirmDelete') : s('common.delete')}</NexusButton>}
+                        </div>
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                            <div>
+                                <NexusTextArea
+                                    label={isBuiltIn ? s('exportProfiles.builtInDefinition') : s('exportProfiles.definition')}
+                                    value={draft}
+                                    onChange={e => setDraft(e.target.value)}
+                                    readOnly={isBuiltIn}
+                                    spellCheck={false}
+                                    className="font-mono text-xs h-80"
+                                />
+                                <p className="text-[10px] text-slate-600 mt-1">
+                                    {s('exportProfiles.sources', { sources: ExportProfileUtils.availableSources(world).join(', ') })}
+                                    <br />
+                                    {s('exportProfiles.conversions', { conversions: EXPORT_CONVERSIONS.join(', ') })}
+                                </p>
+                            </div>
+                            <div className="min-w-0">
+                                <h3 className="text-xs font-bold uppercase text-slate-400 mb-2">{s('exportProfiles.preview')}</h3>
+                                {problems.length > 0 ? (
+                                    <ul className="text-xs space-y-0.5 bg-nexus-900 border border-red-900/60 rounded p-2">
+                                        {problems.map((problem, i) => (
+                                            <li key={i} className="flex gap-2 text-red-300"><AlertTriangle size={12} className="shrink-0 mt-0.5" /> {problem}</li>
+                                        ))}
+                                    </ul>
+                                ) : result ? (
+                                    <>
+                                        <div className="text-xs text-slate-400 mb-2">
+                                            {Object.entries(result.counts).map(([name, count]) => `${name}: ${count}`).join(' · ')}
+                                            {result.unmapped > 0 && <span className="text-amber-400 ml-2">{s('exportProfiles.unmapped', { count: result.unmapped })}</span>}
+                                        </div>
+                                        <pre className="text-[11px] font-mono text-slate-300 bg-nexus-900 border border-slate-700 rounded p-2 h-80 overflow-auto custom-scrollbar">
+                                            {JSON.stringify(previewOf(result.output), null, 2)}
+                                        </pre>
+                                    </>
+                                ) : (
+                                    <div className="text-xs italic text-slate-500">{t.common.loading}</div>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </NexusModal>
+    );
+};
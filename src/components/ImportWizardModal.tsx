@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Upload, AlertTriangle, Info, ArrowUpCircle } from 'lucide-react';
+import { RulebookPackage } from '../types';
+import { db } from '../services/db';
+import { useWorldManager } from '../contexts/ServiceContext';
+import { useToast } from '../contexts/ToastContext';
+import { useStrings } from '../lib/translations';
+import { NexusModal, NexusButton, NexusSelect } from './ui';
+import { ImportUtils, ImportConflict, ConflictKind, ConflictResolution } from '../utils/importUtils';
+import { MigrationReport, MigrationUtils } from '../utils/migrationUtils';
+
+interface ImportWizardModalProps {
+    // Raw file contents; the wizard is open while this is set
+    content: string | null;
+    fileName?: string;
+    onClose: () => void;
+    onImported: (worldId: string) => void;
+}
+
+const KINDS: ConflictKind[] = ['pool', 'component', 'tag', 'entity'];
+const RESOLUTIONS: ConflictResolution[] = ['skip', 'overwrite', 'rename'];
+const MAX_LISTED_ISSUES = 50;
+
+// Validates a package file, reports what it contains and imports it as a new world
+// or merges it into an existing one with a choice per conflict
+export const ImportWizardModal: React.FC<ImportWizardModalProps> = ({ content, fileName, onClose, onImported }) => {
+    const worldManager = useWorldManager();
+    const { s } = useStrings();
+    const { toast } = useToast();
+
+    const [parsed, setParsed] = useState<{ pkg: RulebookPackage; migration: MigrationReport } | null>(null);
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [worlds, setWorlds] = useState<{ id: string; name: string }[]>([]);
+    const [targetId, setTargetId] = useState('');
+    const [target, setTarget] = useState<RulebookPackage | null>(null);
+    const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+    const [isWorking, setIsWorking] = useState(false);
+
+    useEffect(() => {
+        if (content === null) return;
+        setTargetId('');
+        setTarget(null);
+        setResolutions({});
+        try {
+            setParsed(ImportUtils.parse(content));
+            setParseError(null);
+        } catch (e) {
+            setParsed(null);
+            setParseError(e instanceof Error ? e.message : String(e));
+        }
+        worldManager.listWorlds().then(setWorlds);
+    }, [content, worldManager]);
+
+    useEffect(() => {
+        if (!targetId) { setTarget(null); return; }
+        let cancelled = false;
+        db.getFullWorldPackage(targetId).then(pkg => { if (!cancelled) setTarget(pkg); });
+        return () => { cancelled = true; };
+    }, [targetId]);
+
+    const issues = useMemo(() => parsed ? ImportUtils.validate(parsed.pkg) : [], [parsed]);
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+    const summary = useMemo(() => parsed ? ImportUtils.summarize(parsed.pkg) : null, [parsed]);
+    const conflicts = useMemo(() => parsed && target ? ImportUtils.findConflicts(parsed.pkg, target) : [], [parsed, target]);
+
+    // Entity conflicts only apply while their pool is merged into
+    const activeConflicts = conflicts.filter(conflict =>
+        conflict.kind !== 'entity' || ImportUtils.resolutionFor(resolutions, 'pool', conflict.pool!) === 'overwrite'
+    );
+
+    const resolutionOf = (conflict: ImportConflict) => ImportUtils.resolutionFor(resolutions, conflict.kind, conflict.id);
+    const setResolution = (conflict: ImportConflict, value: ConflictResolution) => setResolutions(prev => ({ ...prev, [conflict.key]: value }));
+    const setAll = (kind: ConflictKind, value: ConflictResolution) => setResolutions(prev => {
+        const next = { ...prev };
+        activeConflicts.filter(conflict => conflict.kind === kind).forEach(conflict => { next[conflict.key] = value; });
+        return next;
+    });
+
+    const handleImport = async () => {
+        if (!parsed) return;
+        setIsWorking(true);
+        try {
+            if (!targetId) {
+                const result = await worldManager.importPackage(parsed.pkg);
+                if (!result.ok) throw result.error;
+                toast({ title: s('home.toast.importSuccessful.title'), message: s('home.toast.importSuccessful.message', { name: result.value.name }), type: "success" });
+                onImported(result.value.id);
+            } else {
+                const result = await worldManager.mergePackage(targetId, parsed.pkg, resolutions);
+                if (!result.ok) throw result.error;
+                toast({ title: s('importWizard.toast.merged'), message: s('importWizard.toast.mergedSummary', { ...result.value }), type: "success" });
+                onImported(targetId);
+            }
+            onClose();
+        } catch (e) {
+            toast({ title: s('home.toast.importFailed.title'), message: e instanceof Error ? e.message : String(e), type: "error" });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const footer = (
+        <>
+            <NexusButton variant="ghost" onClick={onClose}>{s('common.cancel')}</NexusButton>
+            <NexusButton onClick={handleImport} disabled={!parsed || errorCount > 0 || isWorking || (!!targetId && !target)} icon={<Upload size={16} />}>
+                {targetId ? s('importWizard.merge') : s('importWizard.importNew')}
+            </NexusButton>
+        </>
+    );
+
+    return (
+        <NexusModal isOpen={content !== null} onClose={onClose} title={<><Upload size={18} className="text-nexus-accent" /> {s('importWizard.title')}</>} footer={footer} maxWidth="max-w-3xl">
+            <div className="space-y-5">
+                {fileName && <div className="text-xs font-mono text-slate-500 truncate">{fileName}</div>}
+
+                {parseError && (
+                    <div className="flex gap-2 items-start text-sm text-red-300 bg-red-900/20 border border-red-800 rounded p-3">
+                        <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {parseError}
+                    </div>
+                )}
+
+                {parsed && summary && (
+                    <section>
+                        <h3 className="text-xs font-bold uppercase text-slate-400 mb-2">{s('importWizard.report')}</h3>
+                        <div className="text-lg font-bold text-white mb-2">{summary.worldName}</div>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center text-xs mb-3">
+                            {[
+                                [s('importWizard.count.entities'), summary.entities],
+                                [s('importWizard.count.pools'), summary.pools.length],
+                                [s('importWizard.count.components'), summary.components],
+                                [s('importWizard.count.tags'), summary.tags]
+                            ].map(([label, value]) => (
+                                <div key={label} className="bg-nexus-900 border border-slate-700 rounded p-2">
+                                    <div className="text-lg font-bold text-slate-200">{value}</div>
+                                    <div className="text-slate-500 uppercase">{label}</div>
+                                </div>
+                            ))}
+                        </div>
+                        <ul className="text-xs text-slate-400 space-y-0.5">
+                            {summary.pools.map(pool => (
+                                <li key={pool.name} className="flex justify-between gap-2">
+                                    <span><span className="text-slate-200">{pool.name}</span> <span className="text-slate-600">({pool.type})</span></span>
+                                    <span className="font-mono">{pool.entities}</span>
+                                </li>
+                            ))}
+                        </ul>
+                        {parsed.migration.steps.length > 0 && (
+                            <div className="mt-3 flex gap-2 items-start text-xs text-sky-300 bg-sky-900/20 border border-sky-800 rounded p-2 whitespace-pre-line">
+                                <ArrowUpCircle size={14} className="shrink-0 mt-0.5" /> {MigrationUtils.describe(parsed.migration)}
+                            </div>
+                        )}
+                    </section>
+                )}
+
+                {issues.length > 0 && (
+                    <section>
+                        <h3 className={`text-xs font-bold uppercase mb-2 ${errorCount > 0 ? 'text-red-400' : 'text-amber-400'}`}>
+                            {s('importWizard.issues', { errors: errorCount, warnings: issues.length - errorCount })}
+                        </h3>
+                        <ul className="max-h-40 overflow-y-auto custom-scrollbar text-xs font-mono space-y-0.5 bg-nexus-900 border border-slate-700 rounded p-2">
+                            {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                                <li key={i} className={issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'}>
+                                    <span className="text-slate-500">{issue.path}</span> {issue.message}
+                                </li>
+                            ))}
+                            {issues.length > MAX_LISTED_ISSUES && <li className="text-slate-500 italic">{s('snapshots.diff.more', { count: issues.length - MAX_LISTED_ISSUES })}</li>}
+                        </ul>
+                        {errorCount > 0 && <p className="text-xs text-red-400 mt-1">{s('importWizard.blocked')}</p>}
+                    </section>
+                )}
+
+                {parsed && errorCount === 0 && (
+                    <section>
+                        <NexusSelect label={s('importWizard.destination')} value={targetId} onChange={e => setTargetId(e.target.value)}>
+                            <option value="">{s('importWizard.newWorld')}</option>
+                            {worlds.map(world => <option key={world.id} value={world.id}>{s('importWizard.mergeInto', { name: world.name })}</option>)}
+                        </NexusSelect>
+                        {targetId && !target && <div className="text-xs italic text-slate-500 mt-2">{s('importWizard.loadingTarget')}</div>}
+                        {target && activeConflicts.length === 0 && (
+                            <div className="flex gap-2 items-center text-xs text-slate-400 mt-3"><Info size={14} /> {s('importWizard.noConflicts')}</div>
+                        )}
+                    </section>
+                )}
+
+                {target && KINDS.map(kind => {
+                    const group = activeConflicts.filter(conflict => conflict.kind === kind);
+                    if (group.length === 0) return null;
+                    return (
+                        <section key={kind}>
+                            <div className="flex items-center justify-between mb-2 gap-2">
+                                <h3 className="text-xs font-bold uppercase text-slate-400">{s(`importWizard.conflicts.${kind}`, { count: group.length })}</h3>
+                                <div className="flex gap-1 text-[10px]">
+                                    <span className="text-slate-600 uppercase self-center mr-1">{s('importWizard.applyAll')}</span>
+                                    {RESOLUTIONS.map(value => (
+                                        <button key={value} onClick={() => setAll(kind, value)} className="px-2 py-0.5 rounded border border-slate-700 text-slate-400 hover:text-white hover:border-nexus-accent uppercase font-bold">
+                                            {s(`importWizard.resolution.${value}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <ul className="space-y-1">
+                                {group.map(conflict => (
+                                    <li key={conflict.key} className="flex items-center justify-between gap-2 bg-nexus-900 border border-slate-700 rounded px-3 py-1.5">
+                                        <span className="text-sm text-slate-200 truncate">
+                                            {conflict.label}
+                                            {conflict.pool && <span className="text-xs text-slate-500 ml-2">{conflict.pool}</span>}
+                                        </span>
+                                        <div className="flex shrink-0 rounded border border-slate-700 overflow-hidden text-[10px] font-bold uppercase">
+                                            {RESOLUTIONS.map(value => (
+                                                <button
+                                                    key={value}
+                                                    onClick={() => setResolution(conflict, value)}
+                                                    className={`px-2 py-1 transition-colors ${resolutionOf(conflict) === value ? 'bg-nexus-accent text-white' : 'text-slate-500 hover:text-slate-200'}`}
+                                                >
+                                                    {s(`importWizard.resolution.${value}`)}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                            <p className="text-[10px] text-slate-600 mt-1">{s(`importWizard.hint.${kind}`)}</p>
+                        </section>
+                    );
+                })}
+            </div>
+        </NexusModal>
+    );
+};
@@ -6,6 +6,8 @@ import { NexusSourceLayout, SourceOption } from './NexusSourceLayout';
 import { TagChip } from './TagChip';
 import { db } from '../services/db';
 import { UniversalEntity } from '../types';
+import { SearchUtils } from '../utils/searchUtils';
+import { QueryUtils } from '../utils/queryUtils';
 import { useStrings } from '../lib/translations';
 
 interface NexusEntityPickerProps {
@@ -62,14 +64,22 @@ export const NexusEntityPicker: React.FC<NexusEntityPickerProps> = ({
                     return;
                 }
 
-                // Call the optimized DB search
-                // LIMIT set to 100 to prevent memory explosions
-                const items = await db.searchEntities(
-                    currentWorld.id, 
-                    activeQuery, // Use captured variable
-                    100, 
-                    selectedSource === 'All' || selectedSource === 'GlobalTags' ? undefined : selectedSource
-                );
+                const poolScope = selectedSource === 'All' || selectedSource === 'GlobalTags' ? undefined : selectedSource;
+                let items: UniversalEntity[];
+                if (QueryUtils.isStructured(activeQuery)) {
+                    // Filter syntax (tag:, rarity>=, "phrase"...) goes through the query engine
+                    const parsed = QueryUtils.parse(activeQuery, currentWorld);
+                    ({ items } = await db.queryEntities(currentWorld.id, poolScope ? { ...parsed, pools: [poolScope] } : parsed, 1, 100));
+                } else {
+                    // Call the optimized DB search
+                    // LIMIT set to 100 to prevent memory explosions
+                    items = await db.searchEntities(
+                        currentWorld.id, 
+                        activeQuery, // Use captured variable
+                        100, 
+                        poolScope
+                    );
+                }
                 
                 // CRITICAL CHECK: Only update state if this is still the latest query
                 if (currentQueryRef.current === activeQuery) {
@@ -105,15 +115,24 @@ export const NexusEntityPicker: React.FC<NexusEntityPickerProps> = ({
         ];
     }, [currentWorld, s]);
 
+    // Only the free-text part of a structured query is worth highlighting
+    const highlightText = useMemo(() => {
+        if (!QueryUtils.isStructured(search)) return search;
+        const parsed = QueryUtils.parse(search);
+        return [...parsed.terms, ...parsed.phrases].join(' ');
+    }, [search]);
+
     const availableOptions = useMemo(() => {
-        const options: { id: string, label: string, type: 'tag' | 'item', source: string, color?: string }[] = [];
+        const options: { id: string, label: string, type: 'tag' | 'item', source: string, color?: string, snippet?: string }[] = [];
         
         // 1. Process Loaded Entities (Result of DB Search)
         loadedEntities.forEach(ent => {
             const poolName = (ent as any).poolName || 'Unknown'; 
             
             if (viewMode === 'entities') {
-                 options.push({ id: ent.name, label: ent.name, type: 'item', source: poolName });
+                 // Results that matched in body text show where, since the name alone won't explain the hit
+                 const nameHit = SearchUtils.highlight(ent.name, highlightText).some(seg => seg.match);
+                 options.push({ id: ent.name, label: ent.name, type: 'item', source: poolName, snippet: highlightText.trim() && !nameHit ? SearchUtils.snippet(ent, highlightText) : undefined });
             } else {
                  // Aggregating tags from the SEARCH RESULT only
                  ent.tags.forEach(t => {
@@ -142,7 +161,11 @@ export const NexusEntityPicker: React.FC<NexusEntityPickerProps> = ({
             seen.add(o.id);
             return true;
         });
-    }, [selectedSource, search, worldManager, viewMode, loadedEntities, currentWorld.id]); 
+    }, [selectedSource, search, highlightText, worldManager, viewMode, loadedEntities, currentWorld.id]); 
+
+    const renderHighlighted = (text: string) => SearchUtils.highlight(text, highlightText).map((seg, i) =>
+        seg.match ? <mark key={i} className="bg-nexus-accent/40 text-white rounded-sm">{seg.text}</mark> : <React.Fragment key={i}>{seg.text}</React.Fragment>
+    );
 
     const handleSelect = (val: string) => {
         if (single) { onChange([val]); setIsOpen(false); } 
@@ -206,10 +229,10 @@ export const NexusEntityPicker: React.FC<NexusEntityPickerProps> = ({
 
                     {!isLoading && (
                         <div className="flex flex-wrap gap-2 content-start">
-                             {search.trim() && !availableOptions.some(o => o.label.toLowerCase() === search.toLowerCase()) && <button onClick={handleCreate} className="flex items-center gap-2 px-3 py-2 rounded border border-dashed border-nexus-accent/50 bg-nexus-accent/10 text-nexus-accent hover:bg-nexus-accent/20 text-xs font-bold text-left min-h-[40px]"><Plus size={14} /> {s('entityPicker.create', { text: search })}</button>}
+                             {search.trim() && !QueryUtils.isStructured(search) && !availableOptions.some(o => o.label.toLowerCase() === search.toLowerCase()) && <button onClick={handleCreate} className="flex items-center gap-2 px-3 py-2 rounded border border-dashed border-nexus-accent/50 bg-nexus-accent/10 text-nexus-accent hover:bg-nexus-accent/20 text-xs font-bold text-left min-h-[40px]"><Plus size={14} /> {s('entityPicker.create', { text: search })}</button>}
                             {availableOptions.map((opt, idx) => {
                                 const isSelected = value.includes(opt.id) || value.includes(opt.label);
-                                return <TagChip key={`${opt.id}-${idx}`} tagName={opt.label} color={opt.color || '#64748b'} selected={isSelected} onClick={() => handleSelect(opt.id)} isGlobal={opt.source === 'Global'} icon={opt.type === 'item' ? Box : undefined} className="flex-grow-0" />;
+                                return <TagChip key={`${opt.id}-${idx}`} tagName={opt.label} label={highlightText.trim() ? renderHighlighted(opt.label) : undefined} description={opt.snippet || undefined} color={opt.color || '#64748b'} selected={isSelected} onClick={() => handleSelect(opt.id)} isGlobal={opt.source === 'Global'} icon={opt.type === 'item' ? Box : undefined} className="flex-grow-0" />;
                             })}
                             {availableOptions.length === 0 && !search && <div className="w-full text-center py-10 text-slate-500 text-xs italic">{s('entityPicker.startTyping')}</div>}
                         </div>
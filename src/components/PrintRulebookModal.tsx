@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Printer, Download, ChevronUp, ChevronDown } from 'lucide-react';
+import { World } from '../types';
+import { useWorldManager } from '../contexts/ServiceContext';
+import { useToast } from '../contexts/ToastContext';
+import { useStrings } from '../lib/translations';
+import { downloadFile } from '../lib/utils';
+import { NexusModal, NexusButton, NexusSelect } from './ui';
+import { PrintUtils, PrintChapterInfo, PrintOptions } from '../utils/printUtils';
+
+interface PrintRulebookModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    world: World;
+}
+
+type ChapterRow = PrintChapterInfo & { included: boolean };
+
+// Picks and orders the chapters of the printable rulebook, then opens or downloads it
+export const PrintRulebookModal: React.FC<PrintRulebookModalProps> = ({ isOpen, onClose, world }) => {
+    const worldManager = useWorldManager();
+    const { s } = useStrings();
+    const { toast } = useToast();
+
+    const [rows, setRows] = useState<ChapterRow[]>([]);
+    const [pageSize, setPageSize] = useState<PrintOptions['pageSize']>('A4');
+    const [isWorking, setIsWorking] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) setRows(PrintUtils.availableChapters(world).map(chapter => ({ ...chapter, included: true })));
+    }, [isOpen, world]);
+
+    const move = (index: number, offset: number) => setRows(prev => {
+        const target = index + offset;
+        if (target < 0 || target >= prev.length) return prev;
+        const next = [...prev];
+        [next[index], next[target]] = [next[target], next[index]];
+        return next;
+    });
+    const toggle = (index: number) => setRows(prev => prev.map((row, i) => i === index ? { ...row, included: !row.included } : row));
+
+    const chapterLabel = (row: ChapterRow) => row.kind === 'pool' ? row.pool! : s(`print.chapter.${row.kind}`);
+
+    const build = async (): Promise<string | null> => {
+        setIsWorking(true);
+        try {
+            const html = await worldManager.exportWorldToPrintHtml(world.id, { chapters: rows.filter(row => row.included).map(row => row.id), pageSize, translate: s });
+            if (!html) throw new Error("Export failed");
+            return html;
+        } catch (e) {
+            toast({ title: s('home.toast.exportFailed.title'), message: s('home.toast.exportFailed.message'), type: "error" });
+            return null;
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleOpen = async () => {
+        const html = await build();
+        if (!html) return;
+        const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+        const opened = window.open(url, '_blank');
+        if (!opened) toast({ title: s('print.toast.blocked'), message: s('print.toast.blockedHint'), type: "warning" });
+        // The new tab keeps its own copy once loaded
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+    };
+
+    const handleDownload = async () => {
+        const html = await build();
+        if (!html) return;
+        downloadFile(html, `${world.name.replace(/\s+/g, '_')}_Rulebook.html`, 'text/html');
+    };
+
+    const noneSelected = !rows.some(row => row.included);
+    const footer = (
+        <>
+            <NexusButton variant="ghost" onClick={onClose}>{s('common.cancel')}</NexusButton>
+            <NexusButton variant="secondary" onClick={handleDownload} disabled={noneSelected || isWorking} icon={<Download size={16} />}>{s('print.download')}</NexusButton>
+            <NexusButton onClick={handleOpen} disabled={noneSelected || isWorking} icon={<Printer size={16} />}>{s('print.open')}</NexusButton>
+        </>
+    );
+
+    return (
+        <NexusModal isOpen={isOpen} onClose={onClose} title={<><Printer size={18} className="text-nexus-accent" /> {s('print.title')}</>} footer={footer} maxWidth="max-w-lg">
+            <div className="space-y-4">
+                <p className="text-xs text-slate-400">{s('print.hint')}</p>
+                <section>
+                    <h3 className="text-xs font-bold uppercase text-slate-400 mb-2">{s('print.chapters')}</h3>
+                    <ul className="space-y-1">
+                        {rows.map((row, index) => (
+                            <li key={row.id} className="flex items-center gap-2 bg-nexus-900 border border-slate-700 rounded px-3 py-1.5">
+                                <input type="checkbox" checked={row.included} onChange={() => toggle(index)} className="accent-nexus-accent" />
+                                <span className={`flex-1 text-sm truncate ${row.included ? 'text-slate-200' : 'text-slate-600 line-through'}`}>
+                                    {chapterLabel(row)}
+                                    {row.kind === 'pool' && <span className="text-xs text-slate-500 ml-2">{world.pools[row.pool!]?.type}</span>}
+                                </span>
+                                <button onClick={() => move(index, -1)} disabled={index === 0} className="text-slate-500 hover:text-white disabled:opacity-30" title={s('print.moveUp')}>
+                                    <ChevronUp size={14} />
+                                </button>
+                                <button onClick={() => move(index, 1)} disabled={index === rows.length - 1} className="text-slate-500 hover:text-white disabled:opacity-30" title={s('print.moveDown')}>
+                                    <ChevronDown size={14} />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+                <NexusSelect label={s('print.pageSize')} value={pageSize} onChange={e => setPageSize(e.target.value as PrintOptions['pageSize'])}>
+                    <option value="A4">A4</option>
+                    <option value="Letter">Letter</option>
+                </NexusSelect>
+            </div>
+        </NexusModal>
+    );
+};
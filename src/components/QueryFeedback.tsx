@@ -0,0 +1,38 @@
+import React from 'react';
+import { AlertTriangle, BookmarkPlus, ChevronLeft, ChevronRight, Filter } from 'lucide-react';
+import { EntityQuery } from '../utils/queryUtils';
+import { useStrings } from '../lib/translations';
+
+interface QueryFeedbackProps {
+    query: EntityQuery;
+    total?: number;
+    page?: number;
+    totalPages?: number;
+    onPrev?: () => void;
+    onNext?: () => void;
+    onSave?: () => void; // Offers "Save as View" when given
+}
+
+// Status line under a structured query box: match count, parse errors and paging
+export const QueryFeedback: React.FC<QueryFeedbackProps> = ({ query, total, page, totalPages, onPrev, onNext, onSave }) => {
+    const { s } = useStrings();
+    return (
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+            <span className="flex items-center gap-1 text-nexus-accent font-bold"><Filter size={12} /> {s('query.active')}</span>
+            {total !== undefined && <span className="text-slate-400 font-mono">{s('query.matches', { count: total })}</span>}
+            {query.errors.map(err => (
+                <span key={err} className="flex items-center gap-1 text-orange-400"><AlertTriangle size={12} /> {err}</span>
+            ))}
+            {onSave && (
+                <button onClick={onSave} className="flex items-center gap-1 text-slate-500 hover:text-nexus-accent font-bold"><BookmarkPlus size={12} /> {s('savedViews.saveQuery')}</button>
+            )}
+            {page !== undefined && totalPages !== undefined && totalPages > 1 && (
+                <span className="ml-auto flex items-center gap-2 text-slate-500">
+                    <button onClick={onPrev} disabled={page <= 1} className="hover:text-white disabled:opacity-30"><ChevronLeft size={14} /></button>
+                    <span className="font-mono">{page} / {totalPages}</span>
+                    <button onClick={onNext} disabled={page >= totalPages} className="hover:text-white disabled:opacity-30"><ChevronRight size={14} /></button>
+                </span>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { History, FileJson, FileText, Trash2, Eye } from 'lucide-react';
+import { RollHistoryEntry } from '../types';
+import { db } from '../services/db';
+import { describeConstraints } from '../services/rollerEngine';
+import { NexusButton, NexusSelect } from './ui';
+import { useToast } from '../contexts/ToastContext';
+import { downloadFile } from '../lib/utils';
+import { useStrings } from '../lib/translations';
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+
+const toMarkdown = (worldName: string, entries: RollHistoryEntry[]): string => {
+    const lines: string[] = [`# Roll History: ${worldName}`, ''];
+    // Oldest first reads better as session notes
+    [...entries].reverse().forEach(entry => {
+        lines.push(`## ${formatTime(entry.timestamp)} · ${entry.pool}`);
+        lines.push('');
+        if (entry.winners.length === 0) {
+            lines.push('- _No result_');
+        } else {
+            entry.winners.forEach(w => {
+                const quantities = (w.quantities || []).map(q => ` · ${q.label}: ${q.total} (${q.breakdown})`).join('');
+                lines.push(`- **${w.name}** (${w.rarity})${quantities}`);
+            });
+        }
+        lines.push('');
+        lines.push(`Seed: \`${entry.seed}\``);
+        if (entry.contextTags.length > 0) lines.push(`Context: ${entry.contextTags.join(', ')}`);
+        if (entry.constraints.length > 0) lines.push(`Constraints: ${describeConstraints(entry.constraints)}`);
+        lines.push('');
+    });
+    return lines.join('\n');
+};
+
+interface RollHistoryPanelProps {
+    worldId: string;
+    worldName: string;
+    pools: string[];
+    refreshKey: number; // Bumped by the Roller after each saved roll
+    onReopen: (entry: RollHistoryEntry) => void;
+}
+
+export const RollHistoryPanel: React.FC<RollHistoryPanelProps> = ({ worldId, worldName, pools, refreshKey, onReopen }) => {
+    const { s } = useStrings();
+    const { toast } = useToast();
+    const [poolFilter, setPoolFilter] = useState('');
+    const [entries, setEntries] = useState<RollHistoryEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const loadHistory = async () => {
+        setIsLoading(true);
+        try {
+            setEntries(await db.getRollHistory(worldId, poolFilter || undefined));
+        } catch (e) {
+            toast({ title: s('roller.history.toast.loadFailed'), message: String(e), type: "error" });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => { loadHistory(); }, [worldId, poolFilter, refreshKey]);
+
+    const handleDelete = async (id: string) => {
+        await db.deleteRollHistoryEntry(id);
+        setEntries(prev => prev.filter(e => e.id !== id));
+    };
+
+    const handleClear = async () => {
+        const count = await db.clearRollHistory(worldId, poolFilter || undefined);
+        setEntries([]);
+        toast({ title: s('roller.history.toast.cleared'), message: s('roller.history.toast.clearedCount', { count }), type: "info" });
+    };
+
+    const fileBase = `Nexus_${worldName.replace(/\s+/g, '_')}_rolls_${Date.now()}`;
+    const exportJson = () => downloadFile(JSON.stringify(entries, null, 2), `${fileBase}.json`, 'application/json');
+    const exportMarkdown = () => downloadFile(toMarkdown(worldName, entries), `${fileBase}.md`, 'text/markdown');
+
+    return (
+        <div className="w-full h-full p-4 flex flex-col gap-3 overflow-hidden animate-in fade-in duration-200">
+            <div className="flex gap-2 items-center shrink-0">
+                <div className="w-48">
+                    <NexusSelect value={poolFilter} onChange={e => setPoolFilter(e.target.value)} className="text-xs">
+                        <option value="">{s('roller.history.allPools')}</option>
+                        {pools.map(p => <option key={p} value={p}>{p}</option>)}
+                    </NexusSelect>
+                </div>
+                <span className="text-xs text-slate-500 font-mono">{s('roller.history.count', { count: entries.length })}</span>
+                <div className="ml-auto flex gap-2">
+                    <NexusButton variant="ghost" size="sm" onClick={exportJson} disabled={entries.length === 0} icon={<FileJson size={14} />}>JSON</NexusButton>
+                    <NexusButton variant="ghost" size="sm" onClick={exportMarkdown} disabled={entries.length === 0} icon={<FileText size={14} />}>Markdown</NexusButton>
+                    <NexusButton variant="ghost" size="sm" onClick={handleClear} disabled={entries.length === 0} icon={<Trash2 size={14} />}>{s('roller.history.clear')}</NexusButton>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 min-h-0">
+                {!isLoading && entries.length === 0 && (
+                    <div className="text-slate-500 flex flex-col items-center text-sm italic pt-12">
+                        <History size={48} className="mb-2 opacity-50" />
+                        {s('roller.history.empty')}
+                    </div>
+                )}
+                {entries.map(entry => (
+                    <div key={entry.id} className="bg-nexus-900 border border-slate-700 rounded-lg p-3 flex gap-3 items-start group">
+                        <div className="flex-1 min-w-0">
+                            <div className="flex gap-2 items-center text-xs text-slate-500 mb-1">
+                                <span className="font-mono">{formatTime(entry.timestamp)}</span>
+                                <span className="px-1.5 py-0.5 bg-slate-800 rounded font-bold text-slate-400">{entry.pool}</span>
+                                <span className="font-mono truncate">#{entry.seed}</span>
+                            </div>
+                            <div className="text-sm text-slate-200 truncate">
+                                {entry.winners.length > 0
+                                    ? entry.winners.map(w => w.quantities?.length ? `${w.name} x${w.quantities.map(q => q.total).join('/')}` : w.name).join(', ')
+                                    : <span className="italic text-orange-400">{s('roller.history.noResult')}</span>}
+                            </div>
+                            {(entry.contextTags.length > 0 || entry.constraints.length > 0) && (
+                                <div className="text-[10px] text-slate-500 font-mono truncate mt-1" title={describeConstraints(entry.constraints)}>
+                                    {entry.contextTags.length > 0 && `[${entry.contextTags.join(', ')}] `}
+                                    {entry.constraints.length > 0 && describeConstraints(entry.constraints)}
+                                </div>
+                            )}
+                        </div>
+                        <button onClick={() => onReopen(entry)} className="text-slate-500 hover:text-nexus-accent p-1" title={s('roller.history.reopen')}><Eye size={16} /></button>
+                        <button onClick={() => handleDelete(entry.id)} className="text-slate-500 hover:text-red-400 p-1 opacity-0 group-hover:opacity-100 transition-opacity"><Trash2 size={14} /></button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { BarChart3, FlaskConical } from 'lucide-react';
+import { WorldConfig } from '../types';
+import { RollPreview, SimulationResult } from '../services/rollerEngine';
+import { WeightPieChart } from './WeightPieChart';
+import { NexusButton, NexusSelect } from './ui';
+import { useStrings } from '../lib/translations';
+
+const ITERATION_CHOICES = [1000, 10000, 100000];
+
+const formatPercent = (p: number) => `${(p * 100).toFixed(p > 0 && p < 0.001 ? 3 : 1)}%`;
+
+interface RollOddsPanelProps {
+    preview: RollPreview;
+    simulation: SimulationResult | null; // Only passed while it still matches the preview inputs
+    raritySettings?: WorldConfig['raritySettings'];
+    onSimulate: (iterations: number) => void;
+}
+
+/**
+ * Per-rarity share and per-entity odds for the next single draw,
+ * with an optional Monte Carlo run to check the numbers empirically.
+ */
+export const RollOddsPanel: React.FC<RollOddsPanelProps> = ({ preview, simulation, raritySettings, onSimulate }) => {
+    const { s } = useStrings();
+    const [iterations, setIterations] = useState(10000);
+
+    const colorFor = (rarity: string) =>
+        (raritySettings?.levels || []).find(l => l.label.toLowerCase() === rarity.toLowerCase() || l.id === rarity.toLowerCase())?.color;
+
+    const observed = (count: number | undefined) => simulation && simulation.iterations > 0 ? (count || 0) / simulation.iterations : null;
+
+    // Largest gap between expected and observed share, in percentage points
+    const maxDeviation = simulation && simulation.iterations > 0
+        ? Math.max(0, ...preview.entries.map(e => Math.abs(e.probability - (observed(simulation.counts[e.item.id]) ?? 0)))) * 100
+        : null;
+
+    if (preview.entries.length === 0) {
+        return (
+            <div className="text-slate-500 flex flex-col items-center text-sm italic">
+                <BarChart3 size={48} className="mb-2 opacity-50" />
+                {s('roller.odds.empty', { filtered: preview.rejectedCount + preview.bannedCount + preview.zeroWeightCount })}
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-full h-full p-4 flex flex-col gap-4 overflow-hidden animate-in fade-in duration-200">
+            <div className="flex gap-6 items-center shrink-0">
+                <WeightPieChart size={120} data={preview.byRarity.map(r => ({ label: r.rarity, weight: r.weight, color: colorFor(r.rarity) }))} />
+                <div className="flex-1 space-y-1 text-xs">
+                    {preview.byRarity.map(r => {
+                        const sim = observed(simulation?.rarityCounts[r.rarity]);
+                        return (
+                            <div key={r.rarity} className="flex items-center gap-2">
+                                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: colorFor(r.rarity) || '#64748b' }} />
+                                <span className="font-bold text-slate-200 w-24 truncate">{r.rarity}</span>
+                                <span className="text-slate-500 w-16">{s('roller.odds.items', { count: r.count })}</span>
+                                <span className="font-mono text-slate-200 w-16 text-right">{formatPercent(r.probability)}</span>
+                                {sim !== null && <span className="font-mono text-sky-400 w-16 text-right">{formatPercent(sim)}</span>}
+                            </div>
+                        );
+                    })}
+                    <div className="text-slate-500 pt-1">{s('roller.odds.summary', { valid: preview.entries.length, filtered: preview.rejectedCount + preview.bannedCount + preview.zeroWeightCount })}</div>
+                </div>
+                <div className="w-44 space-y-2">
+                    <NexusSelect value={iterations} onChange={e => setIterations(parseInt(e.target.value, 10))} className="text-xs">
+                        {ITERATION_CHOICES.map(n => <option key={n} value={n}>{s('roller.odds.iterations', { count: n.toLocaleString() })}</option>)}
+                    </NexusSelect>
+                    <NexusButton variant="secondary" size="sm" className="w-full" onClick={() => onSimulate(iterations)} icon={<FlaskConical size={14} />}>{s('roller.odds.simulate')}</NexusButton>
+                    {simulation && maxDeviation !== null && (
+                        <div className="text-[10px] text-slate-500 font-mono">{s('roller.odds.simulated', { count: simulation.iterations.toLocaleString(), deviation: maxDeviation.toFixed(2) })}</div>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0">
+                <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-nexus-800 text-slate-500 uppercase">
+                        <tr>
+                            <th className="text-left py-1">{s('roller.odds.col.entity')}</th>
+                            <th className="text-left py-1">{s('roller.odds.col.rarity')}</th>
+                            <th className="text-right py-1">{s('roller.odds.col.weight')}</th>
+                            <th className="text-right py-1">{s('roller.odds.col.chance')}</th>
+                            {simulation && <th className="text-right py-1">{s('roller.odds.col.simulated')}</th>}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {preview.entries.map(e => (
+                            <tr key={e.item.id} className="border-t border-slate-800 hover:bg-nexus-900/50" title={e.notes.join(', ')}>
+                                <td className="py-1 text-slate-200 font-bold truncate max-w-[12rem]">{e.item.name}{e.notes.length > 0 && <span className="text-purple-400 ml-1">*</span>}</td>
+                                <td className="py-1 text-slate-400">{e.rarity}</td>
+                                <td className="py-1 text-right font-mono text-slate-400">{+e.weight.toFixed(3)}</td>
+                                <td className="py-1 text-right font-mono text-slate-200">{formatPercent(e.probability)}</td>
+                                {simulation && <td className="py-1 text-right font-mono text-sky-400">{formatPercent(observed(simulation.counts[e.item.id]) ?? 0)}</td>}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
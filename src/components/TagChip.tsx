@@ -4,6 +4,7 @@ import { PortalTooltip } from './PortalTooltip';
 
 interface TagChipProps {
     tagName: string;
+    label?: React.ReactNode; // Rendered in place of tagName, e.g. with search matches highlighted
     count?: number;
     color: string;
     description?: string;
@@ -33,6 +34,7 @@ const hexToRgba = (hex: string, alpha: number) => {
 
 export const TagChip: React.FC<TagChipProps> = ({ 
     tagName, 
+    label,
     count, 
     color, 
     description, 
@@ -75,7 +77,7 @@ export const TagChip: React.FC<TagChipProps> = ({
         >
             <div className="flex items-center gap-2 min-w-0">
                 <Icon size={12} style={{ color: selected ? '#fff' : color }} className={`shrink-0 ${selected ? '' : 'opacity-80'}`} />
-                <span className={`text-xs font-bold truncate ${selected ? 'text-white' : 'text-slate-200'}`}>{tagName}</span>
+                <span className={`text-xs font-bold truncate ${selected ? 'text-white' : 'text-slate-200'}`}>{label ?? tagName}</span>
             </div>
 
             <div className="flex items-center gap-2">
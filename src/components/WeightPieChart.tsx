@@ -29,7 +29,10 @@ export const WeightPieChart: React.FC<WeightPieChartProps> = ({ data, size = 100
         // SVG Path command
         // M center L startPoint A radius radius 0 largeArc sweep endPoint Z
         const largeArc = angle > 180 ? 1 : 0;
-        const pathData = `M 50 50 L ${x1} ${y1} A 50 50 0 ${largeArc} 1 ${x2} ${y2} Z`;
+        // A single 360° slice has identical start/end points, so draw it as two half arcs
+        const pathData = angle >= 360
+            ? 'M 0 50 A 50 50 0 1 1 100 50 A 50 50 0 1 1 0 50 Z'
+            : `M 50 50 L ${x1} ${y1} A 50 50 0 ${largeArc} 1 ${x2} ${y2} Z`;
 
         return {
             path: pathData,
@@ -65,7 +68,7 @@ export const WeightPieChart: React.FC<WeightPieChartProps> = ({ data, size = 100
                 <circle cx="50" cy="50" r="20" fill="#0f172a" />
             </svg>
             <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                <span className="text-xs font-bold text-slate-500">Total<br/>{totalWeight}</span>
+                <span className="text-xs font-bold text-slate-500">Total<br/>{+totalWeight.toFixed(2)}</span>
             </div>
         </div>
     );
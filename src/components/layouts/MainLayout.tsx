@@ -4,19 +4,27 @@ import {
     LayoutDashboard, Database, Hammer, Dices, Layers, Globe, Workflow, 
     ArrowLeft, BookOpen, Contact, Settings, Sparkles, Save, Plus, 
     ChevronDown, ChevronRight, ChevronUp, Palette, Hash, Cuboid, Download,
-    Menu, X
+    Menu, X, ListOrdered, Bookmark, Camera, FileText, Printer, FileJson
 } from 'lucide-react';
 
 // New Architecture Imports
 import { useActiveWorld } from '../../contexts/ActiveWorldContext';
 import { useWorldManager } from '../../contexts/ServiceContext';
 import { useCurrentWorld } from '../../hooks/useWorldData';
+import { useWorldData } from '../../contexts/WorldDataContext';
 import { useToast } from '../../contexts/ToastContext';
-import { useTranslation } from '../../lib/translations'; // NEW IMPORT
+import { useTranslation, useStrings } from '../../lib/translations'; // NEW IMPORT
+import { useSavedViewCounts } from '../../hooks/useSavedViewCounts';
+import { QueryUtils } from '../../utils/queryUtils';
+import { MigrationUtils } from '../../utils/migrationUtils';
+import { QueryFeedback } from '../QueryFeedback';
 
 import { PoolCategory, Pool } from '../../types';
 import { NexusModal, NexusInput, NexusButton, Breadcrumb, useBreadcrumbs } from '../ui';
 import { POOL_COLORS, TYPE_COLORS, getPoolColor } from '../../constants/colors';
+import { downloadFile } from '../../lib/utils';
+import { PrintRulebookModal } from '../PrintRulebookModal';
+import { ExportProfilesModal } from '../ExportProfilesModal';
 
 interface SidebarItemProps {
   to: string;
@@ -90,14 +98,16 @@ const CollapsibleSection = ({
     onToggle, 
     onAdd, 
     children,
-    headerColor
+    headerColor,
+    addTitle = "Create New Pool"
 }: { 
     title: string, 
     isOpen: boolean, 
     onToggle: () => void, 
     onAdd: (e: React.MouseEvent) => void, 
     children?: React.ReactNode,
-    headerColor?: string
+    headerColor?: string,
+    addTitle?: string
 }) => (
     <div className="mb-2">
         <div 
@@ -114,7 +124,7 @@ const CollapsibleSection = ({
             <button 
                 onClick={(e) => { e.stopPropagation(); onAdd(e); }} 
                 className="text-slate-600 hover:text-white p-1 rounded hover:bg-nexus-700 opacity-0 group-hover:opacity-100 transition-opacity"
-                title="Create New Pool"
+                title={addTitle}
             >
                 <Plus size={12}/>
             </button>
@@ -135,6 +145,7 @@ const Layout: React.FC = () => {
   const worldManager = useWorldManager();
   const { toast } = useToast();
   const t = useTranslation(); // Use Hook
+  const { s } = useStrings();
   
   const navigate = useNavigate();
   const params = useParams();
@@ -189,9 +200,28 @@ const Layout: React.FC = () => {
   const [sections, setSections] = useState({
       world: true,
       character: true,
-      asset: true
+      asset: true,
+      views: true
   });
 
+  // Saved Views
+  const savedViewCounts = useSavedViewCounts(currentWorld, location.pathname);
+  const [isCreateViewOpen, setIsCreateViewOpen] = useState(false);
+  const [newViewName, setNewViewName] = useState('');
+  const [newViewQuery, setNewViewQuery] = useState('');
+  const newViewParsed = currentWorld && newViewQuery.trim() ? QueryUtils.parse(newViewQuery, currentWorld) : null;
+
+  useEffect(() => {
+      if (!isCreateViewOpen) {
+          setNewViewName('');
+          setNewViewQuery('');
+      }
+  }, [isCreateViewOpen]);
+
+  // Printable rulebook
+  const [isPrintOpen, setIsPrintOpen] = useState(false);
+  const [isProfilesOpen, setIsProfilesOpen] = useState(false);
+
   // Mobile Menu State
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
@@ -230,6 +260,14 @@ const Layout: React.FC = () => {
       }
   }, [params.worldId, activeWorldId, setActiveWorldId]);
 
+  // Report upgrades applied to stored data when a world is opened
+  const { migration } = useWorldData();
+  useEffect(() => {
+      if (migration && migration.steps.length > 0) {
+          toast({ title: s('home.toast.worldUpgraded.title'), message: MigrationUtils.describe(migration), type: "info" });
+      }
+  }, [migration]);
+
   // Sync Local Sort State when World loads/updates
   useEffect(() => {
       if (currentWorld) {
@@ -304,6 +342,18 @@ const Layout: React.FC = () => {
       }
   };
 
+  const handleExportMarkdown = async () => {
+      if (!currentWorld) return;
+      try {
+          const zip = await worldManager.exportWorldToMarkdownZip(currentWorld.id);
+          if (!zip) throw new Error("Export failed");
+          downloadFile(zip, `Nexus_${currentWorld.name.replace(/\s+/g, '_')}_${Date.now()}.zip`, 'application/zip');
+          toast({ title: s('home.toast.exportComplete.title'), message: s('markdown.toast.complete'), type: "success" });
+      } catch (e) {
+          toast({ title: s('home.toast.exportFailed.title'), message: s('home.toast.exportFailed.message'), type: "error" });
+      }
+  };
+
   const handleCreatePool = async () => {
       if (!currentWorld || !createPoolType) return;
       
@@ -330,6 +380,21 @@ const Layout: React.FC = () => {
       }, 50);
   };
 
+  const handleCreateView = async () => {
+      if (!currentWorld || !newViewName.trim()) return;
+      const id = crypto.randomUUID();
+      await worldManager.saveSavedView(currentWorld.id, {
+          id,
+          name: newViewName.trim(),
+          query: newViewQuery.trim(),
+          created: Date.now()
+      });
+      triggerRefresh();
+      setIsCreateViewOpen(false);
+      setSections(prev => ({ ...prev, views: true }));
+      navigate(`/world/${currentWorld.id}/view/${id}`);
+  };
+
   const toggleSection = (key: keyof typeof sections) => {
       setSections(prev => ({ ...prev, [key]: !prev[key] }));
   };
@@ -516,6 +581,27 @@ const Layout: React.FC = () => {
                                 {orderedAssetPools.length === 0 && <div className="text-xs text-slate-600 pl-4 italic">{t.placeholders.noAssetPools}</div>}
                             </CollapsibleSection>
 
+                            {/* SAVED VIEWS SECTION */}
+                            <CollapsibleSection 
+                                title={t.sidebar.savedViews} 
+                                isOpen={sections.views} 
+                                onToggle={() => toggleSection('views')}
+                                onAdd={() => setIsCreateViewOpen(true)}
+                                addTitle={t.headers.createView}
+                            >
+                                {(currentWorld.savedViews || []).map(view => (
+                                    <SidebarItem 
+                                        key={view.id}
+                                        to={`/world/${params.worldId}/view/${view.id}`} 
+                                        icon={Bookmark} 
+                                        label={view.name}
+                                        poolCount={savedViewCounts[view.id]}
+                                        description={view.description || view.query}
+                                    />
+                                ))}
+                                {(currentWorld.savedViews || []).length === 0 && <div className="text-xs text-slate-600 pl-4 italic">{t.placeholders.noSavedViews}</div>}
+                            </CollapsibleSection>
+
                             <div className="h-px bg-slate-700 my-4"></div>
                             
                             <div className="px-2 text-xs uppercase font-bold text-slate-500 mt-4 mb-1">{t.sidebar.tools}</div>
@@ -523,6 +609,8 @@ const Layout: React.FC = () => {
                             <SidebarItem to={`/world/${params.worldId}/tags`} icon={Hash} label={t.sidebar.tagManager} />
                             <SidebarItem to={`/world/${params.worldId}/forge`} icon={Hammer} label={t.sidebar.aiForge} />
                             <SidebarItem to={`/world/${params.worldId}/rules`} icon={Workflow} label={t.sidebar.rules} />
+                            <SidebarItem to={`/world/${params.worldId}/roll-tables`} icon={ListOrdered} label={t.sidebar.rollTables} />
+                            <SidebarItem to={`/world/${params.worldId}/snapshots`} icon={Camera} label={t.sidebar.snapshots} />
                             {/* Roller temporarily disabled - causes page crash */}
                             {/* <SidebarItem to={`/world/${params.worldId}/roller`} icon={Dices} label={t.sidebar.rollerTest} /> */}
                         </>
@@ -540,6 +628,27 @@ const Layout: React.FC = () => {
                     >
                         <Download size={14} /> {t.sidebar.export}
                     </button>
+                    <button 
+                        onClick={handleExportMarkdown}
+                        className="px-3 bg-nexus-900 border border-slate-600 text-slate-400 hover:text-white hover:border-nexus-accent rounded flex items-center justify-center transition-all"
+                        title={s('markdown.export')}
+                    >
+                        <FileText size={14} />
+                    </button>
+                    <button 
+                        onClick={() => setIsPrintOpen(true)}
+                        className="px-3 bg-nexus-900 border border-slate-600 text-slate-400 hover:text-white hover:border-nexus-accent rounded flex items-center justify-center transition-all"
+                        title={s('print.title')}
+                    >
+                        <Printer size={14} />
+                    </button>
+                    <button 
+                        onClick={() => setIsProfilesOpen(true)}
+                        className="px-3 bg-nexus-900 border border-slate-600 text-slate-400 hover:text-white hover:border-nexus-accent rounded flex items-center justify-center transition-all"
+                        title={s('exportProfiles.title')}
+                    >
+                        <FileJson size={14} />
+                    </button>
                     <button 
                         onClick={handleManualSave}
                         className="px-3 bg-nexus-900 border border-slate-600 text-slate-400 hover:text-white hover:border-nexus-accent rounded flex items-center justify-center transition-all"
@@ -629,6 +738,42 @@ const Layout: React.FC = () => {
               </div>
           </div>
       </NexusModal>
+
+      {/* CREATE SAVED VIEW MODAL */}
+      <NexusModal 
+        isOpen={isCreateViewOpen} 
+        onClose={() => setIsCreateViewOpen(false)} 
+        title={<><Bookmark size={18} className="text-nexus-accent" /> {t.headers.createView}</>}
+        footer={
+            <>
+                <NexusButton variant="ghost" onClick={() => setIsCreateViewOpen(false)}>{t.actions.cancel}</NexusButton>
+                <NexusButton disabled={!newViewName.trim()} onClick={handleCreateView}>{t.actions.create}</NexusButton>
+            </>
+        }
+      >
+          <div className="space-y-4">
+              <NexusInput 
+                label={s('savedViews.field.name')}
+                autoFocus
+                value={newViewName}
+                onChange={e => setNewViewName(e.target.value)}
+                placeholder={s('savedViews.placeholder.name')}
+                required
+              />
+              <NexusInput 
+                label={s('savedViews.field.query')}
+                value={newViewQuery}
+                onChange={e => setNewViewQuery(e.target.value)}
+                placeholder={s('savedViews.placeholder.query')}
+                title={s('query.help')}
+                className="font-mono"
+              />
+              {newViewParsed && <QueryFeedback query={newViewParsed} />}
+          </div>
+      </NexusModal>
+
+      {currentWorld && <PrintRulebookModal isOpen={isPrintOpen} onClose={() => setIsPrintOpen(false)} world={currentWorld} />}
+      {currentWorld && <ExportProfilesModal isOpen={isProfilesOpen} onClose={() => setIsProfilesOpen(false)} world={currentWorld} />}
     </div>
   );
 };
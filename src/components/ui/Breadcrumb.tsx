@@ -132,6 +132,15 @@ export const useBreadcrumbs = (
                 case 'rules':
                     items.push({ label: s('breadcrumb.rules') });
                     break;
+                case 'roll-tables':
+                    items.push({ label: s('breadcrumb.rollTables') });
+                    break;
+                case 'snapshots':
+                    items.push({ label: s('breadcrumb.snapshots') });
+                    break;
+                case 'view':
+                    items.push({ label: s('breadcrumb.savedView') });
+                    break;
                 case 'roller':
                     items.push({ label: s('breadcrumb.rollerTest') });
                     break;
@@ -2,11 +2,13 @@ import React, { createContext, useContext, useState, useEffect, useCallback, use
 import { World } from '../types';
 import { useActiveWorld } from './ActiveWorldContext';
 import { useWorldManager } from './ServiceContext';
+import { MigrationReport } from '../utils/migrationUtils';
 
 interface WorldDataContextType {
     currentWorld: World | null;
     loading: boolean;
     error: string | null;
+    migration: MigrationReport | null; // Set when loading upgraded the world's stored data
     refreshWorld: () => void;
 }
 
@@ -19,6 +21,7 @@ export const WorldDataProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     const [currentWorld, setCurrentWorld] = useState<World | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [migration, setMigration] = useState<MigrationReport | null>(null);
     const [localRefresh, setLocalRefresh] = useState(0);
 
     // Manual refresh trigger (increments local signal)
@@ -49,7 +52,8 @@ export const WorldDataProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             setError(null);
 
             try {
-                const world = await worldManager.loadWorld(activeWorldId, true);
+                const { world, migration: report } = await worldManager.openWorld(activeWorldId);
+                if (report) setMigration(report);
                 if (world) {
                     setCurrentWorld(world);
                 } else {
@@ -72,8 +76,9 @@ export const WorldDataProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         currentWorld,
         loading,
         error,
+        migration,
         refreshWorld
-    }), [currentWorld, loading, error, refreshWorld]);
+    }), [currentWorld, loading, error, migration, refreshWorld]);
 
     return (
         <WorldDataContext.Provider value={value}>
@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
 import { db } from '../services/db';
 import { UniversalEntity } from '../types';
+import { EntityQuery } from '../utils/queryUtils';
 import { useActiveWorld } from '../contexts/ActiveWorldContext';
 
-export const usePoolData = (worldId: string | undefined, poolName: string, pageSize: number = 50) => {
+// With a structured query, pages come from db.queryEntities scoped to this pool instead
+export const usePoolData = (worldId: string | undefined, poolName: string, pageSize: number = 50, query: EntityQuery | null = null) => {
     const [entities, setEntities] = useState<UniversalEntity[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -19,7 +21,9 @@ export const usePoolData = (worldId: string | undefined, poolName: string, pageS
         if (!worldId || !poolName) return;
         setLoading(true);
         try {
-            const { items, total } = await db.getEntitiesForPoolPaginated(worldId, poolName, targetPage, pageSize);
+            const { items, total } = query
+                ? await db.queryEntities(worldId, { ...query, pools: [poolName] }, targetPage, pageSize)
+                : await db.getEntitiesForPoolPaginated(worldId, poolName, targetPage, pageSize);
             setEntities(items);
             setTotal(total);
             setPage(targetPage);
@@ -29,7 +33,7 @@ export const usePoolData = (worldId: string | undefined, poolName: string, pageS
         } finally {
             setLoading(false);
         }
-    }, [worldId, poolName, pageSize]);
+    }, [worldId, poolName, pageSize, query]);
 
     // Initial Load & Refresh
     useEffect(() => {
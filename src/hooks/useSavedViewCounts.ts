@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { db } from '../services/db';
+import { World } from '../types';
+import { QueryUtils } from '../utils/queryUtils';
+
+// Match counts for the world's saved views, keyed by view ID.
+// Recounted whenever the world reloads or `refreshKey` changes (e.g. on navigation).
+export const useSavedViewCounts = (world: World | null, refreshKey?: string) => {
+    const [counts, setCounts] = useState<Record<string, number>>({});
+
+    useEffect(() => {
+        let active = true;
+        const views = world?.savedViews || [];
+        if (!world || views.length === 0) {
+            setCounts({});
+            return;
+        }
+        Promise.all(views.map(v => db.countQuery(world.id, QueryUtils.parse(v.query, world))))
+            .then(results => {
+                if (!active) return;
+                const next: Record<string, number> = {};
+                views.forEach((v, i) => { next[v.id] = results[i]; });
+                setCounts(next);
+            })
+            .catch(e => console.error("Failed to count saved views", e));
+        return () => { active = false; };
+    }, [world, refreshKey]);
+
+    return counts;
+};
@@ -47,6 +47,9 @@ interface TranslationSet {
         tagManager: string;
         aiForge: string;
         rules: string;
+        rollTables: string;
+        savedViews: string;
+        snapshots: string;
         rollerTest: string;
         export: string;
         manualSave: string;
@@ -54,6 +57,7 @@ interface TranslationSet {
     headers: {
         worldEditor: string;
         createPool: string;
+        createView: string;
     };
     actions: {
         cancel: string;
@@ -66,6 +70,7 @@ interface TranslationSet {
         noWorldPools: string;
         noCharPools: string;
         noAssetPools: string;
+        noSavedViews: string;
     };
     home: {
         hero: {
@@ -273,6 +278,9 @@ const TRANSLATIONS: Record<Language, TranslationSet> = {
             tagManager: "Tag Manager",
             aiForge: "AI Forge",
             rules: "Logic / Rules",
+            rollTables: "Roll Tables",
+            savedViews: "Saved Views",
+            snapshots: "Snapshots",
             rollerTest: "Roller Test",
             export: "Export",
             manualSave: "Save",
@@ -280,6 +288,7 @@ const TRANSLATIONS: Record<Language, TranslationSet> = {
         headers: {
             worldEditor: "World Editor",
             createPool: "Create Pool",
+            createView: "Create Saved View",
         },
         actions: {
             cancel: "Cancel",
@@ -292,6 +301,7 @@ const TRANSLATIONS: Record<Language, TranslationSet> = {
             noWorldPools: "No world pools.",
             noCharPools: "No character pools.",
             noAssetPools: "No asset pools.",
+            noSavedViews: "No saved views.",
         },
         home: {
             hero: {
@@ -358,7 +368,7 @@ const TRANSLATIONS: Record<Language, TranslationSet> = {
                 },
                 warnings: {
                     stage1: "Are you absolutely sure?",
-                    stage1Desc: "This action cannot be undone. All pools, entities, and rules will be lost.",
+                    stage1Desc: "This action cannot be undone. All pools, entities, rules and snapshots will be lost; export the rulebook first to keep a copy.",
                     stage2: "Final Warning",
                     stage2Desc: "Confirming this will permanently destroy",
                 }
@@ -497,6 +507,9 @@ const TRANSLATIONS: Record<Language, TranslationSet> = {
             tagManager: "标签管理",
             aiForge: "AI 锻造",
             rules: "逻辑规则",
+            rollTables: "掷骰表",
+            savedViews: "已存视图",
+            snapshots: "快照",
             rollerTest: "掷骰测试",
             export: "导出",
             manualSave: "保存",
@@ -504,6 +517,7 @@ const TRANSLATIONS: Record<Language, TranslationSet> = {
         headers: {
             worldEditor: "世界编辑器",
             createPool: "创建数据池",
+            createView: "创建视图",
         },
         actions: {
             cancel: "取消",
@@ -516,6 +530,7 @@ const TRANSLATIONS: Record<Language, TranslationSet> = {
             noWorldPools: "暂无世界数据池",
             noCharPools: "暂无角色数据池",
             noAssetPools: "暂无资源数据池",
+            noSavedViews: "暂无已存视图",
         },
         home: {
             hero: {
@@ -582,7 +597,7 @@ const TRANSLATIONS: Record<Language, TranslationSet> = {
                 },
                 warnings: {
                     stage1: "你绝对确定吗？",
-                    stage1Desc: "此操作无法撤销。所有数据池、实体和规则都将丢失。",
+                    stage1Desc: "此操作无法撤销。所有数据池、实体、规则和快照都将丢失；如需保留副本，请先导出规则书。",
                     stage2: "最终警告",
                     stage2Desc: "确认此操作将永久销毁",
                 }
@@ -713,6 +728,8 @@ export const useTranslation = () => {
 const UI_STRINGS: Record<string, Record<Language, string>> = {
     // --- Common / Generic ---
     'common.delete': { English: 'Delete', Chinese: '删除' },
+    'common.save': { English: 'Save', Chinese: '保存' },
+    'common.cancel': { English: 'Cancel', Chinese: '取消' },
     'common.noWorldSelected': { English: 'No World Selected', Chinese: '未选择世界' },
     'common.loadFailure.title': { English: 'Load Failure', Chinese: '加载失败' },
     'common.abort': { English: 'Abort', Chinese: '中止' },
@@ -732,6 +749,116 @@ const UI_STRINGS: Record<string, Record<Language, string>> = {
     'home.toast.importSuccessful.message': { English: 'Restored "{name}" from archive.', Chinese: '已从归档恢复“{name}”。' },
     'home.toast.importFailed.title': { English: 'Import Failed', Chinese: '导入失败' },
     'home.toast.importFailed.message': { English: 'Corrupted or invalid Rulebook file.', Chinese: '规则书文件损坏或格式无效。' },
+    'home.toast.worldUpgraded.title': { English: 'World Data Upgraded', Chinese: '世界数据已升级' },
+
+    // Spreadsheet import / export
+    'csv.import': { English: 'Import CSV / TSV', Chinese: '导入 CSV / TSV' },
+    'csv.exportCsv': { English: 'Export pool as CSV', Chinese: '将数据池导出为 CSV' },
+    'csv.exportTsv': { English: 'Export pool as TSV', Chinese: '将数据池导出为 TSV' },
+    'csv.importTitle': { English: 'Import Spreadsheet into {pool}', Chinese: '导入表格到 {pool}' },
+    'csv.chooseFile': { English: 'Choose File', Chinese: '选择文件' },
+    'csv.fileHint': { English: 'CSV or TSV with a header row. Rows with a matching ID update that entity; others are created.', Chinese: '带表头行的 CSV 或 TSV。ID 匹配的行会更新对应实体，其余行将新建。' },
+    'csv.fileSummary': { English: '{name}: {rows} rows ({format})', Chinese: '{name}：{rows} 行（{format}）' },
+    'csv.mapping': { English: 'Column Mapping', Chinese: '列映射' },
+    'csv.column': { English: 'Column', Chinese: '列' },
+    'csv.sample': { English: 'Sample', Chinese: '示例' },
+    'csv.field': { English: 'Imports Into', Chinese: '导入到' },
+    'csv.unnamed': { English: '(no header)', Chinese: '（无表头）' },
+    'csv.ignore': { English: '— Ignore —', Chinese: '— 忽略 —' },
+    'csv.needsName': { English: 'Map a column to Name (or ID, to update existing entities).', Chinese: '请将某一列映射到名称（或 ID，以更新现有实体）。' },
+    'csv.planSummary': { English: '{created} new, {updated} updated, {failed} rows with errors (skipped), {tags} new tags.', Chinese: '新建 {created}，更新 {updated}，{failed} 行有错误（将跳过），新标签 {tags} 个。' },
+    'csv.rowN': { English: 'Row {row}', Chinese: '第 {row} 行' },
+    'csv.importRows': { English: 'Import {count} Rows', Chinese: '导入 {count} 行' },
+    'csv.toast.imported': { English: 'Spreadsheet Imported', Chinese: '表格已导入' },
+    'csv.toast.importedCount': { English: '{created} created, {updated} updated, {failed} rows skipped.', Chinese: '新建 {created}，更新 {updated}，跳过 {failed} 行。' },
+    'csv.toast.failed': { English: 'Spreadsheet Import Failed', Chinese: '表格导入失败' },
+    'csv.toast.loadFailed': { English: 'Could Not Load Existing Entities', Chinese: '无法加载现有实体' },
+
+    // Markdown vault export
+    'markdown.export': { English: 'Export Markdown vault (.zip)', Chinese: '导出 Markdown 资料库 (.zip)' },
+    'markdown.toast.complete': { English: 'Markdown vault downloaded.', Chinese: 'Markdown 资料库已下载。' },
+
+    // Printable rulebook
+    'print.title': { English: 'Print Rulebook', Chinese: '打印规则书' },
+    'print.hint': { English: 'Choose which chapters to include and their order. The book opens in a new tab, ready for Print / Save as PDF.', Chinese: '选择要包含的章节及其顺序。规则书将在新标签页中打开，可直接打印或另存为 PDF。' },
+    'print.chapters': { English: 'Chapters', Chinese: '章节' },
+    'print.chapter.lore': { English: 'Introduction (lore & context)', Chinese: '导言（背景与上下文）' },
+    'print.chapter.tags': { English: 'Tag glossary', Chinese: '标签词汇表' },
+    'print.chapter.rules': { English: 'Rules', Chinese: '规则' },
+    'print.moveUp': { English: 'Move up', Chinese: '上移' },
+    'print.moveDown': { English: 'Move down', Chinese: '下移' },
+    'print.pageSize': { English: 'Page size', Chinese: '纸张大小' },
+    'print.open': { English: 'Open Print View', Chinese: '打开打印视图' },
+    'print.download': { English: 'Download HTML', Chinese: '下载 HTML' },
+    'print.toast.blocked': { English: 'Pop-up Blocked', Chinese: '弹出窗口被拦截' },
+    'print.toast.blockedHint': { English: 'Allow pop-ups for this site, or download the HTML instead.', Chinese: '请允许此网站的弹出窗口，或改为下载 HTML。' },
+    'print.book.contents': { English: 'Contents', Chinese: '目录' },
+    'print.book.printButton': { English: 'Print / Save as PDF', Chinese: '打印 / 另存为 PDF' },
+    'print.book.lore': { English: 'Introduction', Chinese: '导言' },
+    'print.book.tags': { English: 'Glossary', Chinese: '词汇表' },
+    'print.book.rules': { English: 'Rules', Chinese: '规则' },
+    'print.book.noLore': { English: 'No lore context.', Chinese: '暂无背景设定。' },
+    'print.book.noEntries': { English: 'No entries.', Chinese: '暂无条目。' },
+    'print.book.noTags': { English: 'No tags defined.', Chinese: '尚未定义标签。' },
+    'print.book.noDescription': { English: 'No description.', Chinese: '暂无描述。' },
+    'print.book.noRules': { English: 'No rules defined.', Chinese: '尚未定义规则。' },
+    'print.book.untitledRule': { English: 'Untitled rule', Chinese: '未命名规则' },
+    'print.book.yes': { English: 'Yes', Chinese: '是' },
+    'print.book.no': { English: 'No', Chinese: '否' },
+    'print.book.opposes': { English: 'Opposes: {tags}', Chinese: '对立：{tags}' },
+    'print.book.references': { English: 'References: {items}', Chinese: '引用：{items}' },
+    'print.book.whenContext': { English: 'When the context has {tags}', Chinese: '当上下文包含 {tags} 时' },
+    'print.book.appliesTo': { English: 'Applies to {pools}', Chinese: '适用于 {pools}' },
+    'print.book.everything': { English: 'everything', Chinese: '所有条目' },
+    'print.book.bans': { English: 'Bans {target}', Chinese: '禁止 {target}' },
+    'print.book.boosts': { English: 'Boosts {target} ×{value}', Chinese: '提升 {target} ×{value}' },
+    'print.book.forces': { English: 'Forces {target} to {value}', Chinese: '将 {target} 强制为 {value}' },
+
+    // Export profiles
+    'exportProfiles.title': { English: 'Export Profiles', Chinese: '导出配置' },
+    'exportProfiles.duplicate': { English: 'Duplicate', Chinese: '复制' },
+    'exportProfiles.copyName': { English: '{name} (Copy)', Chinese: '{name}（副本）' },
+    'exportProfiles.confirmDelete': { English: 'Click again to delete', Chinese: '再次点击以删除' },
+    'exportProfiles.definition': { English: 'Profile (JSON)', Chinese: '配置（JSON）' },
+    'exportProfiles.builtInDefinition': { English: 'Built-in profile (read-only, duplicate to edit)', Chinese: '内置配置（只读，复制后可编辑）' },
+    'exportProfiles.sources': { English: 'Sources: {sources}', Chinese: '数据来源：{sources}' },
+    'exportProfiles.conversions': { English: 'Conversions: {conversions}', Chinese: '类型转换：{conversions}' },
+    'exportProfiles.preview': { English: 'Preview', Chinese: '预览' },
+    'exportProfiles.unmapped': { English: '{count} entities not covered by any mapping', Chinese: '{count} 个实体未被任何映射覆盖' },
+    'exportProfiles.download': { English: 'Download JSON', Chinese: '下载 JSON' },
+    'exportProfiles.toast.saved': { English: 'Profile Saved', Chinese: '配置已保存' },
+    'exportProfiles.toast.exported': { English: '{count} records exported.', Chinese: '已导出 {count} 条记录。' },
+
+    // Import wizard
+    'importWizard.title': { English: 'Import Rulebook', Chinese: '导入规则书' },
+    'importWizard.report': { English: 'Package Contents', Chinese: '数据包内容' },
+    'importWizard.count.entities': { English: 'Entities', Chinese: '实体' },
+    'importWizard.count.pools': { English: 'Pools', Chinese: '数据池' },
+    'importWizard.count.components': { English: 'Components', Chinese: '组件' },
+    'importWizard.count.tags': { English: 'Tags', Chinese: '标签' },
+    'importWizard.issues': { English: 'Validation: {errors} errors, {warnings} warnings', Chinese: '校验：{errors} 个错误，{warnings} 个警告' },
+    'importWizard.blocked': { English: 'Fix the errors in the file before importing.', Chinese: '请先修复文件中的错误再导入。' },
+    'importWizard.destination': { English: 'Destination', Chinese: '导入目标' },
+    'importWizard.newWorld': { English: 'New world', Chinese: '新建世界' },
+    'importWizard.mergeInto': { English: 'Merge into "{name}"', Chinese: '合并到“{name}”' },
+    'importWizard.loadingTarget': { English: 'Checking for conflicts...', Chinese: '正在检查冲突...' },
+    'importWizard.noConflicts': { English: 'No conflicts: everything in the package will be added.', Chinese: '无冲突：数据包中的所有内容都将被添加。' },
+    'importWizard.conflicts.pool': { English: 'Pools with the same name ({count})', Chinese: '同名数据池（{count}）' },
+    'importWizard.conflicts.component': { English: 'Different component definitions ({count})', Chinese: '不同的组件定义（{count}）' },
+    'importWizard.conflicts.tag': { English: 'Different tag definitions ({count})', Chinese: '不同的标签定义（{count}）' },
+    'importWizard.conflicts.entity': { English: 'Entities with the same name ({count})', Chinese: '同名实体（{count}）' },
+    'importWizard.hint.pool': { English: 'Skip leaves the pool and its entities out. Overwrite keeps the pool settings, adds blueprint components it lacks and merges entities into it. Rename imports a separate pool.', Chinese: '跳过：不导入该数据池及其实体。覆盖：保留数据池设置，补充缺少的蓝图组件并合并实体。重命名：作为单独的数据池导入。' },
+    'importWizard.hint.component': { English: 'Skip keeps the current definition. Rename imports the package\'s definition under a new ID.', Chinese: '跳过：保留当前定义。重命名：以新 ID 导入数据包中的定义。' },
+    'importWizard.hint.tag': { English: 'Skip keeps the current definition. Rename imports the package\'s tag under a new ID and retags its entities.', Chinese: '跳过：保留当前定义。重命名：以新 ID 导入数据包中的标签，并为其实体重新打标签。' },
+    'importWizard.hint.entity': { English: 'Overwrite replaces the existing entity (its history keeps the old version). Rename adds a copy with a numbered name.', Chinese: '覆盖：替换现有实体（历史记录中保留旧版本）。重命名：以带编号的名称添加副本。' },
+    'importWizard.applyAll': { English: 'All:', Chinese: '全部：' },
+    'importWizard.resolution.skip': { English: 'Skip', Chinese: '跳过' },
+    'importWizard.resolution.overwrite': { English: 'Overwrite', Chinese: '覆盖' },
+    'importWizard.resolution.rename': { English: 'Rename', Chinese: '重命名' },
+    'importWizard.importNew': { English: 'Import as New World', Chinese: '作为新世界导入' },
+    'importWizard.merge': { English: 'Merge', Chinese: '合并' },
+    'importWizard.toast.merged': { English: 'Import Merged', Chinese: '导入已合并' },
+    'importWizard.toast.mergedSummary': { English: '{entitiesAdded} entities added, {entitiesOverwritten} overwritten, {entitiesSkipped} skipped.', Chinese: '新增 {entitiesAdded} 个实体，覆盖 {entitiesOverwritten} 个，跳过 {entitiesSkipped} 个。' },
     'home.toast.styleExported.title': { English: 'Style Exported', Chinese: '风格已导出' },
     'home.toast.styleExported.message': { English: 'Global narrative settings saved.', Chinese: '全局叙事设置已保存。' },
     'home.toast.styleImported.title': { English: 'Style Imported', Chinese: '风格已导入' },
@@ -812,6 +939,10 @@ const UI_STRINGS: Record<string, Record<Language, string>> = {
     'pools.relationship.selectOrTypeNew': { English: 'Select or Type New...', Chinese: '选择或输入新类型…' },
     'pools.boolean.false': { English: 'False', Chinese: '否' },
     'pools.boolean.true': { English: 'True', Chinese: '是' },
+    'pools.rollWeight.title': { English: 'Roll Weight', Chinese: '掷骰权重' },
+    'pools.rollWeight.hint': { English: 'Multiplier on top of the rarity weight. 2 = twice as likely, 0 = never rolled. Leave empty for no override.', Chinese: '在稀有度权重之上的倍率。2 = 概率翻倍，0 = 永不抽中。留空表示不覆盖。' },
+    'pools.rollWeight.invalid': { English: 'Enter a number of 0 or more', Chinese: '请输入大于等于 0 的数字' },
+    'pools.dice.invalid': { English: 'Not valid dice notation (e.g. 2d6+1, 4d6kh3)', Chinese: '骰子表达式无效（例如 2d6+1、4d6kh3）' },
     'pools.select.placeholder': { English: '-- Select --', Chinese: '-- 请选择 --' },
     'pools.characterName': { English: 'Character Name', Chinese: '角色名称' },
     'pools.customColor': { English: 'Custom Color', Chinese: '自定义颜色' },
@@ -942,6 +1073,8 @@ const UI_STRINGS: Record<string, Record<Language, string>> = {
     'roller.label.targetPool': { English: 'Target Pool', Chinese: '目标数据池' },
     'roller.label.contextTags': { English: 'Context Tags', Chinese: '上下文标签' },
     'roller.placeholder.contextTags': { English: 'e.g. night, forest', Chinese: '例如：night, forest' },
+    'roller.label.query': { English: 'Query', Chinese: '查询' },
+    'roller.placeholder.query': { English: 'e.g. tag:noble rarity>=Rare "iron crown"', Chinese: '例如：tag:noble rarity>=Rare "iron crown"' },
     'roller.panel.runtimeConstraints': { English: 'Runtime Constraints', Chinese: '运行时约束' },
     'roller.placeholder.path': { English: 'Path (e.g. components.basic_stats.power)', Chinese: '路径（例如：components.basic_stats.power）' },
     'roller.placeholder.value': { English: 'Value', Chinese: '值' },
@@ -959,6 +1092,81 @@ const UI_STRINGS: Record<string, Record<Language, string>> = {
     'roller.operator.contains': { English: 'Contains', Chinese: '包含' },
     'roller.operator.missing': { English: 'Missing', Chinese: '缺失' },
     'roller.operator.truthy': { English: 'Exists', Chinese: '存在' },
+    'roller.operator.in': { English: 'In List', Chinese: '属于列表' },
+    'roller.operator.between': { English: 'Between', Chinese: '介于' },
+    'roller.operator.regex': { English: 'Matches Regex', Chinese: '匹配正则' },
+    'roller.operator.hasTag': { English: 'Has Tag', Chinese: '带有标签' },
+    'roller.group.and': { English: 'All of (AND)', Chinese: '全部满足 (AND)' },
+    'roller.group.or': { English: 'Any of (OR)', Chinese: '任一满足 (OR)' },
+    'roller.group.not': { English: 'None of (NOT)', Chinese: '不满足 (NOT)' },
+    'roller.builder.condition': { English: 'Condition', Chinese: '条件' },
+    'roller.builder.group': { English: 'Group', Chinese: '分组' },
+    'roller.builder.addCondition': { English: 'Add a condition to this group', Chinese: '向该分组添加条件' },
+    'roller.builder.addGroup': { English: 'Add a nested group', Chinese: '添加嵌套分组' },
+    'roller.builder.removeGroup': { English: 'Remove group', Chinese: '移除分组' },
+    'roller.builder.customPath': { English: 'Custom path…', Chinese: '自定义路径…' },
+    'roller.builder.unknownPath': { English: "Not a field of this pool's components. Check the path.", Chinese: '该路径不属于此数据池的组件字段，请检查。' },
+    'roller.value.true': { English: 'True', Chinese: '是' },
+    'roller.value.false': { English: 'False', Chinese: '否' },
+    'roller.view.results': { English: 'Results', Chinese: '结果' },
+    'roller.view.odds': { English: 'Odds', Chinese: '概率' },
+    'roller.view.history': { English: 'History', Chinese: '历史' },
+    'roller.affinity.label': { English: 'Favor matching tags', Chinese: '偏好匹配标签' },
+    'roller.affinity.tooltip': { English: 'Candidates sharing tags with the context get a weight bonus; tags marked as opposites get a penalty. Nothing is filtered out.', Chinese: '与上下文共享标签的候选项获得权重加成；标记为对立的标签受到惩罚。不会筛除任何候选项。' },
+    'roller.affinity.bonus': { English: 'Bonus x', Chinese: '加成 x' },
+    'roller.affinity.penalty': { English: 'Opposite x', Chinese: '对立 x' },
+    'roller.deck.mode': { English: 'Deck Mode', Chinese: '牌组模式' },
+    'roller.deck.tooltip': { English: 'Drawn entities leave the deck until it is reshuffled. Saved across sessions.', Chinese: '抽出的实体会离开牌组，直到重新洗牌。跨会话保存。' },
+    'roller.deck.left': { English: '{left} / {total} left', Chinese: '剩余 {left} / {total}' },
+    'roller.deck.peek': { English: 'Peek remaining', Chinese: '查看剩余' },
+    'roller.deck.reshuffle': { English: 'Reshuffle', Chinese: '重新洗牌' },
+    'roller.deck.peekTitle': { English: 'Deck: {pool}', Chinese: '牌组：{pool}' },
+    'roller.deck.remaining': { English: 'In Deck ({count})', Chinese: '牌组中（{count}）' },
+    'roller.deck.drawn': { English: 'Drawn ({count})', Chinese: '已抽出（{count}）' },
+    'roller.deck.emptyDeck': { English: 'The deck is empty.', Chinese: '牌组已空。' },
+    'roller.deck.noneDrawn': { English: 'Nothing drawn yet.', Chinese: '尚未抽出任何牌。' },
+    'roller.deck.returnCard': { English: 'Return to deck', Chinese: '放回牌组' },
+    'roller.deck.toast.reshuffled': { English: 'Deck Reshuffled', Chinese: '已重新洗牌' },
+    'roller.deck.toast.reshuffledMessage': { English: 'All {count} cards are back in the deck.', Chinese: '全部 {count} 张牌已放回牌组。' },
+    'roller.deck.toast.saveFailed': { English: 'Deck state not saved', Chinese: '牌组状态未保存' },
+    'roller.history.allPools': { English: 'All Pools', Chinese: '全部数据池' },
+    'roller.history.count': { English: '{count} rolls', Chinese: '{count} 次掷骰' },
+    'roller.history.clear': { English: 'Clear', Chinese: '清空' },
+    'roller.history.empty': { English: 'No rolls recorded yet.', Chinese: '暂无掷骰记录。' },
+    'roller.history.noResult': { English: 'No result', Chinese: '无结果' },
+    'roller.history.reopen': { English: 'Reopen result', Chinese: '重新打开结果' },
+    'roller.history.toast.loadFailed': { English: 'Could not load roll history', Chinese: '无法加载掷骰历史' },
+    'roller.history.toast.saveFailed': { English: 'Roll not saved to history', Chinese: '掷骰未保存到历史' },
+    'roller.history.toast.cleared': { English: 'History Cleared', Chinese: '历史已清空' },
+    'roller.history.toast.clearedCount': { English: '{count} rolls removed.', Chinese: '已移除 {count} 次掷骰。' },
+    'roller.history.toast.missing.title': { English: 'Some Results Missing', Chinese: '部分结果缺失' },
+    'roller.history.toast.missing.message': { English: '{count} winning entities no longer exist.', Chinese: '{count} 个中选实体已不存在。' },
+    'roller.odds.empty': { English: 'No candidate can be drawn ({filtered} filtered out).', Chinese: '没有可抽取的候选项（已筛除 {filtered} 个）。' },
+    'roller.odds.items': { English: '{count} items', Chinese: '{count} 项' },
+    'roller.odds.summary': { English: '{valid} drawable · {filtered} filtered out', Chinese: '{valid} 项可抽取 · 已筛除 {filtered} 项' },
+    'roller.odds.iterations': { English: '{count} rolls', Chinese: '{count} 次掷骰' },
+    'roller.odds.simulate': { English: 'Simulate', Chinese: '模拟' },
+    'roller.odds.simulated': { English: '{count} rolls · max deviation {deviation} pts', Chinese: '{count} 次掷骰 · 最大偏差 {deviation} 个百分点' },
+    'roller.odds.col.entity': { English: 'Entity', Chinese: '实体' },
+    'roller.odds.col.rarity': { English: 'Rarity', Chinese: '稀有度' },
+    'roller.odds.col.weight': { English: 'Weight', Chinese: '权重' },
+    'roller.odds.col.chance': { English: 'Chance', Chinese: '概率' },
+    'roller.odds.col.simulated': { English: 'Simulated', Chinese: '模拟结果' },
+    'roller.placeholder.list': { English: 'Values (e.g. Rare, Epic)', Chinese: '值（例如：Rare, Epic）' },
+    'roller.placeholder.range': { English: 'min, max', Chinese: '最小值, 最大值' },
+    'roller.placeholder.regex': { English: 'Pattern (e.g. ^Iron)', Chinese: '模式（例如：^Iron）' },
+    'roller.placeholder.tag': { English: 'Tag (e.g. cursed)', Chinese: '标签（例如：cursed）' },
+    'roller.label.seed': { English: 'Seed (Optional)', Chinese: '种子（可选）' },
+    'roller.placeholder.seed': { English: 'Leave empty for a random seed', Chinese: '留空则随机生成' },
+    'roller.rollId': { English: 'Roll ID: {seed}', Chinese: '掷骰 ID：{seed}' },
+    'roller.tooltip.copySeed': { English: 'Copy seed', Chinese: '复制种子' },
+    'roller.tooltip.reuseSeed': { English: 'Reuse this seed', Chinese: '复用此种子' },
+    'roller.toast.seedCopied.title': { English: 'Seed Copied', Chinese: '种子已复制' },
+    'roller.toast.seedCopyFailed.title': { English: 'Copy Failed', Chinese: '复制失败' },
+    'roller.label.drawCount': { English: 'Draws', Chinese: '抽取数' },
+    'roller.option.noDuplicates': { English: 'No Duplicates', Chinese: '不重复' },
+    'roller.option.withReplacement': { English: 'With Replacement', Chinese: '可重复' },
+    'roller.toast.multiRolled.title': { English: 'Rolled {count} Results', Chinese: '掷出 {count} 个结果' },
 
     // --- Tag Manager ---
     'tagManager.newTag': { English: 'New Tag', Chinese: '新建标签' },
@@ -972,6 +1180,9 @@ const UI_STRINGS: Record<string, Record<Language, string>> = {
     'tagManager.button.createTag': { English: 'Create Tag', Chinese: '创建标签' },
     'tagManager.field.label': { English: 'Label', Chinese: '名称' },
     'tagManager.field.description': { English: 'Description', Chinese: '描述' },
+    'tagManager.field.opposites': { English: 'Opposite Tags', Chinese: '对立标签' },
+    'tagManager.placeholder.opposites': { English: 'e.g. day, sunlight', Chinese: '例如：day, sunlight' },
+    'tagManager.opposes': { English: 'Opposes: {tags}', Chinese: '对立：{tags}' },
     'tagManager.button.cancel': { English: 'Cancel', Chinese: '取消' },
     'tagManager.button.save': { English: 'Save', Chinese: '保存' },
     'tagManager.toast.validationError.title': { English: 'Validation Error', Chinese: '校验错误' },
@@ -1043,6 +1254,113 @@ const UI_STRINGS: Record<string, Record<Language, string>> = {
     'componentManager.dropdownOptions': { English: 'Dropdown Options', Chinese: '下拉选项' },
 
     // --- Rules ---
+    'savedViews.field.name': { English: 'View Name', Chinese: '视图名称' },
+    'savedViews.field.description': { English: 'Description', Chinese: '描述' },
+    'savedViews.field.query': { English: 'Query', Chinese: '查询' },
+    'savedViews.placeholder.name': { English: 'e.g. Dwarven Legendaries', Chinese: '例如：矮人传说物品' },
+    'savedViews.placeholder.query': { English: 'e.g. tag:dwarven rarity=Legendary', Chinese: '例如：tag:dwarven rarity=Legendary' },
+    'savedViews.edit': { English: 'Edit View', Chinese: '编辑视图' },
+    'savedViews.delete': { English: 'Delete View', Chinese: '删除视图' },
+    'savedViews.notFound': { English: 'This saved view no longer exists.', Chinese: '该视图已不存在。' },
+    'savedViews.empty': { English: 'No entities match this view.', Chinese: '没有实体符合此视图。' },
+    'savedViews.openInPool': { English: 'Open in {pool}', Chinese: '在 {pool} 中打开' },
+    'savedViews.toast.saved': { English: 'View saved', Chinese: '视图已保存' },
+    'savedViews.toast.deleted': { English: 'View deleted', Chinese: '视图已删除' },
+    'savedViews.saveQuery': { English: 'Save as View', Chinese: '保存为视图' },
+    'savedViews.confirmDelete': { English: 'Delete the view "{name}"? The entities it lists are not affected.', Chinese: '删除视图“{name}”？其中列出的实体不受影响。' },
+
+    // Entity revision history
+    'history.button': { English: 'History', Chinese: '历史' },
+    'history.title': { English: 'Revision History: {name}', Chinese: '修订历史：{name}' },
+    'history.loading': { English: 'Loading revisions...', Chinese: '正在加载修订...' },
+    'history.empty': { English: 'No revisions yet. Every save records one.', Chinese: '暂无修订。每次保存都会记录一条。' },
+    'history.current': { English: 'Current', Chinese: '当前' },
+    'history.changes': { English: '{count} changes', Chinese: '{count} 处更改' },
+    'history.noChanges': { English: 'No field changes', Chinese: '没有字段更改' },
+    'history.restore': { English: 'Restore this version', Chinese: '恢复此版本' },
+    'history.restoreOriginal': { English: 'Restore state before this change', Chinese: '恢复到此更改之前' },
+    'history.undoBatch': { English: 'Undo for all {count} entities', Chinese: '撤销全部 {count} 个实体' },
+    'history.source.create': { English: 'Created', Chinese: '创建' },
+    'history.source.edit': { English: 'Edited', Chinese: '编辑' },
+    'history.source.restore': { English: 'Restored', Chinese: '恢复' },
+    'history.source.tag-migration': { English: 'Tag Rename', Chinese: '标签重命名' },
+    'history.source.blueprint': { English: 'Blueprint Update', Chinese: '蓝图更新' },
+    'history.source.import': { English: 'Import', Chinese: '导入' },
+    'history.toast.restored': { English: 'Revision Restored', Chinese: '已恢复修订' },
+    'history.toast.batchReverted': { English: 'Bulk Change Undone', Chinese: '已撤销批量更改' },
+    'history.toast.batchRevertedCount': { English: '{restored} reverted, {skipped} skipped (edited or deleted since).', Chinese: '已还原 {restored} 个，跳过 {skipped} 个（之后已编辑或删除）。' },
+    'history.toast.failed': { English: 'Restore Failed', Chinese: '恢复失败' },
+    'breadcrumb.savedView': { English: 'Saved View', Chinese: '已存视图' },
+    'breadcrumb.snapshots': { English: 'Snapshots', Chinese: '快照' },
+
+    // World snapshots
+    'snapshots.title': { English: 'Snapshots', Chinese: '快照' },
+    'snapshots.subtitle': { English: 'Restore points of the whole world, stored in this browser. Compare, roll back or fork into a new world.', Chinese: '整个世界的还原点，保存在此浏览器中。可对比、回滚或分叉为新世界。' },
+    'snapshots.listTitle': { English: 'Snapshots', Chinese: '快照' },
+    'snapshots.none': { English: 'No snapshots yet.', Chinese: '暂无快照。' },
+    'snapshots.placeholder.name': { English: 'Snapshot name, e.g. Before session 12', Chinese: '快照名称，例如：第12次团前' },
+    'snapshots.take': { English: 'Take Snapshot', Chinese: '创建快照' },
+    'snapshots.defaultName': { English: 'Snapshot {date}', Chinese: '快照 {date}' },
+    'snapshots.entities': { English: '{count} entities', Chinese: '{count} 个实体' },
+    'snapshots.reason.manual': { English: 'Manual', Chinese: '手动' },
+    'snapshots.reason.tag-migration': { English: 'Tag Rename', Chinese: '标签重命名' },
+    'snapshots.reason.blueprint': { English: 'Blueprint', Chinese: '蓝图' },
+    'snapshots.reason.ai-build': { English: 'AI Build', Chinese: 'AI 构建' },
+    'snapshots.reason.before-restore': { English: 'Before Restore', Chinese: '恢复前' },
+    'snapshots.reason.import': { English: 'Import', Chinese: '导入' },
+    'snapshots.selectHint': { English: 'Select a snapshot to compare it with the current world.', Chinese: '选择一个快照以与当前世界对比。' },
+    'snapshots.compare': { English: 'Compare with Current', Chinese: '与当前对比' },
+    'snapshots.restore': { English: 'Restore', Chinese: '恢复' },
+    'snapshots.fork': { English: 'Fork to New World', Chinese: '分叉为新世界' },
+    'snapshots.delete': { English: 'Delete Snapshot', Chinese: '删除快照' },
+    'snapshots.comparing': { English: 'Comparing...', Chinese: '正在对比...' },
+    'snapshots.diff.identical': { English: 'The current world matches this snapshot.', Chinese: '当前世界与此快照一致。' },
+    'snapshots.diff.summary': { English: 'Since this snapshot: {added} added, {removed} removed, {modified} modified entities; {meta} setting changes.', Chinese: '自此快照以来：新增 {added}、删除 {removed}、修改 {modified} 个实体；{meta} 处设置更改。' },
+    'snapshots.diff.meta': { English: 'World Settings', Chinese: '世界设置' },
+    'snapshots.diff.added': { English: 'Added Since', Chinese: '之后新增' },
+    'snapshots.diff.removed': { English: 'Removed Since', Chinese: '之后删除' },
+    'snapshots.diff.modified': { English: 'Modified Since', Chinese: '之后修改' },
+    'snapshots.diff.movedFrom': { English: 'moved from {pool}', Chinese: '从 {pool} 移入' },
+    'snapshots.diff.more': { English: '...and {count} more', Chinese: '……另有 {count} 项' },
+    'snapshots.section.world': { English: 'World', Chinese: '世界' },
+    'snapshots.section.pool': { English: 'Pool', Chinese: '数据池' },
+    'snapshots.section.tag': { English: 'Tag', Chinese: '标签' },
+    'snapshots.section.component': { English: 'Component', Chinese: '组件' },
+    'snapshots.section.rule': { English: 'Rule', Chinese: '规则' },
+    'snapshots.section.rollTable': { English: 'Roll Table', Chinese: '掷骰表' },
+    'snapshots.section.savedView': { English: 'Saved View', Chinese: '已存视图' },
+    'snapshots.section.exportProfile': { English: 'Export Profile', Chinese: '导出配置' },
+    'snapshots.modal.restoreTitle': { English: 'Restore Snapshot', Chinese: '恢复快照' },
+    'snapshots.modal.restoreQuestion': { English: 'Replace the current world with "{name}"? The current state is snapshotted first, so this can be undone.', Chinese: '用“{name}”替换当前世界？当前状态会先被保存为快照，因此可以撤销。' },
+    'snapshots.modal.forkTitle': { English: 'Fork Snapshot', Chinese: '分叉快照' },
+    'snapshots.modal.forkName': { English: 'New World Name', Chinese: '新世界名称' },
+    'snapshots.modal.deleteQuestion': { English: 'Delete the snapshot "{name}"? This cannot be undone.', Chinese: '删除快照“{name}”？此操作无法撤销。' },
+    'snapshots.toast.taken': { English: 'Snapshot Saved', Chinese: '快照已保存' },
+    'snapshots.toast.restored': { English: 'World Restored', Chinese: '世界已恢复' },
+    'snapshots.toast.forked': { English: 'World Forked', Chinese: '世界已分叉' },
+    'snapshots.toast.failed': { English: 'Snapshot Operation Failed', Chinese: '快照操作失败' },
+    'rollTables.title': { English: 'Roll Tables', Chinese: '掷骰表' },
+    'rollTables.subtitle': { English: 'Chain draws across pools. Later steps can filter on what earlier steps rolled.', Chinese: '跨数据池串联抽取。后续步骤可以根据先前步骤的结果进行筛选。' },
+    'rollTables.listTitle': { English: 'Tables', Chinese: '掷骰表' },
+    'rollTables.none': { English: 'No roll tables defined.', Chinese: '暂无掷骰表。' },
+    'rollTables.newTableName': { English: 'New Roll Table', Chinese: '新掷骰表' },
+    'rollTables.field.name': { English: 'Table Name', Chinese: '表名称' },
+    'rollTables.field.description': { English: 'Description', Chinese: '描述' },
+    'rollTables.stepN': { English: 'Step {n}', Chinese: '步骤 {n}' },
+    'rollTables.addStep': { English: 'Add Step', Chinese: '添加步骤' },
+    'rollTables.addConstraint': { English: 'Add Constraint', Chinese: '添加约束' },
+    'rollTables.placeholder.path': { English: 'Path (e.g. tags)', Chinese: '路径（例如：tags）' },
+    'rollTables.placeholder.refPath': { English: 'Path on earlier result', Chinese: '先前结果上的路径' },
+    'rollTables.tooltip.reference': { English: 'Compare against an earlier step', Chinese: '与先前步骤的结果比较' },
+    'rollTables.toast.validationError.title': { English: 'Validation Error', Chinese: '校验错误' },
+    'rollTables.toast.validationError.message': { English: 'Table name is required.', Chinese: '表名称为必填项。' },
+    'rollTables.toast.saved.title': { English: 'Roll Table Saved', Chinese: '掷骰表已保存' },
+    'rollTables.toast.saveFailed.title': { English: 'Error', Chinese: '错误' },
+    'rollTables.toast.saveFailed.message': { English: 'Failed to save roll table.', Chinese: '保存掷骰表失败。' },
+    'rollTables.toast.deleteFailed.message': { English: 'Failed to delete roll table.', Chinese: '删除掷骰表失败。' },
+    'rollTables.modal.deleteTitle': { English: 'Delete Roll Table', Chinese: '删除掷骰表' },
+    'rollTables.modal.deleteQuestion': { English: 'Permanently delete this roll table?', Chinese: '永久删除该掷骰表？' },
+    'rollTables.empty.selectHint': { English: 'Select a table to edit or create a new one.', Chinese: '选择一个掷骰表进行编辑，或创建新表。' },
     'rules.title': { English: 'Narrative Logic', Chinese: '叙事逻辑' },
     'rules.subtitle': { English: 'Define descriptive rules and link them to world entities for reference.', Chinese: '定义描述性规则，并将其关联到世界实体以便引用。' },
     'rules.listTitle': { English: 'Rules', Chinese: '规则' },
@@ -1064,6 +1382,23 @@ const UI_STRINGS: Record<string, Record<Language, string>> = {
     'rules.modal.deleteTitle': { English: 'Delete Rule', Chinese: '删除规则' },
     'rules.modal.deleteQuestion': { English: 'Permanently delete this narrative rule?', Chinese: '永久删除该叙事规则？' },
     'rules.empty.selectHint': { English: 'Select a rule to edit or create a new one.', Chinese: '选择一条规则进行编辑，或创建新规则。' },
+    'rules.badge.executable': { English: '{count} Executable Rules', Chinese: '{count} 条可执行规则' },
+    'rules.badge.effects': { English: '{count} Effects', Chinese: '{count} 个效果' },
+    'rules.effects.title': { English: 'Roll Effects', Chinese: '掷骰效果' },
+    'rules.effects.add': { English: 'Add Effect', Chinese: '添加效果' },
+    'rules.effects.none': { English: 'No effects. This rule is descriptive only.', Chinese: '暂无效果，此规则仅为描述性。' },
+    'rules.effects.whenTags': { English: 'When Context Tags Include', Chinese: '当上下文标签包含' },
+    'rules.effects.whenTagsPlaceholder': { English: 'e.g. winter, night (empty = always)', Chinese: '例如：winter, night（留空 = 始终）' },
+    'rules.effects.pool': { English: 'Target Pool', Chinese: '目标数据池' },
+    'rules.effects.anyPool': { English: 'Any Pool', Chinese: '任意数据池' },
+    'rules.effects.type.ban': { English: 'Ban', Chinese: '禁止' },
+    'rules.effects.type.boost': { English: 'Boost', Chinese: '加权' },
+    'rules.effects.type.forceRarity': { English: 'Force Rarity', Chinese: '强制稀有度' },
+    'rules.effects.target.tag': { English: 'Tag', Chinese: '标签' },
+    'rules.effects.target.item': { English: 'Item', Chinese: '条目' },
+    'rules.effects.target.all': { English: 'All', Chinese: '全部' },
+    'rules.effects.placeholder.tag': { English: 'Tag ID (e.g. desert)', Chinese: '标签 ID（例如：desert）' },
+    'rules.effects.placeholder.item': { English: 'Entity name or ID', Chinese: '实体名称或 ID' },
 
     // --- Shared Forge Components ---
     'shared.systemLogs': { English: 'System Logs', Chinese: '系统日志' },
@@ -1095,9 +1430,13 @@ const UI_STRINGS: Record<string, Record<Language, string>> = {
     'breadcrumb.loreForge': { English: 'Lore Forge', Chinese: '设定锻造' },
     'breadcrumb.characterForge': { English: 'Character Forge', Chinese: '角色锻造' },
     'breadcrumb.rules': { English: 'Rules', Chinese: '规则' },
+    'breadcrumb.rollTables': { English: 'Roll Tables', Chinese: '掷骰表' },
     'breadcrumb.rollerTest': { English: 'Roller Test', Chinese: '掷骰测试' },
 
     // --- NexusEntityPicker ---
+    'query.active': { English: 'Query', Chinese: '查询' },
+    'query.matches': { English: '{count} matches', Chinese: '{count} 个匹配' },
+    'query.help': { English: 'Filters: pool:Name  tag:id  has:component  rarity>=Rare  components.stats.power>10  name:text  path~regex  "exact phrase". Other words search name, tags and text.', Chinese: '筛选：pool:池名  tag:标签  has:组件  rarity>=Rare  components.stats.power>10  name:文本  路径~正则  "完整短语"。其余词语搜索名称、标签和文本。' },
     'entityPicker.title': { English: 'Select Entity / Tag', Chinese: '选择实体/标签' },
     'entityPicker.titleTag': { English: 'Select Tag', Chinese: '选择标签' },
     'entityPicker.titleEntity': { English: 'Select Entity', Chinese: '选择实体' },
@@ -1133,6 +1472,9 @@ const UI_STRINGS: Record<string, Record<Language, string>> = {
     'componentManager.number': { English: 'Number', Chinese: '数字' },
     'componentManager.boolean': { English: 'Boolean', Chinese: '布尔值' },
     'componentManager.date': { English: 'Date', Chinese: '日期' },
+    'componentManager.dice': { English: 'Dice Roll', Chinese: '骰子表达式' },
+    'componentManager.defaultDice': { English: 'Default Expression', Chinese: '默认表达式' },
+    'componentManager.diceHint': { English: 'Rolled when the entity is drawn. Supports NdM, keep-highest (4d6kh3) and modifiers (2d6+1).', Chinese: '实体被抽中时掷出。支持 NdM、取最高（4d6kh3）和修正值（2d6+1）。' },
     'componentManager.selectMenu': { English: 'Select Menu', Chinese: '下拉菜单' },
     'componentManager.addOption': { English: 'Add Option', Chinese: '添加选项' },
     'componentManager.newOption': { English: 'New Option', Chinese: '新选项' },
@@ -9,6 +9,7 @@ import {
 import { useToast } from '../contexts/ToastContext';
 import { WeightPieChart } from '../components/WeightPieChart'; 
 import { useStrings } from '../lib/translations';
+import { DiceUtils } from '../utils/diceUtils';
 
 interface RarityLevel {
     id: string;
@@ -202,7 +203,8 @@ export const ComponentManager: React.FC = () => {
         };
 
         try {
-            await worldManager.registerComponentDefinition(currentWorld.id, def);
+            const result = await worldManager.registerComponentDefinition(currentWorld.id, def);
+            if (!result.ok) throw result.error;
             toast({ title: s('componentManager.toast.schemaUpdated.title'), message: s('componentManager.toast.schemaUpdated.message', { label: def.label }), type: "success" });
             refreshWorld();
             handleSelectComponent(def); 
@@ -268,6 +270,7 @@ export const ComponentManager: React.FC = () => {
             if (val === 'number') n[idx].defaultValue = 0;
             if (val === 'text') n[idx].defaultValue = '';
             if (val === 'date') n[idx].defaultValue = '';
+            if (val === 'dice') n[idx].defaultValue = '1d6';
             n[idx].options = []; 
         }
         setEditFields(n);
@@ -491,6 +494,22 @@ export const ComponentManager: React.FC = () => {
                         onChange={e => updateField(i, 'defaultValue', e.target.value)} 
                     />
                 );
+            case 'dice': {
+                const expr = String(field.defaultValue ?? '').trim();
+                return (
+                    <div className="space-y-1">
+                        <NexusInput 
+                            label={s('componentManager.defaultDice')}
+                            value={String(field.defaultValue ?? '')} 
+                            onChange={e => updateField(i, 'defaultValue', e.target.value)} 
+                            className="font-mono"
+                            placeholder="2d6+1"
+                            error={expr && !DiceUtils.isValid(expr) ? s('pools.dice.invalid') : undefined}
+                        />
+                        <p className="text-[10px] text-slate-500">{s('componentManager.diceHint')}</p>
+                    </div>
+                );
+            }
             case 'text':
             default:
                 return <NexusInput label={s('componentManager.defaultText')} value={String(field.defaultValue)} onChange={e => updateField(i, 'defaultValue', e.target.value)} />;
@@ -523,6 +542,7 @@ export const ComponentManager: React.FC = () => {
                                         <option value="number">{s('componentManager.number')}</option>
                                         <option value="boolean">{s('componentManager.boolean')}</option>
                                         <option value="date">{s('componentManager.date')}</option>
+                                        <option value="dice">{s('componentManager.dice')}</option>
                                         <option value="select">{s('componentManager.selectMenu')}</option>
                                     </NexusSelect>
                                 </div>
@@ -5,13 +5,15 @@ import {
     PlusCircle, Edit2, Layers, BookOpen, Download, Upload, FileUp, 
     Sparkles, Settings, MessageSquare, Monitor, Check, 
     Trash2, Save, Plus, AlertTriangle, Languages, FlaskConical, ToggleLeft, ToggleRight, Lock,
-    Bot, Zap, Key, Eye, EyeOff, CheckCircle, XCircle
+    Bot, Zap, Key, Eye, EyeOff, CheckCircle, XCircle, FileText
 } from 'lucide-react';
 import { useWorldManager } from '../contexts/ServiceContext';
 import { useActiveWorld } from '../contexts/ActiveWorldContext';
 import { useToast } from '../contexts/ToastContext';
 import { NexusButton, NexusInput, NexusModal, NexusTextArea, NexusSelect, EmptyState } from '../components/ui';
 import { WorldForgeModal } from '../components/WorldForgeModal';
+import { ImportWizardModal } from '../components/ImportWizardModal';
+import { downloadFile } from '../lib/utils';
 import { useAppSettings } from '../contexts/SettingsContext';
 import { ToneDefinition } from '../types';
 import { useTranslation } from '../lib/translations'; // NEW IMPORT
@@ -109,6 +111,7 @@ const Home: React.FC = () => {
   }, [aiSettings]);
 
   const fileInputRef = useRef<HTMLInputElement>(null); // For World Import
+  const [importFile, setImportFile] = useState<{ name: string; content: string } | null>(null);
   const configFileInputRef = useRef<HTMLInputElement>(null); // For Config Import
 
   const loadWorlds = async () => {
@@ -176,25 +179,27 @@ const Home: React.FC = () => {
       }
   };
 
+  const handleExportMarkdown = async (worldId: string, name: string) => {
+      try {
+          const zip = await worldManager.exportWorldToMarkdownZip(worldId);
+          if (!zip) throw new Error("Export failed");
+          downloadFile(zip, `Nexus_${name.replace(/\s+/g, '_')}_${Date.now()}.zip`, 'application/zip');
+          toast({ title: s('home.toast.exportComplete.title'), message: s('markdown.toast.complete'), type: "success" });
+      } catch (e) {
+          toast({ title: s('home.toast.exportFailed.title'), message: s('home.toast.exportFailed.message'), type: "error" });
+      }
+  };
+
+  // The wizard validates the file and asks where it goes before anything is written
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
 
       const reader = new FileReader();
-      reader.onload = async (event) => {
+      reader.onload = (event) => {
           const content = event.target?.result as string;
           if (content) {
-              try {
-                  const imported = await worldManager.importWorldFromJson(content);
-                  if (imported) {
-                      loadWorlds(); 
-                      toast({ title: s('home.toast.importSuccessful.title'), message: s('home.toast.importSuccessful.message', { name: imported.name }), type: "success" });
-                  } else {
-                      throw new Error("Invalid Format");
-                  }
-              } catch (e) {
-                  toast({ title: s('home.toast.importFailed.title'), message: s('home.toast.importFailed.message'), type: "error" });
-              }
+              setImportFile({ name: file.name, content });
           }
       };
       reader.readAsText(file);
@@ -747,13 +752,22 @@ const Home: React.FC = () => {
                         <div className="p-6 flex-1 relative z-10">
                             <div className="flex justify-between items-start mb-2">
                                 <h3 className="text-2xl font-bold text-white group-hover:text-nexus-accent transition-colors truncate pr-8">{world.name}</h3>
-                                <button 
-                                    onClick={(e) => { e.stopPropagation(); handleExport(world.id, world.name); }}
-                                    className="text-slate-500 hover:text-white p-1.5 rounded hover:bg-slate-700 transition-colors"
-                                    title={t.sidebar.export}
-                                >
-                                    <Download size={16} />
-                                </button>
+                                <div className="flex shrink-0">
+                                    <button 
+                                        onClick={(e) => { e.stopPropagation(); handleExport(world.id, world.name); }}
+                                        className="text-slate-500 hover:text-white p-1.5 rounded hover:bg-slate-700 transition-colors"
+                                        title={t.sidebar.export}
+                                    >
+                                        <Download size={16} />
+                                    </button>
+                                    <button 
+                                        onClick={(e) => { e.stopPropagation(); handleExportMarkdown(world.id, world.name); }}
+                                        className="text-slate-500 hover:text-white p-1.5 rounded hover:bg-slate-700 transition-colors"
+                                        title={s('markdown.export')}
+                                    >
+                                        <FileText size={16} />
+                                    </button>
+                                </div>
                             </div>
                             <div className="inline-block bg-nexus-900 px-3 py-1 rounded-full text-xs font-bold text-purple-400 border border-purple-500/20 mb-4 font-mono">
                                 ID: {world.id.substring(0, 8)}...
@@ -880,6 +894,13 @@ const Home: React.FC = () => {
             onClose={() => setIsForgeOpen(false)}
             onSuccess={handleEnterWorld}
        />
+
+       <ImportWizardModal
+            content={importFile?.content ?? null}
+            fileName={importFile?.name}
+            onClose={() => setImportFile(null)}
+            onImported={() => loadWorlds()}
+       />
     </div>
   );
 };
@@ -1,20 +1,28 @@
 // nexus-generator/src/pages/Pools.tsx
 import React, { useState, useMemo, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { 
     Search, Layers, Settings, Plus, Trash2, Save, 
     CheckSquare, Square, Folder, CheckCircle2, AlertTriangle, Box,
-    Edit3, Palette, Network, Link2, X
+    Edit3, Palette, Network, Link2, X, History, FileSpreadsheet, Download
 } from 'lucide-react';
 import { useActiveWorld } from '../contexts/ActiveWorldContext';
 import { useWorldManager } from '../contexts/ServiceContext';
 import { useCurrentWorld } from '../hooks/useWorldData';
 import { usePoolData } from '../hooks/usePoolData';
 import { useToast } from '../contexts/ToastContext';
-import { UniversalEntity, ComponentDefinition, ComponentField } from '../types';
+import { UniversalEntity, ComponentDefinition, ComponentField, SavedView } from '../types';
+import { db } from '../services/db';
 import { NexusModal, NexusButton, NexusInput, NexusTextArea, NexusSelect, EmptyState } from '../components/ui';
 import { EntityUtils } from '../utils/entityUtils';
+import { DiceUtils } from '../utils/diceUtils';
+import { QueryUtils } from '../utils/queryUtils';
+import { QueryFeedback } from '../components/QueryFeedback';
 import { NexusEntityPicker } from '../components/NexusEntityPicker';
+import { EntityHistoryModal } from '../components/EntityHistoryModal';
+import { CsvImportModal } from '../components/CsvImportModal';
+import { CsvUtils, CsvDelimiter } from '../utils/csvUtils';
+import { downloadFile } from '../lib/utils';
 import { useTranslation } from '../lib/translations'; // NEW IMPORT
 import { useStrings } from '../lib/translations';
 import { POOL_COLORS } from '../constants/colors';
@@ -30,9 +38,19 @@ const Pools: React.FC = () => {
   
   const poolNameParam = params.poolName || '';
   const { world: currentWorld, reload: reloadMeta } = useCurrentWorld(activeWorldId);
-  const { entities, addEntity, updateEntity, removeEntity } = usePoolData(activeWorldId || undefined, poolNameParam, 24);
-
   const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  // Plain words filter the loaded page by name; filter syntax runs a query over the whole pool
+  const structuredQuery = useMemo(
+      () => QueryUtils.isStructured(debouncedSearch) ? QueryUtils.parse(debouncedSearch, currentWorld || undefined) : null,
+      [debouncedSearch, currentWorld]
+  );
+  const { entities, addEntity, updateEntity, removeEntity, pagination } = usePoolData(activeWorldId || undefined, poolNameParam, 24, structuredQuery);
+
+  useEffect(() => {
+      const timeoutId = setTimeout(() => setDebouncedSearch(search), 300);
+      return () => clearTimeout(timeoutId);
+  }, [search]);
   const [selectedEntityId, setSelectedEntityId] = useState<string | null>(null);
   
   const [isEntityModalOpen, setIsEntityModalOpen] = useState(false);
@@ -51,7 +69,10 @@ const Pools: React.FC = () => {
   
   const [editingEntity, setEditingEntity] = useState<UniversalEntity | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
   const [deleteCandidateId, setDeleteCandidateId] = useState<string | null>(null);
+  const [rollWeightDraft, setRollWeightDraft] = useState<string | null>(null);
 
   const [adderRelType, setAdderRelType] = useState('');
 
@@ -61,6 +82,9 @@ const Pools: React.FC = () => {
       setIsEntityModalOpen(false);
   }, [poolNameParam]);
 
+  // An unfinished roll weight entry belongs to the entity it was typed for
+  useEffect(() => { setRollWeightDraft(null); }, [editingEntity?.id]);
+
   const currentPool = useMemo(() => {
       if (!currentWorld) return null;
       return currentWorld.pools[poolNameParam] || null;
@@ -81,6 +105,33 @@ const Pools: React.FC = () => {
 
   const isCharacterMode = currentPool?.type === 'Character';
 
+  // Saved views link here with ?entity=<id> to open that entity's editor, even if it is not on the loaded page
+  const [searchParams, setSearchParams] = useSearchParams();
+  useEffect(() => {
+      const entityId = searchParams.get('entity');
+      if (!entityId || !currentPool) return;
+      setSearchParams({}, { replace: true });
+      db.getEntitiesByIds([entityId]).then(([entity]) => {
+          if (!entity) return;
+          setSelectedEntityId(entity.id);
+          setEditingEntity(JSON.parse(JSON.stringify(entity)));
+          if (currentPool.type !== 'Character') setIsEntityModalOpen(true);
+      });
+  }, [searchParams, currentPool]);
+
+  const handleSaveQueryAsView = async () => {
+      if (!activeWorldId || !debouncedSearch.trim()) return;
+      const view: SavedView = {
+          id: crypto.randomUUID(),
+          name: debouncedSearch.trim(),
+          query: `pool:${poolNameParam} ${debouncedSearch.trim()}`,
+          created: Date.now()
+      };
+      await worldManager.saveSavedView(activeWorldId, view);
+      triggerRefresh();
+      navigate(`/world/${activeWorldId}/view/${view.id}`);
+  };
+
   const openEditPoolModal = () => {
       if (!currentPool) return;
       setEditPoolName(currentPool.name);
@@ -95,7 +146,8 @@ const Pools: React.FC = () => {
       
       try {
           if (cleanName !== currentPool?.name) {
-              await worldManager.renamePool(activeWorldId, poolNameParam, cleanName);
+              const renamed = await worldManager.renamePool(activeWorldId, poolNameParam, cleanName);
+              if (!renamed.ok) throw renamed.error;
           }
           await worldManager.updatePoolDetails(activeWorldId, cleanName, {
               description: editPoolDesc,
@@ -116,10 +168,21 @@ const Pools: React.FC = () => {
       }
   };
 
+  // Whole pool, not just the current page or search results
+  const handleExportSheet = async (delimiter: CsvDelimiter) => {
+      if (!activeWorldId || !currentPool) return;
+      const all = await db.getEntitiesForPool(activeWorldId, currentPool.name);
+      const content = CsvUtils.exportPool(currentWorld, currentPool, all, delimiter);
+      const extension = delimiter === '\t' ? 'tsv' : 'csv';
+      // The BOM makes Excel read the file as UTF-8
+      downloadFile(`\uFEFF${content}`, `${currentPool.name}.${extension}`, delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv');
+  };
+
   const handleDeletePool = async () => {
       if (!activeWorldId) return;
       try {
-          await worldManager.deletePool(activeWorldId, poolNameParam);
+          const result = await worldManager.deletePool(activeWorldId, poolNameParam);
+          if (!result.ok) throw result.error;
           triggerRefresh();
           toast({ title: s('pools.toast.deleted.title'), message: s('pools.toast.poolRemoved.message'), type: "info" });
           navigate(`/world/${activeWorldId}/edit`);
@@ -148,7 +211,11 @@ const Pools: React.FC = () => {
           }
       }
 
-      await worldManager.updatePoolBlueprints(activeWorldId, currentPool.name, newDefaults);
+      const result = await worldManager.updatePoolBlueprints(activeWorldId, currentPool.name, newDefaults);
+      if (!result.ok) {
+          toast({ title: s('pools.toast.error.title'), message: result.error.message, type: "error" });
+          return;
+      }
       await reloadMeta();
       triggerRefresh();   
   };
@@ -223,6 +290,13 @@ const Pools: React.FC = () => {
       finally { setIsSaving(false); }
   };
 
+  // After a restore the editor shows the restored state; a bulk undo reloads it from the DB
+  const handleRevisionRestored = async (entity: UniversalEntity | null) => {
+      const restored = entity || (selectedEntityId ? (await db.getEntitiesByIds([selectedEntityId]))[0] : null);
+      if (restored) setEditingEntity(JSON.parse(JSON.stringify(restored)));
+      triggerRefresh();
+  };
+
   const handleCancel = () => {
       setIsEntityModalOpen(false);
       if (selectedEntityId) {
@@ -280,6 +354,39 @@ const Pools: React.FC = () => {
       });
   };
 
+  // Roll weight override lives in its own section: an empty value removes the component entirely
+  // The stored multiplier is a number; the typed text is kept while it is not one yet (e.g. "1.")
+  const renderRollWeightEditor = (entity: UniversalEntity, onChange: (updated: UniversalEntity) => void) => {
+      const multiplier = entity.components.roll_weight?.multiplier;
+      const draft = rollWeightDraft ?? (multiplier !== undefined ? String(multiplier) : '');
+      const parsed = Number(draft);
+      const isInvalid = draft.trim() !== '' && (!Number.isFinite(parsed) || parsed < 0);
+      const handleChange = (rawValue: string) => {
+          setRollWeightDraft(rawValue);
+          const components = { ...entity.components };
+          if (rawValue.trim() === '') {
+              delete components.roll_weight;
+          } else {
+              const value = Number(rawValue);
+              if (!Number.isFinite(value) || value < 0) return;
+              components.roll_weight = { ...components.roll_weight, multiplier: value };
+          }
+          onChange({ ...entity, components });
+      };
+
+      return (
+          <div className="bg-nexus-900/50 p-4 rounded-lg border border-slate-700/50 flex items-center gap-4">
+              <div className="flex-1">
+                  <div className="font-bold text-slate-300 uppercase text-xs tracking-wider mb-1">{s('pools.rollWeight.title')}</div>
+                  <p className="text-xs text-slate-500">{s('pools.rollWeight.hint')}</p>
+              </div>
+              <div className="w-28">
+                  <NexusInput value={draft} onChange={e => handleChange(e.target.value)} onBlur={() => { if (!isInvalid) setRollWeightDraft(null); }} error={isInvalid ? s('pools.rollWeight.invalid') : undefined} inputMode="decimal" placeholder="1" className="font-mono text-right" />
+              </div>
+          </div>
+      );
+  };
+
   const renderRelationshipEditor = (entity: UniversalEntity, onChange: (updated: UniversalEntity) => void) => {
       const activeRelations = entity.components.relations || {};
       const activeKeys = Object.keys(activeRelations);
@@ -383,7 +490,7 @@ const Pools: React.FC = () => {
   const getEditorComponents = (entity: UniversalEntity) => {
       if (!currentWorld) return [];
       return Object.keys(entity.components)
-          .filter(k => k !== 'metadata' && k !== 'relations')
+          .filter(k => k !== 'metadata' && k !== 'relations' && k !== 'roll_weight')
           .map(k => {
               const def = currentWorld.componentRegistry[k];
               return def || { id: k, label: k, fields: [], category: 'Unknown' };
@@ -432,6 +539,19 @@ const Pools: React.FC = () => {
               />
            );
       }
+      if (f.type === 'dice') {
+           // Stored as the raw expression; it is only rolled when the entity is drawn
+           const invalid = value !== undefined && value !== null && String(value).trim() !== '' && !DiceUtils.isValid(String(value));
+           return (
+              <NexusInput 
+                value={value ?? ''} 
+                onChange={e => handleTypedInput(defId, f.key, f.type, e.target.value)}
+                placeholder="2d6+1"
+                className="font-mono"
+                error={invalid ? s('pools.dice.invalid') : undefined}
+              />
+           );
+      }
       return (
           <NexusInput 
             value={value || ''} 
@@ -441,7 +561,7 @@ const Pools: React.FC = () => {
   };
 
   const filteredEntities = useMemo(() => {
-    if (!search.trim()) return entities;
+    if (!search.trim() || QueryUtils.isStructured(search)) return entities;
     const lowerSearch = search.toLowerCase();
     return entities.filter(e => e.name.toLowerCase().includes(lowerSearch));
   }, [entities, search]);
@@ -472,8 +592,12 @@ const Pools: React.FC = () => {
                         placeholder={t.common.search} 
                         leftIcon={<Search size={16} />}
                         className="w-64" 
+                        title={s('query.help')}
                     />
                 </div>
+                <NexusButton variant="ghost" onClick={() => setIsCsvImportOpen(true)} icon={<FileSpreadsheet size={16} />} title={s('csv.import')}/>
+                <NexusButton variant="ghost" onClick={() => handleExportSheet(',')} icon={<Download size={16} />} title={s('csv.exportCsv')}>CSV</NexusButton>
+                <NexusButton variant="ghost" onClick={() => handleExportSheet('\t')} icon={<Download size={16} />} title={s('csv.exportTsv')}>TSV</NexusButton>
                 <NexusButton variant="ghost" onClick={openEditPoolModal} icon={<Edit3 size={16} />} title={t.pools.actions.editSettings}/>
                 <NexusButton variant="ghost" onClick={() => setIsDeletePoolModalOpen(true)} className="text-slate-500 hover:text-red-400" icon={<Trash2 size={16} />} title={t.pools.actions.deletePool}/>
                 <div className="h-8 w-px bg-slate-700 mx-1"></div>
@@ -483,6 +607,17 @@ const Pools: React.FC = () => {
         </div>
 
         <div className="flex-1 min-h-0 flex flex-col gap-4">
+             {structuredQuery && (
+                 <QueryFeedback
+                     query={structuredQuery}
+                     total={pagination.totalItems}
+                     page={pagination.page}
+                     totalPages={pagination.totalPages}
+                     onPrev={pagination.prevPage}
+                     onNext={pagination.nextPage}
+                     onSave={handleSaveQueryAsView}
+                 />
+             )}
              {isCharacterMode ? (
                 <div className="flex-1 flex gap-6 min-h-0">
                     <div className="w-72 bg-nexus-800 border border-slate-700 rounded-xl overflow-hidden shrink-0 flex flex-col shadow-lg">
@@ -506,6 +641,7 @@ const Pools: React.FC = () => {
                                         className="text-3xl font-bold"
                                      />
                                      <div className="flex gap-2">
+                                         <NexusButton variant="ghost" onClick={() => setIsHistoryOpen(true)} icon={<History size={16} />}>{s('history.button')}</NexusButton>
                                          <NexusButton variant="destructive" onClick={() => setDeleteCandidateId(editingEntity.id)} icon={<Trash2 size={16} />}>{t.common.delete}</NexusButton>
                                          <NexusButton onClick={() => handleSaveEntity(editingEntity)} icon={<Save size={16} />}>{t.common.save}</NexusButton>
                                      </div>
@@ -527,6 +663,7 @@ const Pools: React.FC = () => {
                                          </div>
                                      ))}
                                  </div>
+                                 {renderRollWeightEditor(editingEntity, setEditingEntity)}
                                  <div className="space-y-2">
                                      <NexusEntityPicker label={t.pools.modals.editEntity.tags} value={editingEntity.tags} onChange={t => setEditingEntity({...editingEntity, tags: t})} lockedMode="tags" placeholder={s('pools.addTags')} className="min-h-[42px]" />
                                  </div>
@@ -799,6 +936,7 @@ const Pools: React.FC = () => {
                             </div>
                         ))}
                     </div>
+                    {renderRollWeightEditor(editingEntity, setEditingEntity)}
                     <div className="space-y-2">
                         <NexusEntityPicker 
                             label={t.pools.modals.editEntity.tags}
@@ -815,12 +953,36 @@ const Pools: React.FC = () => {
             )}
              {editingEntity && (
                  <div className="flex justify-end gap-2 pt-4 border-t border-slate-700 mt-6">
+                     {selectedEntityId === editingEntity.id && (
+                         <NexusButton variant="ghost" onClick={() => setIsHistoryOpen(true)} icon={<History size={16}/>} className="mr-auto">{s('history.button')}</NexusButton>
+                     )}
                      <NexusButton variant="ghost" onClick={handleCancel}>{t.common.cancel}</NexusButton>
                      <NexusButton onClick={() => handleSaveEntity(editingEntity)} icon={<Save size={16}/>}>{t.common.save}</NexusButton>
                  </div>
              )}
         </NexusModal>
 
+        {/* MODAL: SPREADSHEET IMPORT */}
+        <CsvImportModal
+            isOpen={isCsvImportOpen}
+            onClose={() => setIsCsvImportOpen(false)}
+            world={currentWorld}
+            poolName={currentPool.name}
+            onImported={() => { reloadMeta(); triggerRefresh(); }}
+        />
+
+        {/* MODAL: REVISION HISTORY */}
+        {editingEntity && selectedEntityId === editingEntity.id && (
+            <EntityHistoryModal
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+                entityId={editingEntity.id}
+                entityName={editingEntity.name}
+                tags={currentWorld.tags}
+                onRestored={handleRevisionRestored}
+            />
+        )}
+
         {/* MODAL: DELETE ENTITY */}
         <NexusModal isOpen={!!deleteCandidateId} onClose={() => setDeleteCandidateId(null)} title={<span className="text-red-400 flex items-center gap-2"><AlertTriangle size={20}/> {t.pools.modals.deleteEntity.title}</span>}>
             <div className="space-y-4">
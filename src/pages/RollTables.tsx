@@ -0,0 +1,299 @@
+import React, { useState } from 'react';
+import { useWorld } from '../hooks/useWorld';
+import { RollTable, RollTableStep, RollConstraint, ConstraintOperator, UniversalEntity } from '../types';
+import { ListOrdered, Plus, Trash2, Save, Play, AlertTriangle, Link2, Activity, ArrowDown } from 'lucide-react';
+import { NexusButton, NexusInput, NexusModal, NexusSelect } from '../components/ui';
+import { useToast } from '../contexts/ToastContext';
+import { EntityUtils } from '../utils/entityUtils';
+import { db } from '../services/db';
+import { RollerEngine, RollCandidate, RolledQuantity } from '../services/rollerEngine';
+import { CONSTRAINT_OPERATORS } from '../components/ConstraintBuilder';
+import { useStrings } from '../lib/translations';
+
+const createStep = (pool: string): RollTableStep => ({
+    id: crypto.randomUUID(),
+    pool,
+    count: 1,
+    withReplacement: false,
+    constraints: []
+});
+
+// Editor for a single step's constraints. References can only point at earlier steps.
+const StepConstraintRow: React.FC<{
+    constraint: RollConstraint;
+    stepIndex: number;
+    onChange: (c: RollConstraint) => void;
+    onRemove: () => void;
+}> = ({ constraint, stepIndex, onChange, onRemove }) => {
+    const { s } = useStrings();
+    const isReference = !!constraint.valueFrom;
+
+    const toggleReference = () => {
+        if (isReference) onChange({ ...constraint, valueFrom: undefined, value: '' });
+        else onChange({ ...constraint, valueFrom: { step: stepIndex - 1, path: constraint.path }, value: undefined });
+    };
+
+    return (
+        <div className="flex gap-2 items-center bg-nexus-900 p-2 rounded border border-slate-700">
+            <div className="flex-1"><NexusInput value={constraint.path} onChange={e => onChange({ ...constraint, path: e.target.value })} placeholder={s('rollTables.placeholder.path')} className="text-xs font-mono" /></div>
+            <div className="w-32">
+                <NexusSelect value={constraint.operator} onChange={e => onChange({ ...constraint, operator: e.target.value as ConstraintOperator })} className="text-xs">
+                    {CONSTRAINT_OPERATORS.map(op => <option key={op} value={op}>{s(`roller.operator.${op}`)}</option>)}
+                </NexusSelect>
+            </div>
+            {isReference ? (
+                <div className="flex-1 flex gap-2">
+                    <div className="w-24">
+                        <NexusSelect value={constraint.valueFrom!.step} onChange={e => onChange({ ...constraint, valueFrom: { ...constraint.valueFrom!, step: parseInt(e.target.value, 10) } })} className="text-xs">
+                            {Array.from({ length: stepIndex }, (_, i) => <option key={i} value={i}>{s('rollTables.stepN', { n: i + 1 })}</option>)}
+                        </NexusSelect>
+                    </div>
+                    <div className="flex-1"><NexusInput value={constraint.valueFrom!.path} onChange={e => onChange({ ...constraint, valueFrom: { ...constraint.valueFrom!, path: e.target.value } })} placeholder={s('rollTables.placeholder.refPath')} className="text-xs font-mono" /></div>
+                </div>
+            ) : (
+                <div className="flex-1"><NexusInput value={constraint.value ?? ''} onChange={e => onChange({ ...constraint, value: e.target.value })} placeholder={s('roller.placeholder.value')} className="text-xs" /></div>
+            )}
+            {stepIndex > 0 && (
+                <button onClick={toggleReference} className={`p-1 rounded transition-colors ${isReference ? 'text-nexus-accent' : 'text-slate-500 hover:text-white'}`} title={s('rollTables.tooltip.reference')}><Link2 size={14} /></button>
+            )}
+            <button onClick={onRemove} className="text-slate-500 hover:text-red-400 transition-colors"><Trash2 size={14} /></button>
+        </div>
+    );
+};
+
+const RollTables: React.FC = () => {
+  const { currentWorld, worldManager, refreshWorld } = useWorld();
+  const { toast } = useToast();
+  const { s } = useStrings();
+
+  const [editingTable, setEditingTable] = useState<RollTable | null>(null);
+  const [deleteTableId, setDeleteTableId] = useState<string | null>(null);
+  const [contextTagsInput, setContextTagsInput] = useState('');
+  const [seedInput, setSeedInput] = useState('');
+  const [isRolling, setIsRolling] = useState(false);
+  const [stepResults, setStepResults] = useState<{ step: RollTableStep, results: UniversalEntity[], quantities: RolledQuantity[][] }[]>([]);
+  const [rollLog, setRollLog] = useState<string[]>([]);
+
+  if (!currentWorld) return null;
+
+  const tables = currentWorld.rollTables || [];
+  const poolNames = Object.keys(currentWorld.pools);
+
+  const handleNewTable = () => {
+      setEditingTable({
+          id: '',
+          name: s('rollTables.newTableName'),
+          description: '',
+          steps: poolNames.length > 0 ? [createStep(poolNames[0])] : [],
+          created: Date.now()
+      });
+      setStepResults([]);
+      setRollLog([]);
+  };
+
+  const handleSelectTable = (table: RollTable) => {
+      setEditingTable(JSON.parse(JSON.stringify(table)));
+      setStepResults([]);
+      setRollLog([]);
+  };
+
+  const updateStep = (idx: number, patch: Partial<RollTableStep>) => {
+      if (!editingTable) return;
+      setEditingTable({ ...editingTable, steps: editingTable.steps.map((st, i) => i === idx ? { ...st, ...patch } : st) });
+  };
+
+  const removeStep = (idx: number) => {
+      if (!editingTable) return;
+      // Drop references that pointed at (or past) the removed step
+      const steps = editingTable.steps.filter((_, i) => i !== idx).map(st => ({
+          ...st,
+          constraints: st.constraints
+              .filter(c => !c.valueFrom || c.valueFrom.step !== idx)
+              .map(c => c.valueFrom && c.valueFrom.step > idx ? { ...c, valueFrom: { ...c.valueFrom, step: c.valueFrom.step - 1 } } : c)
+      }));
+      setEditingTable({ ...editingTable, steps });
+  };
+
+  const handleSave = async () => {
+      if (!editingTable || !editingTable.name.trim()) {
+          toast({ title: s('rollTables.toast.validationError.title'), message: s('rollTables.toast.validationError.message'), type: "warning" });
+          return;
+      }
+      try {
+          const table = { ...editingTable };
+          await worldManager.saveRollTable(currentWorld.id, table);
+          setEditingTable(table);
+          refreshWorld();
+          toast({ title: s('rollTables.toast.saved.title'), message: table.name, type: "success" });
+      } catch (e) {
+          toast({ title: s('rollTables.toast.saveFailed.title'), message: s('rollTables.toast.saveFailed.message'), type: "error" });
+      }
+  };
+
+  const confirmDelete = async () => {
+      if (!deleteTableId) return;
+      try {
+          await worldManager.deleteRollTable(currentWorld.id, deleteTableId);
+          refreshWorld();
+          if (editingTable?.id === deleteTableId) setEditingTable(null);
+      } catch (e) {
+          toast({ title: s('rollTables.toast.saveFailed.title'), message: s('rollTables.toast.deleteFailed.message'), type: "error" });
+      } finally {
+          setDeleteTableId(null);
+      }
+  };
+
+  const handleRoll = async () => {
+      if (!editingTable || editingTable.steps.length === 0) return;
+      setIsRolling(true);
+      try {
+          const pools = Array.from(new Set<string>(editingTable.steps.map(st => st.pool)));
+          const loaded = await Promise.all(pools.map(p => db.getRollCandidates(currentWorld.id, p)));
+          const candidatesByPool: Record<string, RollCandidate[]> = {};
+          pools.forEach((p, i) => { candidatesByPool[p] = loaded[i]; });
+
+          const contextTags = new Set<string>(contextTagsInput.split(',').map(t => t.trim().toLowerCase()).filter(Boolean));
+          const { steps, log } = RollerEngine.rollTable(editingTable, candidatesByPool, currentWorld.rules, contextTags, {
+              raritySettings: currentWorld.config.raritySettings,
+              seed: seedInput,
+              componentRegistry: currentWorld.componentRegistry
+          });
+          setStepResults(steps);
+          setRollLog(log);
+      } catch (e) {
+          toast({ title: s('roller.toast.dbError.title'), message: s('roller.toast.dbError.message'), type: "error" });
+      } finally {
+          setIsRolling(false);
+      }
+  };
+
+  return (
+    <div className="h-[calc(100vh-6rem)] flex flex-col animate-fade-in">
+        <header className="mb-6 flex justify-between items-end shrink-0">
+            <div>
+                <h2 className="text-3xl font-bold text-slate-100 flex items-center gap-3">
+                    <ListOrdered className="text-nexus-accent" /> {s('rollTables.title')}
+                </h2>
+                <p className="text-slate-400">{s('rollTables.subtitle')}</p>
+            </div>
+        </header>
+
+        <div className="flex flex-1 gap-8 overflow-hidden min-h-0">
+            {/* LEFT: Table List */}
+            <div className="w-72 bg-nexus-800 border border-slate-700 rounded-xl overflow-hidden flex flex-col shadow-lg shrink-0">
+                <div className="p-4 border-b border-slate-700 flex justify-between items-center bg-nexus-900">
+                    <span className="text-xs font-bold uppercase text-slate-500">{s('rollTables.listTitle')}</span>
+                    <button onClick={handleNewTable} className="text-nexus-accent hover:text-white p-1 rounded hover:bg-slate-700"><Plus size={18} /></button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
+                    {tables.length === 0 && <div className="text-center p-8 text-slate-500 text-sm italic">{s('rollTables.none')}</div>}
+                    {tables.map(table => (
+                        <div key={table.id} onClick={() => handleSelectTable(table)} className={`p-3 rounded-lg cursor-pointer border transition-all group relative ${editingTable?.id === table.id ? 'bg-nexus-accent/10 border-nexus-accent shadow-md' : 'bg-nexus-900 border-slate-700 hover:border-slate-500'}`}>
+                            <h4 className={`font-bold text-sm truncate pr-6 ${editingTable?.id === table.id ? 'text-nexus-accent' : 'text-slate-300'}`}>{table.name}</h4>
+                            <span className="text-xs text-slate-500 font-mono truncate block">{table.steps.map(st => st.pool).join(' → ')}</span>
+                            <button onClick={(e) => { e.stopPropagation(); setDeleteTableId(table.id); }} className="absolute right-2 top-2 opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 p-1 rounded hover:bg-black/20 transition-all"><Trash2 size={14} /></button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* RIGHT: Editor + Results */}
+            <div className="flex-1 flex flex-col gap-4 min-h-0 overflow-hidden">
+                {editingTable ? (
+                    <>
+                        <div className="bg-nexus-800 border border-slate-700 rounded-xl shadow-lg flex flex-col min-h-0 flex-1 overflow-hidden">
+                            <div className="p-4 border-b border-slate-700 bg-nexus-900 shrink-0 flex gap-4 items-end">
+                                <div className="flex-1"><NexusInput label={s('rollTables.field.name')} value={editingTable.name} onChange={e => setEditingTable({ ...editingTable, name: e.target.value })} className="font-bold" /></div>
+                                <div className="flex-1"><NexusInput label={s('rollTables.field.description')} value={editingTable.description || ''} onChange={e => setEditingTable({ ...editingTable, description: e.target.value })} /></div>
+                                <NexusButton onClick={handleSave} icon={<Save size={16} />}>{s('common.save')}</NexusButton>
+                            </div>
+                            <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                                {editingTable.steps.map((step, idx) => (
+                                    <React.Fragment key={step.id}>
+                                        {idx > 0 && <div className="flex justify-center text-slate-600"><ArrowDown size={14} /></div>}
+                                        <div className="bg-nexus-900/50 border border-slate-700/50 rounded-lg p-3 space-y-2">
+                                            <div className="flex gap-2 items-end">
+                                                <span className="text-xs font-bold uppercase text-nexus-accent pb-3 w-16">{s('rollTables.stepN', { n: idx + 1 })}</span>
+                                                <div className="flex-1">
+                                                    <NexusSelect label={s('roller.label.targetPool')} value={step.pool} onChange={e => updateStep(idx, { pool: e.target.value })}>
+                                                        {poolNames.map(p => <option key={p} value={p}>{p}</option>)}
+                                                    </NexusSelect>
+                                                </div>
+                                                <div className="w-20"><NexusInput label={s('roller.label.drawCount')} type="number" min={1} value={step.count} onChange={e => updateStep(idx, { count: Math.max(1, parseInt(e.target.value, 10) || 1) })} /></div>
+                                                <div className="w-40">
+                                                    <NexusSelect value={step.withReplacement ? 'with' : 'without'} onChange={e => updateStep(idx, { withReplacement: e.target.value === 'with' })}>
+                                                        <option value="without">{s('roller.option.noDuplicates')}</option>
+                                                        <option value="with">{s('roller.option.withReplacement')}</option>
+                                                    </NexusSelect>
+                                                </div>
+                                                <button onClick={() => removeStep(idx)} className="text-slate-500 hover:text-red-400 transition-colors pb-3"><Trash2 size={14} /></button>
+                                            </div>
+                                            {step.constraints.map((c, cIdx) => (
+                                                <StepConstraintRow
+                                                    key={cIdx}
+                                                    constraint={c}
+                                                    stepIndex={idx}
+                                                    onChange={updated => updateStep(idx, { constraints: step.constraints.map((x, i) => i === cIdx ? updated : x) })}
+                                                    onRemove={() => updateStep(idx, { constraints: step.constraints.filter((_, i) => i !== cIdx) })}
+                                                />
+                                            ))}
+                                            <button onClick={() => updateStep(idx, { constraints: [...step.constraints, { path: 'tags', operator: 'contains', value: '' }] })} className="text-xs font-bold text-slate-500 hover:text-nexus-accent flex items-center gap-1"><Plus size={12} /> {s('rollTables.addConstraint')}</button>
+                                        </div>
+                                    </React.Fragment>
+                                ))}
+                                <button onClick={() => poolNames.length > 0 && setEditingTable({ ...editingTable, steps: [...editingTable.steps, createStep(poolNames[0])] })} className="w-full py-2 border border-dashed border-slate-700 rounded text-xs text-slate-500 hover:text-white hover:border-slate-500 transition-colors flex justify-center items-center gap-2">
+                                    <Plus size={14} /> {s('rollTables.addStep')}
+                                </button>
+                            </div>
+                            <div className="p-4 border-t border-slate-700 bg-nexus-900 flex gap-3 items-end shrink-0">
+                                <div className="flex-1"><NexusInput label={s('roller.label.contextTags')} placeholder={s('roller.placeholder.contextTags')} value={contextTagsInput} onChange={e => setContextTagsInput(e.target.value)} /></div>
+                                <div className="w-48"><NexusInput label={s('roller.label.seed')} placeholder={s('roller.placeholder.seed')} value={seedInput} onChange={e => setSeedInput(e.target.value)} className="font-mono" /></div>
+                                <NexusButton onClick={handleRoll} disabled={isRolling || editingTable.steps.length === 0} icon={<Play size={16} fill="currentColor" />}>{s('roller.roll')}</NexusButton>
+                            </div>
+                        </div>
+
+                        {(stepResults.length > 0 || rollLog.length > 0) && (
+                            <div className="h-64 grid grid-cols-2 gap-4 shrink-0">
+                                <div className="bg-nexus-800 border border-slate-700 rounded-xl p-4 overflow-y-auto custom-scrollbar space-y-3">
+                                    {stepResults.map(({ step, results, quantities }, idx) => (
+                                        <div key={step.id}>
+                                            <div className="text-xs font-bold uppercase text-slate-500 mb-1">{s('rollTables.stepN', { n: idx + 1 })} · {step.pool}</div>
+                                            {results.length === 0 && <div className="text-xs text-orange-400 italic">{s('roller.toast.rollFailed.message')}</div>}
+                                            <div className="flex flex-wrap gap-2">
+                                                {results.map((e, i) => (
+                                                    <span key={`${e.id}-${i}`} className="text-xs px-2 py-1 bg-nexus-900 border border-slate-700 rounded text-slate-200" title={EntityUtils.getDescription(e)}>
+                                                        <strong>{e.name}</strong> <span className="text-slate-500">({EntityUtils.getRarity(e)})</span>
+                                                        {(quantities[i] || []).map(q => <span key={q.path} className="ml-1 font-mono text-amber-300" title={`${q.label}: ${q.breakdown}`}>x{q.total}</span>)}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className="bg-black/80 border border-slate-800 rounded-xl p-4 font-mono text-xs text-slate-400 overflow-y-auto custom-scrollbar">
+                                    <div className="flex items-center gap-2 text-nexus-accent font-bold uppercase mb-2 border-b border-slate-800 pb-2"><Activity size={12} /> {s('roller.executionLog')}</div>
+                                    {rollLog.map((l, i) => (<div key={i} className={`py-0.5 ${l.startsWith('Step ') ? 'text-nexus-accent font-bold' : ''} ${l.startsWith('Draw ') ? 'text-green-400' : ''}`}><span className="opacity-30 mr-2">[{i}]</span>{l}</div>))}
+                                </div>
+                            </div>
+                        )}
+                    </>
+                ) : (
+                    <div className="flex-1 bg-nexus-800 border border-slate-700 rounded-xl flex flex-col items-center justify-center text-slate-500 opacity-50">
+                        <ListOrdered size={64} className="mb-4" />
+                        <p>{s('rollTables.empty.selectHint')}</p>
+                    </div>
+                )}
+            </div>
+        </div>
+
+        <NexusModal isOpen={!!deleteTableId} onClose={() => setDeleteTableId(null)} title={<span className="text-red-400 flex items-center gap-2"><AlertTriangle size={20}/> {s('rollTables.modal.deleteTitle')}</span>}>
+            <div className="space-y-4">
+                <p className="text-slate-300">{s('rollTables.modal.deleteQuestion')}</p>
+                <div className="flex justify-end gap-2"><NexusButton variant="ghost" onClick={() => setDeleteTableId(null)}>{s('common.cancel')}</NexusButton><NexusButton variant="destructive" onClick={confirmDelete}>{s('common.delete')}</NexusButton></div>
+            </div>
+        </NexusModal>
+    </div>
+  );
+};
+
+export default RollTables;
@@ -1,50 +1,57 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useWorld } from '../hooks/useWorld';
-import { UniversalEntity } from '../types';
-import { Activity, Play, RefreshCw, Plus, Trash2, Filter } from 'lucide-react';
+import { UniversalEntity, RollHistoryEntry, RollDeck, RollQuantitySnapshot, TagDefinition } from '../types';
+import { Activity, Play, RefreshCw, Filter, Copy, RotateCcw, BarChart3, Dices, History, Layers, Shuffle, Eye } from 'lucide-react';
 import { NexusButton, NexusInput, NexusSelect } from '../components/ui';
 import { useToast } from '../contexts/ToastContext';
 import { EntityUtils } from '../utils/entityUtils';
 import { db } from '../services/db'; 
-import { RollerEngine, RollCandidate, RollConstraint, ConstraintOperator } from '../services/rollerEngine';
+import { RollerEngine, RollCandidate, RollConstraintGroup, RolledQuantity, SimulationResult } from '../services/rollerEngine';
+import { ConstraintGroupEditor } from '../components/ConstraintBuilder';
+import { RollOddsPanel } from '../components/RollOddsPanel';
+import { RollHistoryPanel } from '../components/RollHistoryPanel';
+import { DeckPeekModal } from '../components/DeckPeekModal';
+import { ConstraintSchema } from '../utils/constraintSchema';
+import { QueryUtils } from '../utils/queryUtils';
+import { QueryFeedback } from '../components/QueryFeedback';
 import { useStrings } from '../lib/translations';
 
-const buildOperators = (s: (key: string, vars?: any) => string): { label: string; value: ConstraintOperator }[] => ([
-    { label: s('roller.operator.eq'), value: 'eq' }, { label: s('roller.operator.neq'), value: 'neq' },
-    { label: s('roller.operator.gt'), value: 'gt' }, { label: s('roller.operator.gte'), value: 'gte' },
-    { label: s('roller.operator.lt'), value: 'lt' }, { label: s('roller.operator.lte'), value: 'lte' },
-    { label: s('roller.operator.contains'), value: 'contains' }, { label: s('roller.operator.missing'), value: 'missing' }, { label: s('roller.operator.truthy'), value: 'truthy' },
-]);
-
-const ConstraintRow = React.memo(({ constraint, onRemove }: { constraint: RollConstraint; onRemove: () => void; }) => (
-    <div className="flex gap-2 items-center bg-nexus-900 p-2 rounded border border-slate-700 animate-in fade-in slide-in-from-left-2">
-        <div className="flex-1 text-xs font-mono text-nexus-accent truncate" title={constraint.path}>{constraint.path}</div>
-        <div className="px-2 py-0.5 bg-slate-800 rounded text-xs font-bold uppercase text-slate-400">{constraint.operator}</div>
-        <div className="flex-1 text-xs text-white truncate font-bold">{String(constraint.value)}</div>
-        <button onClick={onRemove} className="text-slate-500 hover:text-red-400 transition-colors"><Trash2 size={14} /></button>
-    </div>
-));
+// Blank or invalid multipliers mean "no effect"
+const parseFactor = (raw: string) => {
+    const n = parseFloat(raw);
+    return isNaN(n) ? 1 : n;
+};
 
 const Roller: React.FC<{ embedded?: boolean, initialPool?: string, onRollComplete?: (e: UniversalEntity) => void }> = ({ embedded = false, initialPool, onRollComplete }) => {
   const { currentWorld } = useWorld();
   const { toast } = useToast();
   const { s } = useStrings();
-  const OPERATORS = useMemo(() => buildOperators(s), [s]);
   
   // State
   const [selectedPool, setSelectedPool] = useState(initialPool || 'locations');
   const [candidates, setCandidates] = useState<RollCandidate[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [rollResult, setRollResult] = useState<UniversalEntity | null>(null);
+  const [rollResults, setRollResults] = useState<UniversalEntity[]>([]);
   const [rollLog, setRollLog] = useState<string[]>([]);
+  const [rollQuantities, setRollQuantities] = useState<RollQuantitySnapshot[][]>([]); // Aligned with rollResults
   const [contextTagsInput, setContextTagsInput] = useState<string>(''); 
-  const [constraints, setConstraints] = useState<RollConstraint[]>([]);
-
-  // Constraint Inputs
-  // FIXED: Changed default path to match standard component structure
-  const [newPath, setNewPath] = useState('components.basic_stats.power');
-  const [newOp, setNewOp] = useState<ConstraintOperator>('gt');
-  const [newVal, setNewVal] = useState('');
+  const [queryInput, setQueryInput] = useState('');
+  const [constraintRoot, setConstraintRoot] = useState<RollConstraintGroup>({ mode: 'and', children: [] });
+  const [seedInput, setSeedInput] = useState('');
+  const [lastSeed, setLastSeed] = useState<string | null>(null);
+  const [drawCount, setDrawCount] = useState(1);
+  const [withReplacement, setWithReplacement] = useState(false);
+  const [view, setView] = useState<'results' | 'odds' | 'history'>('results');
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // Tagged with the inputs it was run against, so edits invalidate it
+  const [simulation, setSimulation] = useState<{ key: string; result: SimulationResult } | null>(null);
+  const [affinityEnabled, setAffinityEnabled] = useState(false);
+  const [affinityBonus, setAffinityBonus] = useState('2');
+  const [affinityPenalty, setAffinityPenalty] = useState('0.5');
+  const [deck, setDeck] = useState<RollDeck | null>(null);
+  // Latest deck for handlers, so a second draw before re-render sees the first one
+  const deckRef = useRef<RollDeck | null>(null);
+  const [isPeekOpen, setIsPeekOpen] = useState(false);
 
   if (!currentWorld) return null;
 
@@ -66,11 +73,107 @@ const Roller: React.FC<{ embedded?: boolean, initialPool?: string, onRollComplet
       return () => { active = false; };
   }, [currentWorld.id, selectedPool]);
 
-  const addConstraint = () => {
-      if (!newPath.trim()) return;
-      const isNumeric = !isNaN(parseFloat(newVal)) && isFinite(parseFloat(newVal));
-      setConstraints(prev => [...prev, { path: newPath.trim(), operator: newOp, value: isNumeric ? parseFloat(newVal) : newVal }]);
-      setNewVal('');
+  useEffect(() => {
+      let active = true;
+      applyDeck(null);
+      db.getDeck(currentWorld.id, selectedPool)
+          .then(saved => { if (active && saved) applyDeck(saved); })
+          .catch(() => { /* No deck yet is the normal case */ });
+      return () => { active = false; };
+  }, [currentWorld.id, selectedPool]);
+
+  // The query narrows the pool before constraints and rules see it
+  const parsedQuery = queryInput.trim() ? QueryUtils.parse(queryInput, currentWorld) : null;
+  const queryCandidates = parsedQuery ? candidates.filter(c => QueryUtils.matches(c.original, parsedQuery, selectedPool)) : candidates;
+
+  const deckMode = !!deck?.active;
+  const drawnIds = new Set<string>((deck?.drawn || []).map(d => d.id));
+  const deckCandidates = deckMode ? queryCandidates.filter(c => !drawnIds.has(c.id)) : queryCandidates;
+
+  const applyDeck = (next: RollDeck | null) => {
+      deckRef.current = next;
+      setDeck(next);
+  };
+
+  const updateDeck = async (next: RollDeck) => {
+      applyDeck(next);
+      try {
+          await db.saveDeck(next);
+      } catch (e) {
+          toast({ title: s('roller.deck.toast.saveFailed'), message: String(e), type: "error" });
+      }
+  };
+
+  const toggleDeckMode = () => {
+      const base: RollDeck = deckRef.current || { id: `${currentWorld.id}:${selectedPool}`, worldId: currentWorld.id, pool: selectedPool, active: false, drawn: [], shuffledAt: Date.now() };
+      updateDeck({ ...base, active: !base.active });
+  };
+
+  const reshuffleDeck = () => {
+      const current = deckRef.current;
+      if (!current) return;
+      updateDeck({ ...current, drawn: [], shuffledAt: Date.now() });
+      toast({ title: s('roller.deck.toast.reshuffled'), message: s('roller.deck.toast.reshuffledMessage', { count: candidates.length }), type: "info" });
+  };
+
+  const returnCard = (id: string) => {
+      const current = deckRef.current;
+      if (!current) return;
+      updateDeck({ ...current, drawn: current.drawn.filter(d => d.id !== id) });
+  };
+
+  const constraintFields = ConstraintSchema.getFields(currentWorld, selectedPool);
+
+  const compileRollInputs = () => {
+    const contextTagSet = new Set<string>(contextTagsInput.split(',').map(t => t.trim().toLowerCase()).filter(Boolean));
+    const { activeEffects, log: ruleLog } = RollerEngine.compileRules(currentWorld.rules, contextTagSet, selectedPool);
+    const opposites: Record<string, string[]> = {};
+    (Object.values(currentWorld.tags || {}) as TagDefinition[]).forEach(tag => { if (tag.opposites?.length) opposites[tag.id] = tag.opposites; });
+    const affinity = affinityEnabled && contextTagSet.size > 0
+        ? { contextTags: Array.from(contextTagSet), bonus: parseFactor(affinityBonus), penalty: parseFactor(affinityPenalty), opposites }
+        : undefined;
+    const rollOptions = { raritySettings: currentWorld.config.raritySettings, seed: seedInput, affinity, componentRegistry: currentWorld.componentRegistry };
+    return { activeEffects, ruleLog, rollOptions, contextTags: Array.from(contextTagSet) };
+  };
+
+  // In deck mode, odds describe the next draw from the cards still in the deck
+  const oddsKey = JSON.stringify([selectedPool, deckCandidates.length, contextTagsInput, queryInput, constraintRoot, currentWorld.rules, currentWorld.config.raritySettings, affinityEnabled, affinityBonus, affinityPenalty]);
+  const preview = view === 'odds' ? (() => {
+    const { activeEffects, rollOptions } = compileRollInputs();
+    return RollerEngine.preview(deckCandidates, activeEffects, [constraintRoot], rollOptions);
+  })() : null;
+
+  const handleSimulate = (iterations: number) => {
+    const { activeEffects, rollOptions } = compileRollInputs();
+    const result = RollerEngine.simulate(deckCandidates, activeEffects, [constraintRoot], { ...rollOptions, iterations });
+    setSimulation({ key: oddsKey, result });
+  };
+
+  // History is best-effort: a failed write must not block the roll itself
+  const recordHistory = async (entry: RollHistoryEntry) => {
+    try {
+        await db.saveRollHistoryEntry(entry);
+        setHistoryVersion(v => v + 1);
+    } catch (e) {
+        toast({ title: s('roller.history.toast.saveFailed'), message: String(e), type: "warning" });
+    }
+  };
+
+  const handleReopen = async (entry: RollHistoryEntry) => {
+    try {
+        const entities = await db.getEntitiesByIds(entry.winners.map(w => w.id));
+        if (entities.length < entry.winners.length) {
+            toast({ title: s('roller.history.toast.missing.title'), message: s('roller.history.toast.missing.message', { count: entry.winners.length - entities.length }), type: "warning" });
+        }
+        setRollResults(entities);
+        // getEntitiesByIds keeps order and drops missing IDs, so the surviving winners line up
+        setRollQuantities(entry.winners.filter(w => entities.some(e => e.id === w.id)).map(w => w.quantities || []));
+        setRollLog(entry.log);
+        setLastSeed(entry.seed);
+        setView('results');
+    } catch (e) {
+        toast({ title: s('roller.toast.dbError.title'), message: String(e), type: "error" });
+    }
   };
 
   const handleRoll = () => {
@@ -78,21 +181,98 @@ const Roller: React.FC<{ embedded?: boolean, initialPool?: string, onRollComplet
       toast({ title: s('roller.toast.emptyPool.title'), message: s('roller.toast.emptyPool.message'), type: "warning" });
       return;
     }
-    const contextTagSet = new Set(contextTagsInput.split(',').map(t => t.trim().toLowerCase()).filter(Boolean));
-    const { activeEffects } = RollerEngine.compileRules(currentWorld.rules, contextTagSet, selectedPool);
-    const { result, log } = RollerEngine.roll(candidates, activeEffects, constraints);
+    const { activeEffects, ruleLog, rollOptions, contextTags } = compileRollInputs();
+
+    let results: UniversalEntity[];
+    let log: string[];
+    let seed: string;
+    let quantities: RolledQuantity[][];
+    if (deckMode) {
+        const current = deckRef.current!;
+        ({ results, log, seed, quantities } = RollerEngine.drawFromDeck(queryCandidates, current.drawn.map(d => d.id), activeEffects, [constraintRoot], { ...rollOptions, count: drawCount }));
+        if (results.length > 0) {
+            const now = Date.now();
+            updateDeck({ ...current, drawn: [...current.drawn, ...results.map(r => ({ id: r.id, name: r.name, drawnAt: now }))] });
+        }
+    } else if (drawCount > 1) {
+        ({ results, log, seed, quantities } = RollerEngine.rollMany(queryCandidates, activeEffects, [constraintRoot], { ...rollOptions, count: drawCount, withReplacement }));
+    } else {
+        const single = RollerEngine.roll(queryCandidates, activeEffects, [constraintRoot], rollOptions);
+        results = single.result ? [single.result] : [];
+        quantities = single.result ? [single.quantities] : [];
+        ({ log, seed } = single);
+    }
     
-    setRollResult(result);
-    setRollLog(log);
+    const queryLog = parsedQuery ? [`Query: ${queryInput.trim()} (${queryCandidates.length} of ${candidates.length} candidates)`] : [];
+    const fullLog = [...queryLog, ...ruleLog, ...log];
+    setRollResults(results);
+    setRollQuantities(quantities);
+    setRollLog(fullLog);
+    setLastSeed(seed);
+    setView('results');
+    recordHistory({
+        id: crypto.randomUUID(),
+        worldId: currentWorld.id,
+        timestamp: Date.now(),
+        pool: selectedPool,
+        seed,
+        constraints: constraintRoot.children.length > 0 ? [constraintRoot] : [],
+        contextTags,
+        drawCount,
+        withReplacement: drawCount > 1 && !deckMode ? withReplacement : undefined,
+        winners: results.map((r, idx) => ({
+            id: r.id,
+            name: r.name,
+            rarity: EntityUtils.getRarity(r),
+            quantities: quantities[idx]?.length ? quantities[idx].map(q => ({ label: q.label, total: q.total, breakdown: q.breakdown })) : undefined
+        })),
+        log: fullLog
+    });
     
-    if (result) {
+    if (results.length === 1) {
+        const result = results[0];
         toast({ title: (currentWorld.config?.language === 'Chinese' ? `掷骰：${result.name}` : "Rolled: " + result.name), message: EntityUtils.getRarity(result), type: "success" });
         if (onRollComplete) onRollComplete(result);
+    } else if (results.length > 1) {
+        toast({ title: s('roller.toast.multiRolled.title', { count: results.length }), message: results.map(r => r.name).join(', '), type: "success" });
+        if (onRollComplete) onRollComplete(results[0]);
     } else {
         toast({ title: s('roller.toast.rollFailed.title'), message: s('roller.toast.rollFailed.message'), type: "warning" });
     }
   };
 
+  const copySeed = async () => {
+      if (!lastSeed) return;
+      try {
+          await navigator.clipboard.writeText(lastSeed);
+          toast({ title: s('roller.toast.seedCopied.title'), message: lastSeed, type: "info" });
+      } catch (e) {
+          toast({ title: s('roller.toast.seedCopyFailed.title'), message: lastSeed, type: "warning" });
+      }
+  };
+
+  const renderSeedBar = (className: string) => lastSeed && (
+      <div className={`flex items-center gap-2 text-xs font-mono text-slate-500 ${className}`}>
+          <span>{s('roller.rollId', { seed: lastSeed })}</span>
+          <button onClick={copySeed} className="hover:text-white transition-colors" title={s('roller.tooltip.copySeed')}><Copy size={12} /></button>
+          <button onClick={() => setSeedInput(lastSeed)} className="hover:text-white transition-colors" title={s('roller.tooltip.reuseSeed')}><RotateCcw size={12} /></button>
+      </div>
+  );
+
+  // Dice-field quantities rolled for a winner; the breakdown shows on hover
+  const renderQuantities = (quantities: RollQuantitySnapshot[] | undefined, large: boolean) => quantities && quantities.length > 0 && (
+      <div className={`flex flex-wrap gap-2 ${large ? 'justify-center mb-6' : ''}`}>
+          {quantities.map(q => (
+              <span key={q.label} title={q.breakdown} className={`inline-flex items-center gap-1.5 rounded border border-amber-500/30 bg-amber-500/10 text-amber-300 font-mono ${large ? 'px-3 py-1 text-sm' : 'px-1.5 py-0.5 text-xs'}`}>
+                  <Dices size={large ? 14 : 12} />
+                  <span className="font-bold">x{q.total}</span>
+                  <span className="opacity-60">{q.label}</span>
+                  {large && <span className="opacity-60">· {q.breakdown}</span>}
+              </span>
+          ))}
+      </div>
+  );
+
   return (
       <div className={`grid grid-cols-1 ${embedded ? 'gap-4' : 'lg:grid-cols-3 gap-8'} h-[calc(100vh-8rem)] animate-fade-in`}>
         {/* LEFT: Config Panel */}
@@ -105,22 +285,56 @@ const Roller: React.FC<{ embedded?: boolean, initialPool?: string, onRollComplet
                 <div className="space-y-3">
                     <NexusSelect label={s('roller.label.targetPool')} value={selectedPool} onChange={e => setSelectedPool(e.target.value)}>{Object.keys(currentWorld.pools).map(p => (<option key={p} value={p}>{p}</option>))}</NexusSelect>
                     <NexusInput label={s('roller.label.contextTags')} placeholder={s('roller.placeholder.contextTags')} value={contextTagsInput} onChange={e => setContextTagsInput(e.target.value)} />
+                    <div className="space-y-1">
+                        <NexusInput label={s('roller.label.query')} placeholder={s('roller.placeholder.query')} value={queryInput} onChange={e => setQueryInput(e.target.value)} className="font-mono text-xs" title={s('query.help')} />
+                        {parsedQuery && <QueryFeedback query={parsedQuery} total={queryCandidates.length} />}
+                    </div>
+                    <div className="flex gap-2 items-center text-xs">
+                        <label className="flex items-center gap-1.5 text-slate-400 cursor-pointer select-none flex-1" title={s('roller.affinity.tooltip')}>
+                            <input type="checkbox" checked={affinityEnabled} onChange={e => setAffinityEnabled(e.target.checked)} className="accent-nexus-accent" />
+                            {s('roller.affinity.label')}
+                        </label>
+                        {affinityEnabled && (
+                            <>
+                                <span className="text-slate-500">{s('roller.affinity.bonus')}</span>
+                                <div className="w-16"><NexusInput value={affinityBonus} onChange={e => setAffinityBonus(e.target.value)} className="text-xs font-mono" /></div>
+                                <span className="text-slate-500">{s('roller.affinity.penalty')}</span>
+                                <div className="w-16"><NexusInput value={affinityPenalty} onChange={e => setAffinityPenalty(e.target.value)} className="text-xs font-mono" /></div>
+                            </>
+                        )}
+                    </div>
+                    <NexusInput label={s('roller.label.seed')} placeholder={s('roller.placeholder.seed')} value={seedInput} onChange={e => setSeedInput(e.target.value)} className="font-mono" />
+                    <div className="flex gap-2 items-end">
+                        <div className="w-24"><NexusInput label={s('roller.label.drawCount')} type="number" min={1} max={100} value={drawCount} onChange={e => setDrawCount(Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 1)))} /></div>
+                        <div className="flex-1">
+                            <NexusSelect value={withReplacement && !deckMode ? 'with' : 'without'} onChange={e => setWithReplacement(e.target.value === 'with')} disabled={drawCount <= 1 || deckMode}>
+                                <option value="without">{s('roller.option.noDuplicates')}</option>
+                                <option value="with">{s('roller.option.withReplacement')}</option>
+                            </NexusSelect>
+                        </div>
+                    </div>
+                    <div className={`rounded border p-2 flex items-center gap-2 text-xs ${deckMode ? 'border-nexus-accent/50 bg-nexus-accent/5' : 'border-slate-700'}`}>
+                        <button onClick={toggleDeckMode} className={`flex items-center gap-1.5 font-bold uppercase ${deckMode ? 'text-nexus-accent' : 'text-slate-500 hover:text-white'}`} title={s('roller.deck.tooltip')}>
+                            <Layers size={14} /> {s('roller.deck.mode')}
+                        </button>
+                        {deckMode && (
+                            <>
+                                <span className="font-mono text-slate-400">{s('roller.deck.left', { left: deckCandidates.length, total: candidates.length })}</span>
+                                <div className="ml-auto flex gap-1">
+                                    <button onClick={() => setIsPeekOpen(true)} className="p-1 text-slate-500 hover:text-white" title={s('roller.deck.peek')}><Eye size={14} /></button>
+                                    <button onClick={reshuffleDeck} className="p-1 text-slate-500 hover:text-white" title={s('roller.deck.reshuffle')}><Shuffle size={14} /></button>
+                                </div>
+                            </>
+                        )}
+                    </div>
                 </div>
             </div>
 
             <div className="bg-nexus-800 border border-slate-700 p-4 rounded-xl shadow-lg flex-1 flex flex-col min-h-0">
                 <h3 className="font-bold text-slate-200 text-sm uppercase tracking-wider mb-4 flex items-center gap-2"><Filter size={14} className="text-nexus-accent" /> {s('roller.panel.runtimeConstraints')}</h3>
-                <div className="bg-nexus-900/50 p-3 rounded border border-slate-700/50 mb-4 space-y-2">
-                    <NexusInput value={newPath} onChange={e => setNewPath(e.target.value)} placeholder={s('roller.placeholder.path')} className="text-xs font-mono" />
-                    <div className="flex gap-2">
-                        <div className="w-1/2"><NexusSelect value={newOp} onChange={e => setNewOp(e.target.value as ConstraintOperator)} className="text-xs">{OPERATORS.map(op => <option key={op.value} value={op.value}>{op.label}</option>)}</NexusSelect></div>
-                        <div className="flex-1"><NexusInput value={newVal} onChange={e => setNewVal(e.target.value)} placeholder={s('roller.placeholder.value')} className="text-xs" onKeyDown={e => e.key === 'Enter' && addConstraint()} /></div>
-                        <button onClick={addConstraint} className="bg-nexus-700 hover:bg-nexus-600 text-white px-2 rounded border border-slate-600"><Plus size={16} /></button>
-                    </div>
-                </div>
                 <div className="flex-1 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
-                    {constraints.length === 0 && <div className="text-center text-slate-500 text-xs italic py-4">{s('roller.empty.noConstraints')}</div>}
-                    {constraints.map((c, i) => (<ConstraintRow key={i} constraint={c} onRemove={() => setConstraints(prev => prev.filter((_, idx) => idx !== i))} />))}
+                    <ConstraintGroupEditor group={constraintRoot} fields={constraintFields} onChange={setConstraintRoot} />
+                    {constraintRoot.children.length === 0 && <div className="text-center text-slate-500 text-xs italic py-4">{s('roller.empty.noConstraints')}</div>}
                 </div>
                 <div className="pt-4 mt-auto">
                     <NexusButton onClick={handleRoll} disabled={isLoading || candidates.length === 0} className="w-full py-3 text-lg" icon={<Play size={20} fill="currentColor" />}>{isLoading ? s('roller.loading') : s('roller.roll')}</NexusButton>
@@ -130,15 +344,53 @@ const Roller: React.FC<{ embedded?: boolean, initialPool?: string, onRollComplet
 
         {/* RIGHT: Results */}
         <div className={`${embedded ? '' : 'lg:col-span-2'} flex flex-col gap-4 h-full overflow-hidden`}>
+            <div className="flex gap-2 shrink-0">
+                <button onClick={() => setView('results')} className={`px-3 py-1.5 rounded text-xs font-bold uppercase flex items-center gap-1.5 transition-colors ${view === 'results' ? 'bg-nexus-accent/20 text-nexus-accent' : 'text-slate-500 hover:text-white'}`}><Dices size={14} /> {s('roller.view.results')}</button>
+                <button onClick={() => setView('odds')} disabled={candidates.length === 0} className={`px-3 py-1.5 rounded text-xs font-bold uppercase flex items-center gap-1.5 transition-colors disabled:opacity-50 ${view === 'odds' ? 'bg-nexus-accent/20 text-nexus-accent' : 'text-slate-500 hover:text-white'}`}><BarChart3 size={14} /> {s('roller.view.odds')}</button>
+                <button onClick={() => setView('history')} className={`px-3 py-1.5 rounded text-xs font-bold uppercase flex items-center gap-1.5 transition-colors ${view === 'history' ? 'bg-nexus-accent/20 text-nexus-accent' : 'text-slate-500 hover:text-white'}`}><History size={14} /> {s('roller.view.history')}</button>
+            </div>
             <div className="flex-1 bg-nexus-800 border-2 border-slate-700 rounded-xl flex items-center justify-center relative overflow-hidden group">
-                {rollResult ? (
+                {view === 'history' ? (
+                    <RollHistoryPanel
+                        worldId={currentWorld.id}
+                        worldName={currentWorld.name}
+                        pools={Object.keys(currentWorld.pools)}
+                        refreshKey={historyVersion}
+                        onReopen={handleReopen}
+                    />
+                ) : preview ? (
+                    <RollOddsPanel
+                        preview={preview}
+                        simulation={simulation?.key === oddsKey ? simulation.result : null}
+                        raritySettings={currentWorld.config.raritySettings}
+                        onSimulate={handleSimulate}
+                    />
+                ) : rollResults.length === 1 ? (
                     <div className="w-full h-full p-8 flex flex-col items-center justify-center text-center relative z-10 animate-in zoom-in-95 duration-200">
                         <div className="absolute inset-0 bg-gradient-to-br from-nexus-900 via-nexus-800 to-nexus-900 -z-10"></div>
-                        <div className={`absolute top-0 w-full h-2 ${EntityUtils.getRarity(rollResult) === 'Legendary' ? 'bg-amber-500 shadow-[0_0_20px_rgba(245,158,11,0.5)]' : EntityUtils.getRarity(rollResult) === 'Epic' ? 'bg-purple-500 shadow-[0_0_20px_rgba(168,85,247,0.5)]' : 'bg-nexus-accent'}`}></div>
-                        <span className="inline-block px-3 py-1 rounded-full text-xs font-bold uppercase mb-4 border border-white/10 bg-slate-800 text-slate-300 tracking-widest">{EntityUtils.getRarity(rollResult)}</span>
-                        <h1 className="text-5xl font-black text-white mb-4 tracking-tight drop-shadow-xl">{rollResult.name}</h1>
-                        <p className="text-lg text-slate-400 italic max-w-lg leading-relaxed mb-6">"{EntityUtils.getDescription(rollResult)}"</p>
-                        <div className="flex flex-wrap gap-2 justify-center max-w-2xl">{rollResult.tags.map(t => (<span key={t} className="text-xs px-2 py-1 bg-black/40 text-slate-400 rounded border border-slate-700/50 uppercase font-bold">{t}</span>))}</div>
+                        <div className={`absolute top-0 w-full h-2 ${EntityUtils.getRarity(rollResults[0]) === 'Legendary' ? 'bg-amber-500 shadow-[0_0_20px_rgba(245,158,11,0.5)]' : EntityUtils.getRarity(rollResults[0]) === 'Epic' ? 'bg-purple-500 shadow-[0_0_20px_rgba(168,85,247,0.5)]' : 'bg-nexus-accent'}`}></div>
+                        <span className="inline-block px-3 py-1 rounded-full text-xs font-bold uppercase mb-4 border border-white/10 bg-slate-800 text-slate-300 tracking-widest">{EntityUtils.getRarity(rollResults[0])}</span>
+                        <h1 className="text-5xl font-black text-white mb-4 tracking-tight drop-shadow-xl">{rollResults[0].name}</h1>
+                        <p className="text-lg text-slate-400 italic max-w-lg leading-relaxed mb-6">"{EntityUtils.getDescription(rollResults[0])}"</p>
+                        {renderQuantities(rollQuantities[0], true)}
+                        <div className="flex flex-wrap gap-2 justify-center max-w-2xl">{rollResults[0].tags.map(t => (<span key={t} className="text-xs px-2 py-1 bg-black/40 text-slate-400 rounded border border-slate-700/50 uppercase font-bold">{t}</span>))}</div>
+                        {renderSeedBar('absolute bottom-3 right-3')}
+                    </div>
+                ) : rollResults.length > 1 ? (
+                    <div className="w-full h-full p-4 overflow-y-auto custom-scrollbar animate-in fade-in duration-200">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-3">
+                            {rollResults.map((entity, idx) => (
+                                <div key={`${entity.id}-${idx}`} className="bg-nexus-900 border border-slate-700 rounded-lg p-4 flex flex-col gap-2 relative">
+                                    <span className="absolute top-2 right-2 text-xs font-mono text-slate-600">#{idx + 1}</span>
+                                    <span className="self-start px-2 py-0.5 rounded-full text-xs font-bold uppercase border border-white/10 bg-slate-800 text-slate-300 tracking-widest">{EntityUtils.getRarity(entity)}</span>
+                                    <h4 className="text-lg font-bold text-white pr-6 truncate">{entity.name}</h4>
+                                    <p className="text-xs text-slate-400 italic line-clamp-3">{EntityUtils.getDescription(entity)}</p>
+                                    {renderQuantities(rollQuantities[idx], false)}
+                                    <div className="flex flex-wrap gap-1 mt-auto">{entity.tags.map(t => (<span key={t} className="text-xs px-1.5 py-0.5 bg-black/40 text-slate-500 rounded border border-slate-700/50 uppercase">{t}</span>))}</div>
+                                </div>
+                            ))}
+                        </div>
+                        {renderSeedBar('mt-3 justify-end')}
                     </div>
                 ) : (
                     <div className="text-slate-600 flex flex-col items-center animate-pulse"><Activity size={48} className="mb-2 opacity-50" /><span className="text-sm font-mono uppercase tracking-widest">{s('roller.awaitingInput')}</span></div>
@@ -147,10 +399,13 @@ const Roller: React.FC<{ embedded?: boolean, initialPool?: string, onRollComplet
             {!embedded && (
                 <div className="h-48 bg-black/80 border border-slate-800 rounded-xl p-4 font-mono text-xs text-slate-400 overflow-y-auto custom-scrollbar shadow-inner">
                     <div className="flex items-center gap-2 text-nexus-accent font-bold uppercase mb-2 border-b border-slate-800 pb-2 sticky top-0 bg-black/80 w-full"><Activity size={12} /> {s('roller.executionLog')}</div>
-                    {rollLog.map((l, i) => (<div key={i} className={`py-0.5 ${l.startsWith('Winner:') ? 'text-green-400 font-bold' : ''} ${l.includes('Filtered') ? 'text-orange-400' : ''}`}><span className="opacity-30 mr-2">[{i}]</span>{l}</div>))}
+                    {rollLog.map((l, i) => (<div key={i} className={`py-0.5 ${l.startsWith('Winner:') || l.startsWith('Draw ') ? 'text-green-400 font-bold' : ''} ${l.includes('Filtered') ? 'text-orange-400' : ''} ${l.startsWith('Rule ') ? 'text-purple-400' : ''} ${l.startsWith('Seed:') ? 'text-sky-400' : ''} ${l.startsWith('Affinity:') ? 'text-teal-400' : ''} ${l.startsWith('Quantity ') ? 'text-amber-300' : ''}`}><span className="opacity-30 mr-2">[{i}]</span>{l}</div>))}
                 </div>
             )}
         </div>
+        {deck && (
+            <DeckPeekModal isOpen={isPeekOpen} onClose={() => setIsPeekOpen(false)} deck={deck} candidates={candidates} onReturnCard={returnCard} />
+        )}
     </div>
   );
 };
@@ -1,12 +1,127 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useWorld } from '../hooks/useWorld';
-import { Rule, RuleReference } from '../types';
-import { Workflow, Plus, Trash2, Save, X, BookOpen, Link2, AlertTriangle, FileText } from 'lucide-react';
-import { NexusButton, NexusInput, NexusModal, NexusTextArea } from '../components/ui';
+import { Rule, RuleReference, RuleEffect, RuleEffectType, World } from '../types';
+import { Workflow, Plus, Trash2, Save, X, BookOpen, Link2, AlertTriangle, FileText, Zap } from 'lucide-react';
+import { NexusButton, NexusInput, NexusModal, NexusSelect, NexusTextArea } from '../components/ui';
 import { useToast } from '../contexts/ToastContext';
 import { NexusEntityPicker } from '../components/NexusEntityPicker';
 import { useStrings } from '../lib/translations';
 
+const RuleEffectsEditor: React.FC<{ rule: Rule; world: World; onChange: (rule: Rule) => void }> = ({ rule, world, onChange }) => {
+  const { s } = useStrings();
+  const effects = rule.effects || [];
+  const rarityLabels = (world.config.raritySettings?.levels || []).map(l => l.label);
+  // Raw text while typing; split into tags on blur so commas and spaces can be typed
+  const [tagsDraft, setTagsDraft] = useState<string | null>(null);
+
+  useEffect(() => { setTagsDraft(null); }, [rule.id]);
+
+  const updateEffect = (idx: number, patch: Partial<RuleEffect>) => {
+      const next = effects.map((e, i) => i === idx ? { ...e, ...patch } : e);
+      onChange({ ...rule, effects: next });
+  };
+
+  // A cleared field leaves the boost unset rather than NaN
+  const updateBoost = (idx: number, raw: string) => {
+      const value = parseFloat(raw);
+      updateEffect(idx, { value: Number.isFinite(value) ? value : undefined });
+  };
+
+  const addEffect = () => {
+      onChange({ ...rule, effects: [...effects, { type: 'ban', targetType: 'tag', target: '' }] });
+  };
+
+  const removeEffect = (idx: number) => {
+      onChange({ ...rule, effects: effects.filter((_, i) => i !== idx) });
+  };
+
+  const changeType = (idx: number, type: RuleEffectType) => {
+      const current = effects[idx];
+      const value = type === 'boost' ? 2 : type === 'forceRarity' ? (rarityLabels[0] || '') : undefined;
+      // 'all' only makes sense for bans
+      const targetType = type !== 'ban' && current.targetType === 'all' ? 'tag' : current.targetType;
+      updateEffect(idx, { type, value, targetType });
+  };
+
+  const contextTagsValue = tagsDraft ?? (rule.condition?.contextTags || []).join(', ');
+
+  const commitContextTags = () => {
+      if (tagsDraft === null) return;
+      onChange({ ...rule, condition: { ...rule.condition, contextTags: tagsDraft.split(',').map(t => t.trim()).filter(Boolean) } });
+      setTagsDraft(null);
+  };
+  const poolValue = rule.condition?.pools?.[0] || '';
+
+  return (
+      <div className="bg-nexus-900/50 border border-slate-700/50 rounded-lg p-3 space-y-3 shrink-0 max-h-64 overflow-y-auto custom-scrollbar">
+          <div className="flex justify-between items-center">
+              <span className="text-xs font-bold uppercase text-slate-400 flex items-center gap-2"><Zap size={12} className="text-purple-400" /> {s('rules.effects.title')}</span>
+              <button onClick={addEffect} className="text-xs font-bold text-nexus-accent hover:text-white flex items-center gap-1"><Plus size={12} /> {s('rules.effects.add')}</button>
+          </div>
+          <div className="flex gap-2">
+              <div className="flex-1">
+                  <NexusInput
+                      label={s('rules.effects.whenTags')}
+                      value={contextTagsValue}
+                      placeholder={s('rules.effects.whenTagsPlaceholder')}
+                      onChange={e => setTagsDraft(e.target.value)}
+                      onBlur={commitContextTags}
+                      className="text-xs"
+                  />
+              </div>
+              <div className="w-48">
+                  <NexusSelect
+                      label={s('rules.effects.pool')}
+                      value={poolValue}
+                      onChange={e => onChange({ ...rule, condition: { ...rule.condition, pools: e.target.value ? [e.target.value] : [] } })}
+                      className="text-xs"
+                  >
+                      <option value="">{s('rules.effects.anyPool')}</option>
+                      {Object.keys(world.pools).map(p => <option key={p} value={p}>{p}</option>)}
+                  </NexusSelect>
+              </div>
+          </div>
+          {effects.length === 0 && <div className="text-xs text-slate-500 italic">{s('rules.effects.none')}</div>}
+          {effects.map((effect, idx) => (
+              <div key={idx} className="flex gap-2 items-center">
+                  <div className="w-32">
+                      <NexusSelect value={effect.type} onChange={e => changeType(idx, e.target.value as RuleEffectType)} className="text-xs">
+                          <option value="ban">{s('rules.effects.type.ban')}</option>
+                          <option value="boost">{s('rules.effects.type.boost')}</option>
+                          <option value="forceRarity">{s('rules.effects.type.forceRarity')}</option>
+                      </NexusSelect>
+                  </div>
+                  <div className="w-28">
+                      <NexusSelect value={effect.targetType} onChange={e => updateEffect(idx, { targetType: e.target.value as RuleEffect['targetType'] })} className="text-xs">
+                          <option value="tag">{s('rules.effects.target.tag')}</option>
+                          <option value="item">{s('rules.effects.target.item')}</option>
+                          {effect.type === 'ban' && <option value="all">{s('rules.effects.target.all')}</option>}
+                      </NexusSelect>
+                  </div>
+                  <div className="flex-1">
+                      {effect.targetType !== 'all' && (
+                          <NexusInput value={effect.target} onChange={e => updateEffect(idx, { target: e.target.value })} placeholder={effect.targetType === 'tag' ? s('rules.effects.placeholder.tag') : s('rules.effects.placeholder.item')} className="text-xs font-mono" />
+                      )}
+                  </div>
+                  {effect.type === 'boost' && (
+                      <div className="w-20">
+                          <NexusInput type="number" min={0} step={0.5} value={effect.value ?? ''} onChange={e => updateBoost(idx, e.target.value)} className="text-xs" />
+                      </div>
+                  )}
+                  {effect.type === 'forceRarity' && (
+                      <div className="w-28">
+                          <NexusSelect value={String(effect.value ?? '')} onChange={e => updateEffect(idx, { value: e.target.value })} className="text-xs">
+                              {rarityLabels.map(l => <option key={l} value={l}>{l}</option>)}
+                          </NexusSelect>
+                      </div>
+                  )}
+                  <button onClick={() => removeEffect(idx)} className="text-slate-500 hover:text-red-400 transition-colors"><Trash2 size={14} /></button>
+              </div>
+          ))}
+      </div>
+  );
+};
+
 const Rules: React.FC = () => {
   const { currentWorld, worldManager, refreshWorld } = useWorld();
   const { toast } = useToast();
@@ -19,6 +134,8 @@ const Rules: React.FC = () => {
   
   if (!currentWorld) return null;
 
+  const executableCount = currentWorld.rules.filter(r => (r.effects?.length || 0) > 0).length;
+
   // Handlers
   const handleSelectRule = (rule: Rule) => {
       setSelectedRuleId(rule.id);
@@ -119,7 +236,9 @@ const Rules: React.FC = () => {
             </div>
             <div className="flex gap-3">
                 <div className="text-xs text-slate-500 bg-nexus-900 border border-slate-700 px-3 py-1.5 rounded flex items-center gap-2">
-                    <FileText size={14} /> Descriptive Mode Active
+                    {executableCount > 0
+                        ? <><Zap size={14} className="text-purple-400" /> {s('rules.badge.executable', { count: executableCount })}</>
+                        : <><FileText size={14} /> Descriptive Mode Active</>}
                 </div>
             </div>
         </header>
@@ -141,6 +260,11 @@ const Rules: React.FC = () => {
                             <span className="text-xs bg-slate-800 px-1.5 py-0.5 rounded text-slate-500 font-mono">
                                 {rule.references?.length || 0} Links
                             </span>
+                            {(rule.effects?.length || 0) > 0 && (
+                                <span className="ml-1 text-xs bg-purple-900/30 px-1.5 py-0.5 rounded text-purple-400 font-mono border border-purple-500/20">
+                                    {s('rules.badge.effects', { count: rule.effects!.length })}
+                                </span>
+                            )}
                             <button onClick={(e) => { e.stopPropagation(); setDeleteRuleId(rule.id); }} className="absolute right-2 top-2 opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 p-1 rounded hover:bg-black/20 transition-all"><Trash2 size={14} /></button>
                         </div>
                     ))}
@@ -185,6 +309,8 @@ const Rules: React.FC = () => {
                                 />
                             </div>
 
+                            <RuleEffectsEditor rule={editingRule} world={currentWorld} onChange={setEditingRule} />
+
                             <div className="flex-1 relative">
                                 <NexusTextArea 
                                     value={editingRule.content}
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useWorld } from '../hooks/useWorld';
+import { UniversalEntity } from '../types';
+import { Bookmark, Edit3, Trash2, Save, AlertTriangle, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { NexusButton, NexusInput, NexusModal } from '../components/ui';
+import { QueryFeedback } from '../components/QueryFeedback';
+import { useToast } from '../contexts/ToastContext';
+import { EntityUtils } from '../utils/entityUtils';
+import { QueryUtils } from '../utils/queryUtils';
+import { db } from '../services/db';
+import { useStrings } from '../lib/translations';
+
+const PAGE_SIZE = 48;
+
+// A saved query rendered as a read-only list; entities open in their own pool for editing
+const SavedView: React.FC = () => {
+  const { viewId } = useParams<{ viewId: string }>();
+  const navigate = useNavigate();
+  const { currentWorld, worldManager, refreshWorld } = useWorld();
+  const { toast } = useToast();
+  const { s } = useStrings();
+
+  const view = currentWorld?.savedViews?.find(v => v.id === viewId);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const [draftDescription, setDraftDescription] = useState('');
+  const [draftQuery, setDraftQuery] = useState('');
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const [items, setItems] = useState<Array<UniversalEntity & { poolName: string }>>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+
+  const queryText = isEditing ? draftQuery : view?.query || '';
+  const parsedQuery = useMemo(
+      () => currentWorld ? QueryUtils.parse(queryText, currentWorld) : null,
+      [queryText, currentWorld]
+  );
+
+  useEffect(() => {
+      setIsEditing(false);
+      setPage(1);
+  }, [viewId]);
+
+  useEffect(() => {
+      if (!currentWorld || !parsedQuery) return;
+      let active = true;
+      setLoading(true);
+      db.queryEntities(currentWorld.id, parsedQuery, page, PAGE_SIZE)
+          .then(result => {
+              if (!active) return;
+              setItems(result.items);
+              setTotal(result.total);
+          })
+          .catch(e => console.error("Failed to run saved view", e))
+          .finally(() => { if (active) setLoading(false); });
+      return () => { active = false; };
+  }, [currentWorld, parsedQuery, page]);
+
+  if (!currentWorld) return null;
+
+  if (!view) {
+      return <div className="p-12 text-center text-slate-500 italic">{s('savedViews.notFound')}</div>;
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const startEditing = () => {
+      setDraftName(view.name);
+      setDraftDescription(view.description || '');
+      setDraftQuery(view.query);
+      setIsEditing(true);
+      setPage(1);
+  };
+
+  const handleSave = async () => {
+      if (!draftName.trim()) return;
+      await worldManager.saveSavedView(currentWorld.id, {
+          ...view,
+          name: draftName.trim(),
+          description: draftDescription.trim() || undefined,
+          query: draftQuery.trim()
+      });
+      refreshWorld();
+      setIsEditing(false);
+      toast({ title: s('savedViews.toast.saved'), message: draftName.trim(), type: "success" });
+  };
+
+  const confirmDelete = async () => {
+      await worldManager.deleteSavedView(currentWorld.id, view.id);
+      setIsDeleteOpen(false);
+      refreshWorld();
+      toast({ title: s('savedViews.toast.deleted'), message: view.name, type: "info" });
+      navigate(`/world/${currentWorld.id}/edit`);
+  };
+
+  return (
+    <div className="flex flex-col gap-6 animate-fade-in">
+        <header className="flex justify-between items-start gap-4">
+            {isEditing ? (
+                <div className="flex-1 space-y-3">
+                    <NexusInput label={s('savedViews.field.name')} value={draftName} onChange={e => setDraftName(e.target.value)} placeholder={s('savedViews.placeholder.name')} autoFocus />
+                    <NexusInput label={s('savedViews.field.description')} value={draftDescription} onChange={e => setDraftDescription(e.target.value)} />
+                    <NexusInput label={s('savedViews.field.query')} value={draftQuery} onChange={e => setDraftQuery(e.target.value)} placeholder={s('savedViews.placeholder.query')} title={s('query.help')} className="font-mono" />
+                </div>
+            ) : (
+                <div className="min-w-0">
+                    <h2 className="text-3xl font-bold text-slate-100 flex items-center gap-3 truncate">
+                        <Bookmark className="text-nexus-accent shrink-0" /> {view.name}
+                    </h2>
+                    {view.description && <p className="text-slate-400 mt-1">{view.description}</p>}
+                    <code className="text-xs text-slate-500 font-mono mt-2 block break-all">{view.query}</code>
+                </div>
+            )}
+            <div className="flex gap-2 shrink-0">
+                {isEditing ? (
+                    <>
+                        <NexusButton variant="ghost" onClick={() => setIsEditing(false)}>{s('common.cancel')}</NexusButton>
+                        <NexusButton onClick={handleSave} disabled={!draftName.trim()}><Save size={14} /> {s('common.save')}</NexusButton>
+                    </>
+                ) : (
+                    <>
+                        <NexusButton variant="ghost" onClick={startEditing} title={s('savedViews.edit')}><Edit3 size={14} /> {s('savedViews.edit')}</NexusButton>
+                        <NexusButton variant="ghost" onClick={() => setIsDeleteOpen(true)} title={s('savedViews.delete')}><Trash2 size={14} /></NexusButton>
+                    </>
+                )}
+            </div>
+        </header>
+
+        {parsedQuery && <QueryFeedback query={parsedQuery} total={total} />}
+
+        {loading && items.length === 0 ? (
+            <div className="flex justify-center p-12 text-slate-500"><Loader2 className="animate-spin" /></div>
+        ) : items.length === 0 ? (
+            <div className="p-12 text-center text-slate-500 italic border border-dashed border-slate-700 rounded-xl">{s('savedViews.empty')}</div>
+        ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+                {items.map(e => {
+                    const pool = currentWorld.pools[e.poolName];
+                    const themeColor = pool?.color || '#3b82f6';
+                    const rarityLabel = e.components['rarity'] ? EntityUtils.getRarity(e) : null;
+                    const rarityColor = currentWorld.config.raritySettings?.levels.find(l => l.label === rarityLabel)?.color || themeColor;
+                    const description = EntityUtils.getDescription(e);
+                    return (
+                        <div
+                            key={e.id}
+                            onClick={() => navigate(`/world/${currentWorld.id}/pool/${e.poolName}?entity=${e.id}`)}
+                            title={s('savedViews.openInPool', { pool: e.poolName })}
+                            className="bg-nexus-800 border border-white/10 p-4 rounded-xl cursor-pointer flex flex-col shadow-lg transition-all h-48 overflow-hidden hover:shadow-xl hover:-translate-y-1"
+                            style={{ borderLeft: `4px solid ${themeColor}` }}
+                        >
+                            <div className="font-bold text-slate-100 mb-1 truncate">{e.name}</div>
+                            <div className="flex items-center gap-2 mb-2 shrink-0">
+                                <span className="text-xs font-mono px-1.5 py-0.5 rounded bg-nexus-900" style={{ color: themeColor }}>{e.poolName}</span>
+                                {rarityLabel && (
+                                    <span className="text-xs uppercase font-bold px-2 py-0.5 rounded text-white" style={{ backgroundColor: rarityColor }}>{rarityLabel}</span>
+                                )}
+                            </div>
+                            {description && <div className="text-xs text-slate-400 leading-relaxed flex-1 overflow-hidden">{description}</div>}
+                            {e.tags.length > 0 && (
+                                <div className="text-xs text-slate-500 truncate mt-2 shrink-0">
+                                    {e.tags.map(t => `#${currentWorld.tags[t]?.label || t}`).join(' ')}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+
+        {totalPages > 1 && (
+            <div className="flex justify-center items-center gap-4 text-slate-500 text-sm">
+                <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page <= 1} className="hover:text-white disabled:opacity-30"><ChevronLeft size={16} /></button>
+                <span className="font-mono">{page} / {totalPages}</span>
+                <button onClick={() => setPage(p => Math.min(totalPages, p + 1))} disabled={page >= totalPages} className="hover:text-white disabled:opacity-30"><ChevronRight size={16} /></button>
+            </div>
+        )}
+
+        <NexusModal isOpen={isDeleteOpen} onClose={() => setIsDeleteOpen(false)} title={<span className="text-red-400 flex items-center gap-2"><AlertTriangle size={20}/> {s('savedViews.delete')}</span>}>
+            <div className="space-y-4">
+                <p className="text-slate-300">{s('savedViews.confirmDelete', { name: view.name })}</p>
+                <div className="flex justify-end gap-2"><NexusButton variant="ghost" onClick={() => setIsDeleteOpen(false)}>{s('common.cancel')}</NexusButton><NexusButton variant="destructive" onClick={confirmDelete}>{s('common.delete')}</NexusButton></div>
+            </div>
+        </NexusModal>
+    </div>
+  );
+};
+
+export default SavedView;
@@ -0,0 +1,287 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useWorld } from '../hooks/useWorld';
+import { WorldSnapshot } from '../types';
+import { Camera, Trash2, RotateCcw, GitFork, GitCompare, AlertTriangle, Loader2 } from 'lucide-react';
+import { NexusButton, NexusInput, NexusModal } from '../components/ui';
+import { useToast } from '../contexts/ToastContext';
+import { db } from '../services/db';
+import { PackageUtils, WorldDiff, EntitySummary } from '../utils/packageUtils';
+import { RevisionUtils } from '../utils/revisionUtils';
+import { formatBytes } from '../lib/utils';
+import { useStrings } from '../lib/translations';
+
+// Long entity lists are cut off; the summary line still has the full counts
+const MAX_LISTED = 100;
+
+const Snapshots: React.FC = () => {
+  const { currentWorld, worldManager, refreshWorld } = useWorld();
+  const { toast } = useToast();
+  const { s } = useStrings();
+  const navigate = useNavigate();
+
+  const [snapshots, setSnapshots] = useState<WorldSnapshot[]>([]);
+  const [selected, setSelected] = useState<WorldSnapshot | null>(null);
+  const [newName, setNewName] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [diff, setDiff] = useState<WorldDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [forkName, setForkName] = useState<string | null>(null);
+
+  const worldId = currentWorld?.id;
+
+  const loadSnapshots = async () => {
+      if (!worldId) return;
+      setSnapshots(await db.listSnapshots(worldId));
+  };
+
+  useEffect(() => {
+      loadSnapshots();
+      setSelected(null);
+      setDiff(null);
+  }, [worldId]);
+
+  if (!currentWorld) return null;
+
+  const fail = (e: unknown) => toast({ title: s('snapshots.toast.failed'), message: e instanceof Error ? e.message : String(e), type: "error" });
+
+  const handleTake = async () => {
+      setIsWorking(true);
+      try {
+          const name = newName.trim() || s('snapshots.defaultName', { date: new Date().toLocaleString() });
+          const snapshot = await worldManager.createSnapshot(currentWorld.id, name, 'manual');
+          setNewName('');
+          await loadSnapshots();
+          if (snapshot) toast({ title: s('snapshots.toast.taken'), message: `${snapshot.name} · ${formatBytes(snapshot.size)}`, type: "success" });
+      } catch (e) {
+          fail(e);
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const handleSelect = (snapshot: WorldSnapshot) => {
+      setSelected(snapshot);
+      setDiff(null);
+      setExpandedId(null);
+  };
+
+  const handleCompare = async () => {
+      if (!selected) return;
+      setIsComparing(true);
+      try {
+          const [snapshotPkg, currentPkg] = await Promise.all([
+              db.getSnapshotPackage(selected.id),
+              db.getFullWorldPackage(currentWorld.id)
+          ]);
+          if (snapshotPkg && currentPkg) setDiff(PackageUtils.diff(snapshotPkg, currentPkg));
+      } catch (e) {
+          fail(e);
+      } finally {
+          setIsComparing(false);
+      }
+  };
+
+  const handleRestore = async () => {
+      if (!selected) return;
+      setConfirmRestore(false);
+      setIsWorking(true);
+      try {
+          await worldManager.restoreSnapshot(selected.id);
+          refreshWorld();
+          setDiff(null);
+          await loadSnapshots();
+          toast({ title: s('snapshots.toast.restored'), message: selected.name, type: "success" });
+      } catch (e) {
+          fail(e);
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const handleFork = async () => {
+      if (!selected || !forkName?.trim()) return;
+      setIsWorking(true);
+      try {
+          const result = await worldManager.forkSnapshot(selected.id, forkName.trim());
+          if (!result.ok) throw result.error;
+          const world = result.value;
+          setForkName(null);
+          toast({ title: s('snapshots.toast.forked'), message: world.name, type: "success" });
+          navigate(`/world/${world.id}/edit`);
+      } catch (e) {
+          fail(e);
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const handleDelete = async () => {
+      if (!selected) return;
+      setConfirmDelete(false);
+      await db.deleteSnapshot(selected.id);
+      setSelected(null);
+      setDiff(null);
+      await loadSnapshots();
+  };
+
+  const renderEntityList = (title: string, items: EntitySummary[], color: string) => items.length > 0 && (
+      <div>
+          <div className={`text-xs font-bold uppercase mb-1 ${color}`}>{title} ({items.length})</div>
+          <div className="space-y-0.5">
+              {items.slice(0, MAX_LISTED).map(item => (
+                  <div key={item.id} className="text-xs flex gap-2"><span className="text-slate-200 truncate">{item.name}</span><span className="text-slate-500 font-mono">{item.pool}</span></div>
+              ))}
+              {items.length > MAX_LISTED && <div className="text-xs italic text-slate-500">{s('snapshots.diff.more', { count: items.length - MAX_LISTED })}</div>}
+          </div>
+      </div>
+  );
+
+  const isIdentical = diff && diff.meta.length + diff.added.length + diff.removed.length + diff.modified.length === 0;
+
+  return (
+    <div className="h-[calc(100vh-6rem)] flex flex-col animate-fade-in">
+        <header className="mb-6 flex justify-between items-end shrink-0 gap-4">
+            <div>
+                <h2 className="text-3xl font-bold text-slate-100 flex items-center gap-3">
+                    <Camera className="text-nexus-accent" /> {s('snapshots.title')}
+                </h2>
+                <p className="text-slate-400">{s('snapshots.subtitle')}</p>
+            </div>
+            <div className="flex gap-2 items-center w-96">
+                <div className="flex-1"><NexusInput value={newName} onChange={e => setNewName(e.target.value)} placeholder={s('snapshots.placeholder.name')} /></div>
+                <NexusButton onClick={handleTake} disabled={isWorking} icon={<Camera size={14} />}>{s('snapshots.take')}</NexusButton>
+            </div>
+        </header>
+
+        <div className="flex flex-1 gap-8 overflow-hidden min-h-0">
+            {/* LEFT: Snapshot List */}
+            <div className="w-80 bg-nexus-800 border border-slate-700 rounded-xl overflow-hidden flex flex-col shadow-lg shrink-0">
+                <div className="p-4 border-b border-slate-700 bg-nexus-900">
+                    <span className="text-xs font-bold uppercase text-slate-500">{s('snapshots.listTitle')}</span>
+                </div>
+                <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
+                    {snapshots.length === 0 && <div className="text-center p-8 text-slate-500 text-sm italic">{s('snapshots.none')}</div>}
+                    {snapshots.map(snapshot => (
+                        <div key={snapshot.id} onClick={() => handleSelect(snapshot)} className={`p-3 rounded-lg cursor-pointer border transition-all ${selected?.id === snapshot.id ? 'bg-nexus-accent/10 border-nexus-accent shadow-md' : 'bg-nexus-900 border-slate-700 hover:border-slate-500'}`}>
+                            <h4 className={`font-bold text-sm truncate ${selected?.id === snapshot.id ? 'text-nexus-accent' : 'text-slate-300'}`}>{snapshot.name}</h4>
+                            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500 mt-1">
+                                <span className="px-1.5 rounded bg-nexus-800 border border-slate-600 uppercase font-bold">{s(`snapshots.reason.${snapshot.reason}`)}</span>
+                                <span className="font-mono">{new Date(snapshot.created).toLocaleString()}</span>
+                            </div>
+                            <div className="text-xs text-slate-500 font-mono mt-1">{formatBytes(snapshot.size)} · {s('snapshots.entities', { count: snapshot.entityCount })}</div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* RIGHT: Actions + Diff */}
+            <div className="flex-1 bg-nexus-800 border border-slate-700 rounded-xl p-6 overflow-y-auto custom-scrollbar shadow-lg">
+                {!selected ? (
+                    <div className="h-full flex items-center justify-center text-slate-500 italic">{s('snapshots.selectHint')}</div>
+                ) : (
+                    <div className="space-y-6">
+                        <div className="flex flex-wrap justify-between items-start gap-4 border-b border-slate-700 pb-4">
+                            <div>
+                                <h3 className="text-xl font-bold text-slate-100">{selected.name}</h3>
+                                <div className="text-xs text-slate-500 font-mono mt-1">{new Date(selected.created).toLocaleString()} · {formatBytes(selected.size)} · {s('snapshots.entities', { count: selected.entityCount })}</div>
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                <NexusButton variant="ghost" onClick={handleCompare} disabled={isComparing} icon={<GitCompare size={14} />}>{s('snapshots.compare')}</NexusButton>
+                                <NexusButton variant="ghost" onClick={() => setForkName(`${selected.name} (Fork)`)} disabled={isWorking} icon={<GitFork size={14} />}>{s('snapshots.fork')}</NexusButton>
+                                <NexusButton onClick={() => setConfirmRestore(true)} disabled={isWorking} icon={<RotateCcw size={14} />}>{s('snapshots.restore')}</NexusButton>
+                                <NexusButton variant="ghost" onClick={() => setConfirmDelete(true)} title={s('snapshots.delete')}><Trash2 size={14} /></NexusButton>
+                            </div>
+                        </div>
+
+                        {isComparing && <div className="flex items-center gap-2 text-slate-500 text-sm"><Loader2 size={14} className="animate-spin" /> {s('snapshots.comparing')}</div>}
+
+                        {diff && isIdentical && <div className="text-sm text-green-400">{s('snapshots.diff.identical')}</div>}
+
+                        {diff && !isIdentical && (
+                            <div className="space-y-5">
+                                <div className="text-sm text-slate-300">{s('snapshots.diff.summary', { added: diff.added.length, removed: diff.removed.length, modified: diff.modified.length, meta: diff.meta.length })}</div>
+
+                                {diff.meta.length > 0 && (
+                                    <div>
+                                        <div className="text-xs font-bold uppercase mb-1 text-slate-400">{s('snapshots.diff.meta')}</div>
+                                        <div className="space-y-0.5 text-xs">
+                                            {diff.meta.map((change, i) => (
+                                                <div key={i} className="flex gap-2">
+                                                    <span className={change.kind === 'added' ? 'text-green-400' : change.kind === 'removed' ? 'text-red-400' : 'text-amber-300'}>{change.kind === 'added' ? '+' : change.kind === 'removed' ? '−' : '~'}</span>
+                                                    <span className="text-slate-500">{s(`snapshots.section.${change.section}`)}</span>
+                                                    <span className="text-slate-200">{change.label}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {renderEntityList(s('snapshots.diff.added'), diff.added, 'text-green-400')}
+                                {renderEntityList(s('snapshots.diff.removed'), diff.removed, 'text-red-400')}
+
+                                {diff.modified.length > 0 && (
+                                    <div>
+                                        <div className="text-xs font-bold uppercase mb-1 text-amber-300">{s('snapshots.diff.modified')} ({diff.modified.length})</div>
+                                        <div className="space-y-1">
+                                            {diff.modified.slice(0, MAX_LISTED).map(item => (
+                                                <div key={item.id} className="bg-nexus-900 border border-slate-700 rounded">
+                                                    <button onClick={() => setExpandedId(expandedId === item.id ? null : item.id)} className="w-full flex gap-2 items-center text-xs px-2 py-1.5 text-left">
+                                                        <span className="text-slate-200 truncate">{item.name}</span>
+                                                        <span className="text-slate-500 font-mono">{item.pool}</span>
+                                                        {item.movedFrom && <span className="text-slate-500 italic">{s('snapshots.diff.movedFrom', { pool: item.movedFrom })}</span>}
+                                                        <span className="ml-auto text-slate-500">{s('history.changes', { count: item.changes.length })}</span>
+                                                    </button>
+                                                    {expandedId === item.id && (
+                                                        <ul className="px-3 pb-2 space-y-0.5 text-xs font-mono">
+                                                            {item.changes.map((change, i) => (
+                                                                <li key={i} className="flex gap-2 break-all">
+                                                                    <span className="text-slate-400 shrink-0">{change.path}</span>
+                                                                    {change.kind !== 'added' && <span className="text-slate-500 line-through">{RevisionUtils.formatValue(change.before)}</span>}
+                                                                    {change.kind === 'changed' && <span className="text-slate-600">→</span>}
+                                                                    {change.kind !== 'removed' && <span className="text-slate-200">{RevisionUtils.formatValue(change.after)}</span>}
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    )}
+                                                </div>
+                                            ))}
+                                            {diff.modified.length > MAX_LISTED && <div className="text-xs italic text-slate-500">{s('snapshots.diff.more', { count: diff.modified.length - MAX_LISTED })}</div>}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+
+        <NexusModal isOpen={confirmRestore} onClose={() => setConfirmRestore(false)} title={<span className="flex items-center gap-2"><RotateCcw size={20} className="text-nexus-accent"/> {s('snapshots.modal.restoreTitle')}</span>}>
+            <div className="space-y-4">
+                <p className="text-slate-300">{s('snapshots.modal.restoreQuestion', { name: selected?.name || '' })}</p>
+                <div className="flex justify-end gap-2"><NexusButton variant="ghost" onClick={() => setConfirmRestore(false)}>{s('common.cancel')}</NexusButton><NexusButton onClick={handleRestore}>{s('snapshots.restore')}</NexusButton></div>
+            </div>
+        </NexusModal>
+
+        <NexusModal isOpen={forkName !== null} onClose={() => setForkName(null)} title={<span className="flex items-center gap-2"><GitFork size={20} className="text-nexus-accent"/> {s('snapshots.modal.forkTitle')}</span>}>
+            <div className="space-y-4">
+                <NexusInput label={s('snapshots.modal.forkName')} value={forkName || ''} onChange={e => setForkName(e.target.value)} autoFocus />
+                <div className="flex justify-end gap-2"><NexusButton variant="ghost" onClick={() => setForkName(null)}>{s('common.cancel')}</NexusButton><NexusButton onClick={handleFork} disabled={isWorking || !forkName?.trim()}>{s('snapshots.fork')}</NexusButton></div>
+            </div>
+        </NexusModal>
+
+        <NexusModal isOpen={confirmDelete} onClose={() => setConfirmDelete(false)} title={<span className="text-red-400 flex items-center gap-2"><AlertTriangle size={20}/> {s('snapshots.delete')}</span>}>
+            <div className="space-y-4">
+                <p className="text-slate-300">{s('snapshots.modal.deleteQuestion', { name: selected?.name || '' })}</p>
+                <div className="flex justify-end gap-2"><NexusButton variant="ghost" onClick={() => setConfirmDelete(false)}>{s('common.cancel')}</NexusButton><NexusButton variant="destructive" onClick={handleDelete}>{s('common.delete')}</NexusButton></div>
+            </div>
+        </NexusModal>
+    </div>
+  );
+};
+
+export default Snapshots;
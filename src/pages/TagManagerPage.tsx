@@ -4,7 +4,7 @@ import { Trash2, Save, Edit3, Tag, Globe, Plus, AlertTriangle, Loader2 } from 'l
 import { NexusModal, NexusButton, NexusInput, NexusTextArea } from '../components/ui';
 import { NexusSourceLayout, SourceOption } from '../components/NexusSourceLayout';
 import { TagChip } from '../components/TagChip';
-import { normalizeTagId } from '../services/worldManager';
+import { normalizeTagId } from '../utils/entityUtils';
 import { useToast } from '../contexts/ToastContext';
 import { db } from '../services/db';
 import { useStrings } from '../lib/translations';
@@ -27,6 +27,7 @@ const TagManagerPage: React.FC = () => {
     const [editingTagId, setEditingTagId] = useState<string | null>(null);
     const [editName, setEditName] = useState('');
     const [editDesc, setEditDesc] = useState('');
+    const [editOpposites, setEditOpposites] = useState('');
 
     // Migration State
     const [migrationCandidate, setMigrationCandidate] = useState<{ oldId: string, newId: string, newLabel: string } | null>(null);
@@ -180,6 +181,7 @@ const TagManagerPage: React.FC = () => {
         setEditingTagId(tagId);
         setEditName(def?.label || tagId);
         setEditDesc(def?.description || '');
+        setEditOpposites((def?.opposites || []).join(', '));
     };
 
     const handlePreSave = async () => {
@@ -191,7 +193,7 @@ const TagManagerPage: React.FC = () => {
              return;
         } 
         try {
-            await worldManager.updateTagDefinition(currentWorld.id, editName, editDesc);
+            await worldManager.updateTagDefinition(currentWorld.id, editName, editDesc, editOpposites.split(',').map(o => o.trim()).filter(Boolean));
             toast({ title: s('tagManager.toast.saved.title'), message: s('tagManager.toast.saved.message'), type: "success" });
             setEditingTagId(null);
             refreshWorld();
@@ -204,7 +206,12 @@ const TagManagerPage: React.FC = () => {
         if (!migrationCandidate) return;
         setIsMigrating(true);
         try {
-             const count = await worldManager.renameTag(currentWorld.id, migrationCandidate.oldId, migrationCandidate.newLabel);
+             const result = await worldManager.renameTag(currentWorld.id, migrationCandidate.oldId, migrationCandidate.newLabel);
+             if (!result.ok) {
+                 toast({ title: s('tagManager.toast.migrationFailed.title'), message: result.error.message, type: "error" });
+                 return;
+             }
+             const count = result.value;
              toast({ title: s('tagManager.toast.migrationComplete.title'), message: s('tagManager.toast.migrationComplete.message', { count, label: migrationCandidate.newLabel }), type: "success" });
              setMigrationCandidate(null);
              setEditingTagId(null);
@@ -250,6 +257,7 @@ const TagManagerPage: React.FC = () => {
                                         <div className="space-y-4">
                                             <NexusInput label={s('tagManager.field.label')} value={editName} onChange={e => setEditName(e.target.value)} autoFocus />
                                             <NexusTextArea label={s('tagManager.field.description')} value={editDesc} onChange={e => setEditDesc(e.target.value)} className="h-20 text-xs" />
+                                            <NexusInput label={s('tagManager.field.opposites')} value={editOpposites} onChange={e => setEditOpposites(e.target.value)} placeholder={s('tagManager.placeholder.opposites')} className="text-xs" />
                                             <div className="flex justify-end gap-2 pt-2 border-t border-slate-800">
                                                 <button onClick={() => setEditingTagId(null)} className="px-3 py-1.5 rounded text-xs text-slate-400 hover:bg-white/5">{s('tagManager.button.cancel')}</button>
                                                 <NexusButton onClick={handlePreSave} className="h-8 text-xs" icon={<Save size={12}/>}>{s('tagManager.button.save')}</NexusButton>
@@ -270,6 +278,9 @@ const TagManagerPage: React.FC = () => {
                                         ) : (
                                             <p className="text-xs text-slate-600 italic mt-2">{s('tagManager.noDescription')}</p>
                                         )}
+                                        {tag.opposites && tag.opposites.length > 0 && (
+                                            <p className="text-xs text-slate-500 mt-2">{s('tagManager.opposes', { tags: tag.opposites.join(', ') })}</p>
+                                        )}
                                     </div>
                                     <div className="flex flex-col gap-1 ml-2">
                                         <button onClick={() => startEdit(tag.id)} className="text-slate-600 hover:text-nexus-accent opacity-0 group-hover:opacity-100 transition-all p-1.5 rounded hover:bg-nexus-900"><Edit3 size={14}/></button>
@@ -303,7 +303,8 @@ export function createAIWorldBuilder(provider: AIProvider) {
                     category: poolDef.name
                 };
 
-                await worldManager.registerComponentDefinition(worldId, finalDef, poolDef.name);
+                const registered = await worldManager.registerComponentDefinition(worldId, finalDef, poolDef.name);
+                if (!registered.ok) throw registered.error;
 
                 if (compDef.suggestedRelationshipVerbs && compDef.suggestedRelationshipVerbs.length > 0) {
                     const liveWorld = await worldManager.loadWorld(worldId, true);
@@ -548,6 +549,9 @@ export function createAIWorldBuilder(provider: AIProvider) {
                 completed++;
             }
 
+            // Baseline restore point: later edits can be diffed against or rolled back to the generated world
+            await worldManager.createSnapshot(world.id, `AI build: ${arch.worldName}`, 'ai-build');
+
             onProgress({ stage: 'Complete', message: `World Ready. Total Cost: ${totalTokens} tokens.`, progress: 100 });
             return world.id;
         }
@@ -1,7 +1,11 @@
 // nexus-generator/src/services/db.ts
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { World, UniversalEntity, RulebookPackage } from '../types';
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import { World, UniversalEntity, RulebookPackage, RollHistoryEntry, RollDeck, EntityRevision, RevisionSource, WorldSnapshot } from '../types';
 import { RollCandidate } from './rollerEngine';
+import { SearchUtils } from '../utils/searchUtils';
+import { EntityQuery, QueryUtils } from '../utils/queryUtils';
+import { WorldOperationError } from './worldErrors';
+import { MigrationUtils, MigrationReport } from '../utils/migrationUtils';
 
 interface NexusDB extends DBSchema {
   worlds: {
@@ -10,23 +14,126 @@ interface NexusDB extends DBSchema {
   };
   entities: {
     key: string;
-    // EXTENDED TYPE: We inject 'activeComponents' for indexing purposes
+    // EXTENDED TYPE: We inject 'activeComponents' and 'searchTokens' for indexing purposes
     value: UniversalEntity & { 
         worldId: string; 
         poolName: string; 
-        activeComponents: string[] 
+        activeComponents: string[];
+        searchTokens?: string[]; // "<worldId>:<token>", see SearchUtils.buildIndexTokens
     };
     indexes: { 
         'by-world-pool': [string, string]; 
         'by-world': string;
         'by-tag': string; 
         'by-component': string; 
+        'by-token': string;
     };
   };
+  rollHistory: {
+    key: string;
+    value: RollHistoryEntry;
+    indexes: {
+        'by-world-time': [string, number];
+    };
+  };
+  decks: {
+    key: string;
+    value: RollDeck;
+    indexes: {
+        'by-world': string;
+    };
+  };
+  revisions: {
+    key: string;
+    value: EntityRevision;
+    indexes: {
+        'by-entity-time': [string, number];
+        'by-world-time': [string, number];
+        'by-batch': string;
+    };
+  };
+  snapshots: {
+    key: string;
+    value: WorldSnapshot;
+    indexes: {
+        'by-world': string;
+    };
+  };
+  // Kept apart from 'snapshots' so listing never loads whole worlds
+  snapshotData: {
+    key: string;
+    value: { id: string; package: RulebookPackage };
+  };
+}
+
+type StoredEntity = NexusDB['entities']['value'];
+// Any read-write transaction that includes the 'revisions' store
+type EntityWriteTransaction = IDBPTransaction<NexusDB, ArrayLike<StoreNames<NexusDB>>, 'readwrite'>;
+
+/**
+ * Handle passed to `runWorldTransaction` work functions. Everything goes through one
+ * IndexedDB transaction, so work must only await these methods: awaiting anything
+ * else (network, timers) lets the transaction auto-commit early.
+ */
+export interface WorldTransaction {
+    world: World; // Saved when the work resolves; mutate it in place
+    getPoolEntities(poolName: string): Promise<UniversalEntity[]>;
+    getEntitiesWithTag(tagId: string): Promise<Array<UniversalEntity & { poolName: string }>>;
+    // With a `source`, the change is recorded as a revision in the transaction's batch
+    putEntity(poolName: string, entity: UniversalEntity, source?: RevisionSource | null): Promise<void>;
+    deleteEntity(id: string): Promise<void>;
+    moveDeck(oldPool: string, newPool: string): Promise<void>;
+    deleteDeck(poolName: string): Promise<void>;
 }
 
 const DB_NAME = 'nexus-core-db';
-const DB_VERSION = 4; 
+const DB_VERSION = 10; 
+
+// Upper bound on index hits loaded for ranking, so one very common word can't load a whole world
+const MAX_RANKED_CANDIDATES = 2000;
+
+// Older revisions of an entity are pruned past this count
+const MAX_REVISIONS_PER_ENTITY = 50;
+
+// Strips index bookkeeping so snapshots and comparisons only see entity data.
+// Also takes entities that were read from the store and handed back by the UI.
+const toEntity = ({ worldId, poolName, activeComponents, searchTokens, ...entity }: UniversalEntity & Partial<StoredEntity>): UniversalEntity => entity;
+
+const sameEntity = (a: UniversalEntity, b: UniversalEntity) => JSON.stringify(a) === JSON.stringify(b);
+
+const prepareEntity = (worldId: string, poolName: string, entity: UniversalEntity): StoredEntity => ({
+    ...entity,
+    worldId,
+    poolName,
+    // Dynamically index which components this entity actually possesses
+    activeComponents: entity.components ? Object.keys(entity.components) : [],
+    // Rebuilt on every write, so the token index never goes stale
+    searchTokens: SearchUtils.buildIndexTokens(worldId, entity)
+});
+
+// Any read-write (or upgrade) transaction over the worlds and entities stores
+type WorldDataTransaction = IDBPTransaction<NexusDB, ArrayLike<StoreNames<NexusDB>>, 'readwrite' | 'versionchange'>;
+
+/**
+ * Runs MigrationUtils over one stored world and its entities, writing back only what
+ * changed. Returns null when the world is already current.
+ */
+const migrateStoredWorld = async (tx: WorldDataTransaction, world: World): Promise<MigrationReport | null> => {
+    if (!MigrationUtils.needsMigration(world)) return null;
+    const entityStore = tx.objectStore('entities');
+    const records = await entityStore.index('by-world').getAll(world.id);
+    const entities = records.map(toEntity);
+    const before = entities.map(entity => JSON.stringify(entity));
+
+    const report = MigrationUtils.migrate(world, entities);
+    for (let i = 0; i < records.length; i++) {
+        if (JSON.stringify(entities[i]) !== before[i]) {
+            await entityStore.put(prepareEntity(world.id, records[i].poolName, entities[i]));
+        }
+    }
+    await tx.objectStore('worlds').put(world);
+    return report;
+};
 
 class DatabaseService {
   private dbPromise: Promise<IDBPDatabase<NexusDB>>;
@@ -57,6 +164,50 @@ class DatabaseService {
                 entityStore.createIndex('by-component', 'activeComponents', { multiEntry: true });
             }
         }
+        if (oldVersion < 5) {
+            const historyStore = db.createObjectStore('rollHistory', { keyPath: 'id' });
+            historyStore.createIndex('by-world-time', ['worldId', 'timestamp']);
+        }
+        if (oldVersion < 6) {
+            const deckStore = db.createObjectStore('decks', { keyPath: 'id' });
+            deckStore.createIndex('by-world', 'worldId');
+        }
+        if (oldVersion < 7) {
+            const entityStore = transaction.objectStore('entities');
+            if (!entityStore.indexNames.contains('by-token')) {
+                entityStore.createIndex('by-token', 'searchTokens', { multiEntry: true });
+            }
+            // Backfill the full-text index for entities saved before it existed
+            let cursor = await entityStore.openCursor();
+            while (cursor) {
+                const ent = cursor.value;
+                await cursor.update({ ...ent, searchTokens: SearchUtils.buildIndexTokens(ent.worldId, ent) });
+                cursor = await cursor.continue();
+            }
+        }
+        if (oldVersion < 8) {
+            const revisionStore = db.createObjectStore('revisions', { keyPath: 'id' });
+            revisionStore.createIndex('by-entity-time', ['entityId', 'timestamp']);
+            revisionStore.createIndex('by-world-time', ['worldId', 'timestamp']);
+            revisionStore.createIndex('by-batch', 'batchId');
+        }
+        if (oldVersion < 9) {
+            const snapshotStore = db.createObjectStore('snapshots', { keyPath: 'id' });
+            snapshotStore.createIndex('by-world', 'worldId');
+            db.createObjectStore('snapshotData', { keyPath: 'id' });
+        }
+        // Data shape changes live in MigrationUtils, not here. Bumping DB_VERSION together
+        // with CURRENT_SCHEMA_VERSION upgrades every stored world when the app next opens.
+        if (oldVersion > 0) {
+            for (const world of await transaction.objectStore('worlds').getAll()) {
+                try {
+                    await migrateStoredWorld(transaction, world);
+                } catch (e) {
+                    // Leave it as is rather than fail to open the database; loading it reports the error
+                    console.error(`Could not migrate world ${world.id}`, e);
+                }
+            }
+        }
       },
     });
   }
@@ -65,6 +216,10 @@ class DatabaseService {
 
   async saveWorld(world: World): Promise<void> {
     const db = await this.dbPromise;
+    await db.put('worlds', this.toWorldRecord(world));
+  }
+
+  private toWorldRecord(world: World): World {
     const { pools, ...metaData } = world;
     
     // Light save: Don't duplicate entity data in the 'worlds' store
@@ -78,8 +233,7 @@ class DatabaseService {
         });
     }
 
-    const worldPayload = { ...metaData, pools: lightPools } as World;
-    await db.put('worlds', worldPayload);
+    return { ...metaData, pools: lightPools } as World;
   }
 
   async loadWorldMeta(id: string): Promise<World | undefined> {
@@ -87,6 +241,16 @@ class DatabaseService {
     return db.get('worlds', id);
   }
 
+  // Brings a stored world written by an older build up to the current data version
+  async migrateWorld(id: string): Promise<MigrationReport | null> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['worlds', 'entities'], 'readwrite');
+    const world = await tx.objectStore('worlds').get(id);
+    const report = world ? await migrateStoredWorld(tx, world) : null;
+    await tx.done;
+    return report;
+  }
+
   async listWorlds(): Promise<{ id: string; name: string; type: string }[]> {
     const db = await this.dbPromise;
     const worlds = await db.getAll('worlds');
@@ -95,7 +259,7 @@ class DatabaseService {
 
   async deleteWorld(id: string): Promise<void> {
     const db = await this.dbPromise;
-    const tx = db.transaction(['worlds', 'entities'], 'readwrite');
+    const tx = db.transaction(['worlds', 'entities', 'rollHistory', 'decks', 'revisions', 'snapshots', 'snapshotData'], 'readwrite');
     await tx.objectStore('worlds').delete(id);
     const entityStore = tx.objectStore('entities');
     const index = entityStore.index('by-world');
@@ -105,39 +269,104 @@ class DatabaseService {
         deletePromises.push(entityStore.delete(cursor.primaryKey));
         cursor = await cursor.continue();
     }
+    const historyStore = tx.objectStore('rollHistory');
+    let historyCursor = await historyStore.index('by-world-time').openKeyCursor(this.worldTimeRange(id));
+    while (historyCursor) {
+        deletePromises.push(historyStore.delete(historyCursor.primaryKey));
+        historyCursor = await historyCursor.continue();
+    }
+    const deckStore = tx.objectStore('decks');
+    let deckCursor = await deckStore.index('by-world').openKeyCursor(IDBKeyRange.only(id));
+    while (deckCursor) {
+        deletePromises.push(deckStore.delete(deckCursor.primaryKey));
+        deckCursor = await deckCursor.continue();
+    }
+    const revisionStore = tx.objectStore('revisions');
+    let revisionCursor = await revisionStore.index('by-world-time').openKeyCursor(this.worldTimeRange(id));
+    while (revisionCursor) {
+        deletePromises.push(revisionStore.delete(revisionCursor.primaryKey));
+        revisionCursor = await revisionCursor.continue();
+    }
+    const snapshotKeys = await tx.objectStore('snapshots').index('by-world').getAllKeys(IDBKeyRange.only(id));
+    snapshotKeys.forEach(key => {
+        deletePromises.push(tx.objectStore('snapshots').delete(key));
+        deletePromises.push(tx.objectStore('snapshotData').delete(key));
+    });
     await Promise.all(deletePromises);
     await tx.done;
   }
 
   // --- ENTITY OPERATIONS ---
-  private prepareEntity(worldId: string, poolName: string, entity: UniversalEntity) {
-      return {
-          ...entity,
-          worldId,
-          poolName,
-          // Dynamically index which components this entity actually possesses
-          activeComponents: entity.components ? Object.keys(entity.components) : []
-      };
-  }
-
-  async saveEntity(worldId: string, poolName: string, entity: UniversalEntity): Promise<void> {
+  /**
+   * Writes an entity and records the change as a revision in the same transaction.
+   * The revision is 'create' when the entity is new; pass `source: null` to skip
+   * history (e.g. imports). Saves that change nothing record no revision.
+   */
+  async saveEntity(worldId: string, poolName: string, entity: UniversalEntity, source: RevisionSource | null = 'edit'): Promise<void> {
     const db = await this.dbPromise;
-    await db.put('entities', this.prepareEntity(worldId, poolName, entity));
+    const tx = db.transaction(['entities', 'revisions'], 'readwrite');
+    const store = tx.objectStore('entities');
+    if (source) {
+        const existing = await store.get(entity.id);
+        await this.recordRevision(tx, {
+            worldId, poolName, entityId: entity.id,
+            source: existing ? source : 'create',
+            before: existing ? toEntity(existing) : null,
+            after: entity
+        });
+    }
+    await store.put(prepareEntity(worldId, poolName, entity));
+    await tx.done;
   }
 
-  async saveEntitiesBatch(worldId: string, poolName: string, entities: UniversalEntity[]): Promise<void> {
+  /**
+   * Bulk write. With a `source`, every changed entity gets a revision sharing one
+   * batch ID, so the whole operation can be reverted with `revertBatch`.
+   */
+  async saveEntitiesBatch(worldId: string, poolName: string, entities: UniversalEntity[], source: RevisionSource | null = null): Promise<void> {
     const db = await this.dbPromise;
-    const tx = db.transaction('entities', 'readwrite');
+    const tx = db.transaction(['entities', 'revisions'], 'readwrite');
     const store = tx.objectStore('entities');
+    const batchId = crypto.randomUUID();
+    const existing = source ? await Promise.all(entities.map(ent => store.get(ent.id))) : [];
     await Promise.all([
-        ...entities.map(ent => store.put(this.prepareEntity(worldId, poolName, ent))),
+        ...entities.map(async (ent, idx) => {
+            if (source) {
+                const previous = existing[idx];
+                await this.recordRevision(tx, {
+                    worldId, poolName, entityId: ent.id, batchId,
+                    source: previous ? source : 'create',
+                    before: previous ? toEntity(previous) : null,
+                    after: ent
+                });
+            }
+            await store.put(prepareEntity(worldId, poolName, ent));
+        }),
         tx.done
     ]);
   }
 
+  // History goes with the entity
   async deleteEntity(id: string): Promise<void> {
     const db = await this.dbPromise;
-    await db.delete('entities', id);
+    const tx = db.transaction(['entities', 'revisions'], 'readwrite');
+    const revisionStore = tx.objectStore('revisions');
+    const revisionKeys = await revisionStore.index('by-entity-time').getAllKeys(this.entityTimeRange(id));
+    await Promise.all([
+        tx.objectStore('entities').delete(id),
+        ...revisionKeys.map(key => revisionStore.delete(key)),
+        tx.done
+    ]);
+  }
+
+  /**
+   * Loads entities by ID in the given order. Missing IDs are skipped.
+   */
+  async getEntitiesByIds(ids: string[]): Promise<UniversalEntity[]> {
+    const db = await this.dbPromise;
+    const tx = db.transaction('entities', 'readonly');
+    const found = await Promise.all(ids.map(id => tx.store.get(id)));
+    return found.filter((e): e is NonNullable<typeof e> => !!e).map(toEntity);
   }
 
   async getEntitiesForPoolPaginated(
@@ -157,7 +386,7 @@ class DatabaseService {
     if (offset > 0) await cursor.advance(offset);
     
     while (cursor && items.length < pageSize) {
-        items.push(cursor.value);
+        items.push(toEntity(cursor.value));
         cursor = await cursor.continue();
     }
     return { items, total };
@@ -168,7 +397,9 @@ class DatabaseService {
    */
   async getEntitiesForPool(worldId: string, poolName: string): Promise<UniversalEntity[]> {
     const db = await this.dbPromise;
-    return db.getAllFromIndex('entities', 'by-world-pool', [worldId, poolName]);
+    const items = await db.getAllFromIndex('entities', 'by-world-pool', [worldId, poolName]);
+    // The token list is index bookkeeping and would bloat exports
+    return items.map(({ searchTokens, ...ent }) => ent);
   }
 
   // --- AGGREGATION ---
@@ -262,43 +493,94 @@ class DatabaseService {
           .map(entry => entry[0]);
   }
 
-  async migrateTag(worldId: string, oldTagId: string, newTagId: string): Promise<number> {
-    const db = await this.dbPromise;
-    const tx = db.transaction('entities', 'readwrite');
-    const index = tx.store.index('by-tag');
-    let cursor = await index.openCursor(IDBKeyRange.only(oldTagId));
-    let count = 0;
+  // --- TRANSACTIONS ---
 
-    while (cursor) {
-        const ent = cursor.value;
-        if (ent.worldId === worldId) {
-            const newTags = new Set(ent.tags);
-            newTags.delete(oldTagId);
-            newTags.add(newTagId);
-            const updated = { ...ent, tags: Array.from(newTags) };
-            cursor.update(updated);
-            count++;
+  /**
+   * Runs a multi-step world change atomically across the worlds, entities, revisions
+   * and decks stores. If `work` throws, the transaction is aborted and nothing it
+   * wrote is kept; the error is rethrown as a WorldOperationError. `initial` seeds
+   * the world record when it does not exist yet (imports, forks).
+   */
+  async runWorldTransaction<T>(worldId: string, work: (txn: WorldTransaction) => Promise<T>, initial?: World): Promise<T> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['worlds', 'entities', 'revisions', 'decks'], 'readwrite');
+    // Aborting rejects `done`; the error that caused the abort is reported instead
+    tx.done.catch(() => {});
+    const entityStore = tx.objectStore('entities');
+    const revisionStore = tx.objectStore('revisions');
+    const deckStore = tx.objectStore('decks');
+    const batchId = crypto.randomUUID();
+
+    try {
+        const world = (await tx.objectStore('worlds').get(worldId)) || initial;
+        if (!world) throw new WorldOperationError('not-found', `World '${worldId}' not found.`);
+
+        const txn: WorldTransaction = {
+            world,
+            getPoolEntities: async (poolName) =>
+                (await entityStore.index('by-world-pool').getAll(IDBKeyRange.only([worldId, poolName]))).map(toEntity),
+            getEntitiesWithTag: async (tagId) =>
+                (await entityStore.index('by-tag').getAll(IDBKeyRange.only(tagId)))
+                    .filter(record => record.worldId === worldId)
+                    .map(record => ({ ...toEntity(record), poolName: record.poolName })),
+            putEntity: async (poolName, entity, source = null) => {
+                if (source) {
+                    const previous = await entityStore.get(entity.id);
+                    await this.recordRevision(tx, {
+                        worldId, poolName, entityId: entity.id, batchId,
+                        source: previous ? source : 'create',
+                        before: previous ? toEntity(previous) : null,
+                        after: entity
+                    });
+                }
+                await entityStore.put(prepareEntity(worldId, poolName, entity));
+            },
+            deleteEntity: async (id) => {
+                const revisionKeys = await revisionStore.index('by-entity-time').getAllKeys(this.entityTimeRange(id));
+                await Promise.all([entityStore.delete(id), ...revisionKeys.map(key => revisionStore.delete(key))]);
+            },
+            moveDeck: async (oldPool, newPool) => {
+                const deck = await deckStore.get(this.deckKey(worldId, oldPool));
+                if (!deck) return;
+                await deckStore.put({ ...deck, pool: newPool, id: this.deckKey(worldId, newPool) });
+                await deckStore.delete(this.deckKey(worldId, oldPool));
+            },
+            deleteDeck: async (poolName) => {
+                await deckStore.delete(this.deckKey(worldId, poolName));
+            }
+        };
+
+        const result = await work(txn);
+        await tx.objectStore('worlds').put(this.toWorldRecord(txn.world));
+        await tx.done;
+        return result;
+    } catch (e) {
+        try {
+            tx.abort();
+        } catch {
+            // Already committed or aborted by IndexedDB itself
         }
-        cursor = await cursor.continue();
+        throw WorldOperationError.from(e);
     }
-    await tx.done;
-    return count;
   }
 
   // --- EXPORT / ROLLER ---
 
   async getFullWorldPackage(worldId: string): Promise<RulebookPackage | null> {
+      await this.migrateWorld(worldId);
       const world = await this.loadWorldMeta(worldId);
       if (!world) return null;
+      const db = await this.dbPromise;
       const poolNames = Object.keys(world.pools);
       const entityGroups = await Promise.all(
-          poolNames.map(name => this.getEntitiesForPool(worldId, name))
+          poolNames.map(name => db.getAllFromIndex('entities', 'by-world-pool', [worldId, name]))
       );
       poolNames.forEach((name, idx) => {
-          world.pools[name].entities = entityGroups[idx];
+          world.pools[name].entities = entityGroups[idx].map(toEntity);
       });
       return {
           version: '5.1-DynamicECS',
+          schemaVersion: MigrationUtils.versionOf(world),
           exportDate: Date.now(),
           world
       };
@@ -329,12 +611,372 @@ class DatabaseService {
     return candidates;
   }
 
-  async searchEntities(worldId: string, query: string, limit: number = 50, poolName?: string): Promise<UniversalEntity[]> {
+  // --- ROLL HISTORY ---
+
+  private worldTimeRange(worldId: string) {
+    return IDBKeyRange.bound([worldId, -Infinity], [worldId, Infinity]);
+  }
+
+  async saveRollHistoryEntry(entry: RollHistoryEntry): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('rollHistory', entry);
+  }
+
+  /**
+   * Newest first. Pool filtering happens during the scan; history stays small enough per world.
+   */
+  async getRollHistory(worldId: string, poolName?: string, limit: number = 200): Promise<RollHistoryEntry[]> {
+    const db = await this.dbPromise;
+    let cursor = await db.transaction('rollHistory').store.index('by-world-time').openCursor(this.worldTimeRange(worldId), 'prev');
+    const entries: RollHistoryEntry[] = [];
+    while (cursor && entries.length < limit) {
+        if (!poolName || cursor.value.pool === poolName) entries.push(cursor.value);
+        cursor = await cursor.continue();
+    }
+    return entries;
+  }
+
+  async deleteRollHistoryEntry(id: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('rollHistory', id);
+  }
+
+  async clearRollHistory(worldId: string, poolName?: string): Promise<number> {
+    const db = await this.dbPromise;
+    const tx = db.transaction('rollHistory', 'readwrite');
+    let cursor = await tx.store.index('by-world-time').openCursor(this.worldTimeRange(worldId));
+    let count = 0;
+    while (cursor) {
+        if (!poolName || cursor.value.pool === poolName) {
+            cursor.delete();
+            count++;
+        }
+        cursor = await cursor.continue();
+    }
+    await tx.done;
+    return count;
+  }
+
+  // --- REVISIONS ---
+
+  private entityTimeRange(entityId: string) {
+    return IDBKeyRange.bound([entityId, -Infinity], [entityId, Infinity]);
+  }
+
+  // Stores a revision unless the write is a no-op, then prunes the entity's oldest revisions
+  private async recordRevision(
+      tx: EntityWriteTransaction,
+      revision: Omit<EntityRevision, 'id' | 'timestamp'>
+  ): Promise<void> {
+    const after = toEntity(revision.after);
+    if (revision.before && sameEntity(revision.before, after)) return;
+    const store = tx.objectStore('revisions');
+    await store.put({
+        ...revision,
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        before: revision.before ? JSON.parse(JSON.stringify(revision.before)) : null,
+        after: JSON.parse(JSON.stringify(after))
+    });
+    const keys = await store.index('by-entity-time').getAllKeys(this.entityTimeRange(revision.entityId));
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_REVISIONS_PER_ENTITY)).map(key => store.delete(key)));
+  }
+
+  // Newest first
+  async getEntityRevisions(entityId: string, limit: number = MAX_REVISIONS_PER_ENTITY): Promise<EntityRevision[]> {
+    const db = await this.dbPromise;
+    let cursor = await db.transaction('revisions').store.index('by-entity-time').openCursor(this.entityTimeRange(entityId), 'prev');
+    const revisions: EntityRevision[] = [];
+    while (cursor && revisions.length < limit) {
+        revisions.push(cursor.value);
+        cursor = await cursor.continue();
+    }
+    return revisions;
+  }
+
+  async countBatch(batchId: string): Promise<number> {
+    const db = await this.dbPromise;
+    return db.countFromIndex('revisions', 'by-batch', batchId);
+  }
+
+  /**
+   * Puts an entity back to one side of a revision: 'after' returns to the state that
+   * revision saved, 'before' undoes it. The restore is recorded as a revision too.
+   * Returns null when there is nothing to restore (unknown revision, or undoing a creation).
+   */
+  async restoreRevision(revisionId: string, state: 'before' | 'after' = 'after'): Promise<UniversalEntity | null> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['entities', 'revisions'], 'readwrite');
+    const revision = await tx.objectStore('revisions').get(revisionId);
+    const target = revision?.[state];
+    if (!revision || !target) {
+        await tx.done;
+        return null;
+    }
+    const current = await tx.objectStore('entities').get(revision.entityId);
+    const poolName = current?.poolName || revision.poolName;
+    await this.recordRevision(tx, {
+        worldId: revision.worldId, poolName, entityId: revision.entityId,
+        source: 'restore',
+        before: current ? toEntity(current) : null,
+        after: target
+    });
+    await tx.objectStore('entities').put(prepareEntity(revision.worldId, poolName, target));
+    await tx.done;
+    return target;
+  }
+
+  /**
+   * Undoes a bulk operation. Entities edited since the batch (or deleted) are left
+   * alone and counted as skipped, so later work is never overwritten.
+   */
+  async revertBatch(batchId: string): Promise<{ restored: number, skipped: number }> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['entities', 'revisions'], 'readwrite');
+    const revisions = await tx.objectStore('revisions').index('by-batch').getAll(batchId);
+    const entityStore = tx.objectStore('entities');
+    const restoreBatchId = crypto.randomUUID();
+    let restored = 0;
+    let skipped = 0;
+
+    for (const revision of revisions) {
+        const current = await entityStore.get(revision.entityId);
+        if (!current || !revision.before || !sameEntity(toEntity(current), revision.after)) {
+            skipped++;
+            continue;
+        }
+        await this.recordRevision(tx, {
+            worldId: revision.worldId, poolName: current.poolName, entityId: revision.entityId,
+            batchId: restoreBatchId,
+            source: 'restore',
+            before: toEntity(current),
+            after: revision.before
+        });
+        await entityStore.put(prepareEntity(revision.worldId, current.poolName, revision.before));
+        restored++;
+    }
+    await tx.done;
+    return { restored, skipped };
+  }
+
+  // --- SNAPSHOTS ---
+
+  async saveSnapshot(snapshot: WorldSnapshot, pkg: RulebookPackage): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['snapshots', 'snapshotData'], 'readwrite');
+    await Promise.all([
+        tx.objectStore('snapshots').put(snapshot),
+        tx.objectStore('snapshotData').put({ id: snapshot.id, package: pkg }),
+        tx.done
+    ]);
+  }
+
+  // Newest first
+  async listSnapshots(worldId: string): Promise<WorldSnapshot[]> {
+    const db = await this.dbPromise;
+    const snapshots = await db.getAllFromIndex('snapshots', 'by-world', worldId);
+    return snapshots.sort((a, b) => b.created - a.created);
+  }
+
+  async getSnapshot(id: string): Promise<WorldSnapshot | undefined> {
+    const db = await this.dbPromise;
+    return db.get('snapshots', id);
+  }
+
+  // Snapshots taken by older builds are upgraded on read, so restores and diffs see current shapes
+  async getSnapshotPackage(id: string): Promise<RulebookPackage | null> {
+    const db = await this.dbPromise;
+    const pkg = (await db.get('snapshotData', id))?.package;
+    if (!pkg) return null;
+    MigrationUtils.migratePackage(pkg);
+    return pkg;
+  }
+
+  async deleteSnapshot(id: string): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['snapshots', 'snapshotData'], 'readwrite');
+    await Promise.all([tx.objectStore('snapshots').delete(id), tx.objectStore('snapshotData').delete(id), tx.done]);
+  }
+
+  /**
+   * Replaces a world's metadata and entities with the package contents in one
+   * transaction. Entities that change get 'restore' revisions sharing a batch ID;
+   * entities missing from the package are deleted along with their history.
+   * Decks are not part of packages and are reset, so no discard pile points at
+   * entities from the replaced state.
+   */
+  async replaceWorldContents(pkg: RulebookPackage): Promise<void> {
+    const db = await this.dbPromise;
+    const worldId = pkg.world.id;
+    const tx = db.transaction(['worlds', 'entities', 'revisions', 'decks'], 'readwrite');
+    const entityStore = tx.objectStore('entities');
+    const revisionStore = tx.objectStore('revisions');
+    const batchId = crypto.randomUUID();
+
+    const incoming = new Map<string, { entity: UniversalEntity, pool: string }>();
+    Object.entries(pkg.world.pools || {}).forEach(([pool, data]) => {
+        (data.entities || []).forEach(entity => incoming.set(entity.id, { entity, pool }));
+    });
+
+    const existing = await entityStore.index('by-world').getAll(IDBKeyRange.only(worldId));
+    for (const record of existing) {
+        if (incoming.has(record.id)) continue;
+        const revisionKeys = await revisionStore.index('by-entity-time').getAllKeys(this.entityTimeRange(record.id));
+        await Promise.all([entityStore.delete(record.id), ...revisionKeys.map(key => revisionStore.delete(key))]);
+    }
+
+    const existingById = new Map(existing.map(record => [record.id, record]));
+    for (const [id, { entity, pool }] of incoming) {
+        const current = existingById.get(id);
+        await this.recordRevision(tx, {
+            worldId, poolName: pool, entityId: id, batchId,
+            source: 'restore',
+            before: current ? toEntity(current) : null,
+            after: entity
+        });
+        await entityStore.put(prepareEntity(worldId, pool, entity));
+    }
+
+    const deckStore = tx.objectStore('decks');
+    const deckKeys = await deckStore.index('by-world').getAllKeys(IDBKeyRange.only(worldId));
+    await Promise.all(deckKeys.map(key => deckStore.delete(key)));
+
+    await tx.objectStore('worlds').put(this.toWorldRecord(pkg.world));
+    await tx.done;
+  }
+
+  // --- DECKS ---
+
+  private deckKey(worldId: string, poolName: string) {
+    return `${worldId}:${poolName}`;
+  }
+
+  async getDeck(worldId: string, poolName: string): Promise<RollDeck | undefined> {
+    const db = await this.dbPromise;
+    return db.get('decks', this.deckKey(worldId, poolName));
+  }
+
+  async saveDeck(deck: RollDeck): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('decks', { ...deck, id: this.deckKey(deck.worldId, deck.pool) });
+  }
+
+  async deleteDeck(worldId: string, poolName: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('decks', this.deckKey(worldId, poolName));
+  }
+
+  // Keeps the discard pile when a pool is renamed
+  async moveDeck(worldId: string, oldPool: string, newPool: string): Promise<void> {
+    const deck = await this.getDeck(worldId, oldPool);
+    if (!deck) return;
+    await this.saveDeck({ ...deck, pool: newPool });
+    await this.deleteDeck(worldId, oldPool);
+  }
+
+  /**
+   * Ranked full-text search over entity names, tags and component text, backed by
+   * the 'by-token' index. Every query token must match the start of an indexed word.
+   * Falls back to a name/tag substring scan when the index has no hit, so partial
+   * words in the middle of a name still resolve.
+   */
+  async searchEntities(worldId: string, query: string, limit: number = 50, poolName?: string): Promise<Array<UniversalEntity & { poolName: string }>> {
+    const pool = poolName && poolName !== 'All' ? poolName : undefined;
+    const tokens = Array.from(new Set(SearchUtils.tokenize(query, true)));
+    if (tokens.length === 0) return this.scanEntities(worldId, query, limit, pool);
+
+    const db = await this.dbPromise;
+    const tx = db.transaction('entities', 'readonly');
+    const index = tx.store.index('by-token');
+    const idSets = await Promise.all(tokens.map(async token => {
+        const key = SearchUtils.indexKey(worldId, token);
+        return new Set(await index.getAllKeys(IDBKeyRange.bound(key, key + '\uffff')));
+    }));
+    // The pool scope is one more key set, so the candidate cap below only counts in-scope hits
+    if (pool) idSets.push(new Set(await tx.store.index('by-world-pool').getAllKeys(IDBKeyRange.only([worldId, pool]))));
+    // Intersect starting from the rarest token
+    idSets.sort((a, b) => a.size - b.size);
+    const ids = Array.from(idSets[0])
+        .filter(id => idSets.every(set => set.has(id)))
+        .slice(0, MAX_RANKED_CANDIDATES);
+
+    const found = await Promise.all(ids.map(id => tx.store.get(id)));
+    const matches = found.filter((e): e is NonNullable<typeof e> => !!e && e.worldId === worldId);
+    if (matches.length === 0) return this.scanEntities(worldId, query, limit, pool);
+
+    return matches
+        .map(entity => ({ entity, score: SearchUtils.score(entity, query, tokens) }))
+        .sort((a, b) => b.score - a.score || a.entity.name.localeCompare(b.entity.name))
+        .slice(0, limit)
+        .map(r => ({ ...toEntity(r.entity), poolName: r.entity.poolName }));
+  }
+
+  /**
+   * Runs a structured query (see QueryUtils). Candidates are narrowed by intersecting
+   * primary keys from the pool, tag, component and token indexes; the remaining
+   * filters are then checked on the loaded entities.
+   */
+  async queryEntities(
+      worldId: string,
+      query: EntityQuery,
+      page: number = 1,
+      pageSize: number = 50
+  ): Promise<{ items: Array<UniversalEntity & { poolName: string }>, total: number }> {
+    const matches = await this.collectQueryMatches(worldId, query);
+    const textTokens = QueryUtils.indexTokens(query);
+    const sorted = textTokens.length > 0
+        ? matches
+            .map(entity => ({ entity, score: SearchUtils.score(entity, [...query.terms, ...query.phrases].join(' '), textTokens) }))
+            .sort((a, b) => b.score - a.score || a.entity.name.localeCompare(b.entity.name))
+            .map(r => r.entity)
+        : matches.sort((a, b) => a.name.localeCompare(b.name));
+
+    const offset = (Math.max(1, page) - 1) * pageSize;
+    return { items: sorted.slice(offset, offset + pageSize), total: sorted.length };
+  }
+
+  // Match count only, e.g. for saved view badges
+  async countQuery(worldId: string, query: EntityQuery): Promise<number> {
+    return (await this.collectQueryMatches(worldId, query)).length;
+  }
+
+  private async collectQueryMatches(worldId: string, query: EntityQuery) {
+    const db = await this.dbPromise;
+    const tx = db.transaction('entities', 'readonly');
+    const store = tx.store;
+    const keySets: Set<string>[] = [];
+
+    if (query.pools.length > 0) {
+        const perPool = await Promise.all(query.pools.map(p => store.index('by-world-pool').getAllKeys(IDBKeyRange.only([worldId, p]))));
+        keySets.push(new Set(perPool.flat()));
+    }
+    // Tag and component indexes span every world; the worldId check below filters the rest
+    const tagKeys = await Promise.all(query.tags.map(t => store.index('by-tag').getAllKeys(IDBKeyRange.only(t))));
+    const componentKeys = await Promise.all(query.components.map(c => store.index('by-component').getAllKeys(IDBKeyRange.only(c))));
+    const tokenKeys = await Promise.all(QueryUtils.indexTokens(query).map(token => {
+        const key = SearchUtils.indexKey(worldId, token);
+        return store.index('by-token').getAllKeys(IDBKeyRange.bound(key, key + '\uffff'));
+    }));
+    [...tagKeys, ...componentKeys, ...tokenKeys].forEach(keys => keySets.push(new Set(keys)));
+    if (keySets.length === 0) {
+        keySets.push(new Set(await store.index('by-world').getAllKeys(IDBKeyRange.only(worldId))));
+    }
+
+    keySets.sort((a, b) => a.size - b.size);
+    const ids = Array.from(keySets[0]).filter(id => keySets.every(set => set.has(id)));
+    const found = await Promise.all(ids.map(id => store.get(id)));
+    return found
+        .filter((e): e is NonNullable<typeof e> => !!e && e.worldId === worldId && QueryUtils.matches(e, query, e.poolName))
+        .map(e => ({ ...toEntity(e), poolName: e.poolName }));
+  }
+
+  // Unranked cursor scan matching name or tag substrings; an empty query returns the first `limit` entities
+  private async scanEntities(worldId: string, query: string, limit: number, poolName?: string): Promise<Array<UniversalEntity & { poolName: string }>> {
     const db = await this.dbPromise;
     const tx = db.transaction('entities', 'readonly');
     
     let cursor;
-    if (poolName && poolName !== 'All') {
+    if (poolName) {
         const index = tx.store.index('by-world-pool');
         cursor = await index.openCursor(IDBKeyRange.only([worldId, poolName]));
     } else {
@@ -342,28 +984,13 @@ class DatabaseService {
         cursor = await index.openCursor(IDBKeyRange.only(worldId));
     }
     
-    const results: UniversalEntity[] = [];
+    const results: Array<UniversalEntity & { poolName: string }> = [];
     const lowerQuery = query.toLowerCase().trim();
-    const isQueryEmpty = !lowerQuery;
 
     while (cursor && results.length < limit) {
         const val = cursor.value;
-        if (isQueryEmpty) {
-            results.push(val);
-        } else {
-            if (val.name.toLowerCase().includes(lowerQuery)) {
-                results.push(val);
-            } else {
-                const tags = val.tags;
-                let match = false;
-                for (let i = 0; i < tags.length; i++) {
-                    if (tags[i].toLowerCase().includes(lowerQuery)) {
-                        match = true;
-                        break;
-                    }
-                }
-                if (match) results.push(val);
-            }
+        if (!lowerQuery || val.name.toLowerCase().includes(lowerQuery) || val.tags.some(t => t.toLowerCase().includes(lowerQuery))) {
+            results.push({ ...toEntity(val), poolName: val.poolName });
         }
         cursor = await cursor.continue();
     }
@@ -1,6 +1,8 @@
 // src/services/rollerEngine.ts
-import { Rule, UniversalEntity } from '../types';
-import { EntityUtils } from '../utils/entityUtils';
+import { Rule, RuleEffect, UniversalEntity, WorldConfig, ComponentDefinition, ConstraintOperator, RollConstraint, RollConstraintGroup, RollConstraintNode, RollTable, RollTableStep } from '../types';
+import { SeedUtils, RandomSource } from '../utils/seedUtils';
+import { DiceUtils, DiceRoll } from '../utils/diceUtils';
+import { normalizeTagId } from '../utils/entityUtils';
 
 // --- TYPES ---
 
@@ -12,22 +14,112 @@ export interface RollCandidate {
     original: UniversalEntity; // Access to full component data
 }
 
-export type ConstraintOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'missing' | 'truthy';
+// Constraint types live in types.ts so roll tables can persist them on the World
+export type { ConstraintOperator, RollConstraint, RollConstraintGroup, RollConstraintNode };
 
-export interface RollConstraint {
-    path: string; // e.g. "components.stats.values.cost"
-    operator: ConstraintOperator;
-    value?: any;
+export interface RollOptions {
+    // The world's rarity ladder. When omitted, the legacy English weights are used.
+    raritySettings?: WorldConfig['raritySettings'];
+    // Same seed + candidates + constraints = same winner. Generated when omitted.
+    seed?: string;
+    // Soft preference for candidates sharing tags with the roll context
+    affinity?: AffinityOptions;
+    // Component definitions; 'dice' fields on each winner are rolled as quantities
+    componentRegistry?: Record<string, ComponentDefinition>;
 }
 
-interface ActiveEffects {
+export interface RolledQuantity extends DiceRoll {
+    path: string; // components.<id>.<key>
+    label: string; // "<Component>.<key>" for display
+}
+
+export interface AffinityOptions {
+    contextTags: string[];
+    bonus: number; // Weight multiplier per candidate tag found in the context
+    penalty?: number; // Weight multiplier per candidate tag opposed to a context tag (1 or omitted = off)
+    opposites?: Record<string, string[]>; // Tag ID -> opposite tag IDs, read in both directions
+}
+
+export interface MultiDrawOptions extends RollOptions {
+    count?: number;
+    withReplacement?: boolean;
+}
+
+export interface SimulationOptions extends RollOptions {
+    iterations?: number;
+}
+
+export interface CandidateOdds {
+    item: UniversalEntity;
+    rarity: string; // After forced rarity
+    weight: number;
+    probability: number; // 0..1 for a single draw
+    notes: string[];
+}
+
+export interface RollPreview {
+    entries: CandidateOdds[]; // Most likely first
+    byRarity: { rarity: string; weight: number; probability: number; count: number }[];
+    totalWeight: number;
+    rejectedCount: number;
+    bannedCount: number;
+    zeroWeightCount: number;
+    globalBan: boolean;
+}
+
+export interface SimulationResult {
+    iterations: number;
+    seed: string;
+    counts: Record<string, number>; // Keyed by entity ID
+    rarityCounts: Record<string, number>;
+}
+
+// Tag and item keys are stored lower-cased. Items match by entity ID or name.
+export interface ActiveEffects {
     bans: { global: boolean; tags: Set<string>; items: Set<string> };
     boosts: { tags: Map<string, number>; items: Map<string, number> };
     forcedRarity: { tags: Map<string, string>; items: Map<string, string> };
 }
 
+const createEmptyEffects = (): ActiveEffects => ({
+    bans: { global: false, tags: new Set(), items: new Set() },
+    boosts: { tags: new Map(), items: new Map() },
+    forcedRarity: { tags: new Map(), items: new Map() }
+});
+
 // --- UTILS ---
 
+// Fallback ladder for worlds created before raritySettings existed
+const LEGACY_RARITY_WEIGHTS: Record<string, number> = {
+    common: 50,
+    uncommon: 30,
+    rare: 15,
+    epic: 4,
+    legendary: 1
+};
+const UNKNOWN_RARITY_WEIGHT = 10;
+
+// System component carrying an optional per-entity weight multiplier
+const ROLL_WEIGHT_COMPONENT = 'roll_weight';
+
+/**
+ * Resolves a rarity label (or id) against the world's rarity ladder.
+ * Matches by label (case-insensitive) first, then by level id, so both
+ * '传说' and 'legendary' resolve to the same tier.
+ */
+export const resolveRarityWeight = (rarity: string, raritySettings?: WorldConfig['raritySettings']): number => {
+    const key = String(rarity || '').trim().toLowerCase();
+    const levels = raritySettings?.levels || [];
+
+    const match = levels.find(l => l.label.toLowerCase() === key) || levels.find(l => l.id.toLowerCase() === key);
+    if (match) {
+        const weight = Number(match.weight);
+        return isFinite(weight) && weight >= 0 ? weight : 0;
+    }
+
+    return LEGACY_RARITY_WEIGHTS[key] ?? UNKNOWN_RARITY_WEIGHT;
+};
+
 /**
  * Safely resolves a dot-notation path on an entity.
  * e.g. "components.stats.values.gold" -> 50
@@ -37,7 +129,41 @@ const resolvePath = (obj: any, path: string): any => {
     return path.split('.').reduce((acc, part) => (acc && acc[part] !== undefined) ? acc[part] : undefined, obj);
 };
 
+export const isConstraintGroup = (node: RollConstraintNode): node is RollConstraintGroup =>
+    Array.isArray((node as RollConstraintGroup).children);
+
+// 'in' and 'hasTag' accept either an array or a comma-separated string
+const toList = (value: any): any[] => {
+    if (Array.isArray(value)) return value;
+    return String(value ?? '').split(',').map(v => v.trim()).filter(v => v !== '');
+};
+
+const isBlank = (v: any) => v === undefined || v === null || v === '';
+
+const regexCache = new Map<string, RegExp | null>();
+const compileRegex = (pattern: string): RegExp | null => {
+    if (!regexCache.has(pattern)) {
+        try {
+            regexCache.set(pattern, new RegExp(pattern, 'i'));
+        } catch (e) {
+            regexCache.set(pattern, null); // Invalid patterns never match
+        }
+    }
+    return regexCache.get(pattern)!;
+};
+
+// Negative operators must hold against every referenced value, the rest against any
+const NEGATIVE_OPERATORS: ConstraintOperator[] = ['neq', 'missing'];
+
 const checkConstraint = (entity: UniversalEntity, constraint: RollConstraint): boolean => {
+    // Resolved roll table reference: `value` holds the values taken from earlier results
+    if (constraint.valueFrom) {
+        const values: any[] = Array.isArray(constraint.value) ? constraint.value : [];
+        const check = (v: any) => checkConstraint(entity, { path: constraint.path, operator: constraint.operator, value: v });
+        if (constraint.operator === 'truthy') return check(undefined);
+        return NEGATIVE_OPERATORS.includes(constraint.operator) ? values.every(check) : values.length > 0 && values.some(check);
+    }
+
     const val = resolvePath(entity, constraint.path);
     const target = constraint.value;
 
@@ -56,98 +182,597 @@ const checkConstraint = (entity: UniversalEntity, constraint: RollConstraint): b
              if (Array.isArray(val)) return !val.includes(target);
              return !val; // Checks undefined/null/false
         case 'truthy': return !!val;
+        case 'in': {
+            // Array fields (e.g. tags) match when any element is in the list
+            const options = toList(target).map(o => String(o).toLowerCase());
+            const values = Array.isArray(val) ? val : [val];
+            return values.some(v => !isBlank(v) && options.includes(String(v).toLowerCase()));
+        }
+        case 'between': {
+            // Inclusive; a blank bound leaves that side open ("10," = at least 10)
+            const [min, max] = (Array.isArray(target) ? target : String(target ?? '').split(','))
+                .map(b => String(b ?? '').trim() === '' ? NaN : Number(b));
+            const n = Number(val);
+            if (isBlank(val) || isNaN(n)) return false;
+            return (min === undefined || isNaN(min) || n >= min) && (max === undefined || isNaN(max) || n <= max);
+        }
+        case 'regex': {
+            const re = compileRegex(String(target ?? ''));
+            if (!re) return false;
+            const values = Array.isArray(val) ? val : [val];
+            return values.some(v => !isBlank(v) && re.test(String(v)));
+        }
+        case 'hasTag': {
+            const tags = (entity.tags || []).map(t => t.toLowerCase());
+            return toList(target).some(t => tags.includes(String(t).trim().toLowerCase()));
+        }
         default: return false;
     }
 };
 
+// Empty groups are ignored rather than rejecting the whole pool
+const checkNode = (entity: UniversalEntity, node: RollConstraintNode): boolean => {
+    if (!isConstraintGroup(node)) return checkConstraint(entity, node);
+    if (node.children.length === 0) return true;
+    switch (node.mode) {
+        case 'or': return node.children.some(child => checkNode(entity, child));
+        case 'not': return !node.children.some(child => checkNode(entity, child));
+        default: return node.children.every(child => checkNode(entity, child));
+    }
+};
+
+// Shared with the entity query language, so a filter means the same thing in every screen
+export const matchesConstraints = (entity: UniversalEntity, nodes: RollConstraintNode[]): boolean =>
+    nodes.every(node => checkNode(entity, node));
+
+const countConstraints = (nodes: RollConstraintNode[]): number =>
+    nodes.reduce((sum, node) => sum + (isConstraintGroup(node) ? countConstraints(node.children) : 1), 0);
+
+/**
+ * Renders a constraint tree for the roll log, e.g.
+ * "(rarity in Rare,Epic) AND NOT (hasTag cursed)".
+ */
+export const describeConstraints = (nodes: RollConstraintNode[]): string => {
+    const describeNode = (node: RollConstraintNode): string => {
+        if (!isConstraintGroup(node)) {
+            const value = Array.isArray(node.value) ? node.value.join(',') : node.value;
+            if (node.operator === 'hasTag') return `hasTag ${value}`;
+            if (node.operator === 'truthy' || (node.operator === 'missing' && isBlank(value))) return `${node.path} ${node.operator}`;
+            return `${node.path} ${node.operator} ${value}`;
+        }
+        const inner = node.children.map(describeNode).join(node.mode === 'and' ? ' AND ' : ' OR ');
+        return node.mode === 'not' ? `NOT (${inner})` : `(${inner})`;
+    };
+    return nodes.map(describeNode).join(' AND ');
+};
+
+/**
+ * Replaces a `valueFrom` reference with the values found on an earlier step's results.
+ * Array values (e.g. tags) are flattened, so 'contains' on tags acts as an intersection test.
+ */
+const resolveStepReference = (constraint: RollConstraint, priorResults: UniversalEntity[][]): RollConstraint => {
+    if (!constraint.valueFrom) return constraint;
+    const source = priorResults[constraint.valueFrom.step] || [];
+    const values = source
+        .map(e => resolvePath(e, constraint.valueFrom!.path))
+        .flat()
+        .filter(v => v !== undefined && v !== null && v !== '');
+    return { ...constraint, value: values };
+};
+
+// Context tags are typed by hand, so they are compared as normalized tag IDs
+const isRuleActive = (rule: Rule, contextTags: Set<string>, poolName: string): boolean => {
+    const requiredTags = rule.condition?.contextTags || [];
+    if (requiredTags.some(t => !contextTags.has(normalizeTagId(t)))) return false;
+
+    const pools = rule.condition?.pools || [];
+    if (pools.length > 0 && !pools.includes(poolName)) return false;
+
+    return true;
+};
+
+const describeEffect = (effect: RuleEffect): string => {
+    const target = effect.targetType === 'all' ? 'all items' : `${effect.targetType} '${effect.target}'`;
+    switch (effect.type) {
+        case 'ban': return `ban ${target}`;
+        case 'boost': return `boost ${target} x${effect.value}`;
+        case 'forceRarity': return `force ${target} to ${effect.value}`;
+        default: return `unknown effect on ${target}`;
+    }
+};
+
+/**
+ * Merges a single effect into the accumulated effects.
+ * Returns false when the effect is malformed and was skipped.
+ */
+const applyEffect = (effects: ActiveEffects, effect: RuleEffect): boolean => {
+    const key = String(effect.target || '').trim().toLowerCase();
+    if (effect.targetType !== 'all' && !key) return false;
+    const bucket = effect.targetType === 'tag' ? 'tags' : 'items';
+
+    switch (effect.type) {
+        case 'ban':
+            if (effect.targetType === 'all') effects.bans.global = true;
+            else effects.bans[bucket].add(key);
+            return true;
+        case 'boost': {
+            const multiplier = Number(effect.value);
+            if (effect.targetType === 'all' || !isFinite(multiplier) || multiplier < 0) return false;
+            // Stacking boosts multiply
+            const current = effects.boosts[bucket].get(key) ?? 1;
+            effects.boosts[bucket].set(key, current * multiplier);
+            return true;
+        }
+        case 'forceRarity':
+            if (effect.targetType === 'all' || !effect.value) return false;
+            // Later rules override earlier ones
+            effects.forcedRarity[bucket].set(key, String(effect.value));
+            return true;
+        default:
+            return false;
+    }
+};
+
+interface PreparedAffinity {
+    context: Set<string>;
+    opposed: Map<string, string>; // Candidate tag -> the context tag it opposes
+    bonus: number;
+    penalty: number;
+}
+
+const prepareAffinity = (affinity?: AffinityOptions): PreparedAffinity | null => {
+    if (!affinity) return null;
+    const context = new Set(affinity.contextTags.map(normalizeTagId).filter(Boolean));
+    if (context.size === 0) return null;
+
+    const opposed = new Map<string, string>();
+    Object.entries(affinity.opposites || {}).forEach(([tag, opposites]) => {
+        const a = normalizeTagId(tag);
+        opposites.map(normalizeTagId).forEach(b => {
+            if (context.has(a) && !context.has(b)) opposed.set(b, a);
+            if (context.has(b) && !context.has(a)) opposed.set(a, b);
+        });
+    });
+
+    const bonus = Number(affinity.bonus);
+    const penalty = Number(affinity.penalty ?? 1);
+    return {
+        context,
+        opposed,
+        bonus: isFinite(bonus) && bonus >= 0 ? bonus : 1,
+        penalty: isFinite(penalty) && penalty >= 0 ? penalty : 1
+    };
+};
+
+const describeAffinity = (affinity: PreparedAffinity): string => {
+    const parts = [`x${affinity.bonus} per tag matching [${Array.from(affinity.context).join(', ')}]`];
+    if (affinity.penalty !== 1 && affinity.opposed.size > 0) parts.push(`x${affinity.penalty} per opposite tag`);
+    return `Affinity: ${parts.join(', ')}`;
+};
+
+interface WeightedCandidate {
+    item: UniversalEntity;
+    rarity: string;
+    weight: number;
+    notes: string[]; // Human-readable weight overrides and rule effects applied to this candidate
+}
+
+interface WeightedPool {
+    entries: WeightedCandidate[];
+    totalWeight: number;
+    rejectedCount: number;
+    bannedCount: number;
+    zeroWeightCount: number;
+    globalBan: boolean;
+}
+
+/**
+ * Applies constraints, rule bans, forced rarity and boosts to every candidate.
+ * Candidate order is preserved so seeded selection stays reproducible.
+ */
+const weighCandidates = (
+    candidates: RollCandidate[],
+    activeEffects: ActiveEffects,
+    runtimeConstraints: RollConstraintNode[],
+    options: RollOptions
+): WeightedPool => {
+    const pool: WeightedPool = { entries: [], totalWeight: 0, rejectedCount: 0, bannedCount: 0, zeroWeightCount: 0, globalBan: false };
+    const affinity = prepareAffinity(options.affinity);
+
+    if (activeEffects.bans.global) {
+        pool.globalBan = true;
+        return pool;
+    }
+
+    for (const candidate of candidates) {
+        const original = candidate.original;
+
+        // A. Hard Constraints (Logic Filters)
+        // "Cost < 50", "Has Icon", etc.
+        if (runtimeConstraints.some(node => !checkNode(original, node))) {
+            pool.rejectedCount++;
+            continue;
+        }
+
+        // B. Rule Bans
+        const itemKeys = [candidate.id.toLowerCase(), candidate.name.toLowerCase()];
+        const tagKeys = (candidate.tags || []).map(t => t.toLowerCase());
+        if (itemKeys.some(k => activeEffects.bans.items.has(k)) || tagKeys.some(t => activeEffects.bans.tags.has(t))) {
+            pool.bannedCount++;
+            continue;
+        }
+
+        // C. Weight Calculation (World Rarity Ladder)
+        const notes: string[] = [];
+        let finalRarity = candidate.rarity;
+        const forcedKey = itemKeys.find(k => activeEffects.forcedRarity.items.has(k));
+        const forcedTag = tagKeys.find(t => activeEffects.forcedRarity.tags.has(t));
+        const forced = forcedKey
+            ? activeEffects.forcedRarity.items.get(forcedKey)
+            : forcedTag ? activeEffects.forcedRarity.tags.get(forcedTag) : undefined;
+        if (forced && forced !== finalRarity) {
+            notes.push(`rarity forced ${finalRarity} -> ${forced}`);
+            finalRarity = forced;
+        }
+        const baseWeight = resolveRarityWeight(finalRarity, options.raritySettings);
+
+        // D. Multipliers from the entity's own override, then rule boosts
+        let multiplier = 1;
+        const override = original.components?.[ROLL_WEIGHT_COMPONENT]?.multiplier;
+        if (override !== undefined && override !== null && override !== '') {
+            const value = Number(override);
+            if (isFinite(value) && value >= 0) {
+                multiplier *= value;
+                if (value !== 1) notes.push(`weight override x${value}`);
+            }
+        }
+        new Set(itemKeys).forEach(k => {
+            const boost = activeEffects.boosts.items.get(k);
+            if (boost !== undefined) { multiplier *= boost; notes.push(`item boost x${boost}`); }
+        });
+        tagKeys.forEach(t => {
+            const boost = activeEffects.boosts.tags.get(t);
+            if (boost !== undefined) { multiplier *= boost; notes.push(`tag '${t}' boost x${boost}`); }
+        });
+
+        // E. Context affinity: soft preference, never a hard filter
+        if (affinity) {
+            const matches = tagKeys.filter(t => affinity.context.has(t));
+            if (matches.length > 0 && affinity.bonus !== 1) {
+                const factor = Math.pow(affinity.bonus, matches.length);
+                multiplier *= factor;
+                notes.push(`affinity x${+factor.toFixed(3)} (${matches.join(', ')})`);
+            }
+            const clashes = tagKeys.filter(t => affinity.opposed.has(t));
+            if (clashes.length > 0 && affinity.penalty !== 1) {
+                const factor = Math.pow(affinity.penalty, clashes.length);
+                multiplier *= factor;
+                notes.push(`opposite x${+factor.toFixed(3)} (${clashes.map(t => `${t} vs ${affinity.opposed.get(t)}`).join(', ')})`);
+            }
+        }
+
+        const finalWeight = baseWeight * multiplier;
+        if (finalWeight <= 0) {
+            pool.zeroWeightCount++;
+            continue;
+        }
+        pool.entries.push({ item: original, rarity: finalRarity, weight: finalWeight, notes });
+        pool.totalWeight += finalWeight;
+    }
+
+    return pool;
+};
+
+const describeEmptyPool = (pool: WeightedPool, candidateCount: number): string => {
+    if (pool.globalBan) return 'All candidates banned by an active rule.';
+    if (pool.rejectedCount + pool.bannedCount + pool.zeroWeightCount > 0) {
+        return `All ${candidateCount} candidates were filtered out (${pool.rejectedCount} by constraints, ${pool.bannedCount} by rules, ${pool.zeroWeightCount} by zero weight).`;
+    }
+    return 'Pool is empty.';
+};
+
+const pickWeightedIndex = (entries: WeightedCandidate[], totalWeight: number, random: RandomSource): number => {
+    let remaining = random() * totalWeight;
+    for (let i = 0; i < entries.length; i++) {
+        remaining -= entries[i].weight;
+        if (remaining <= 0) return i;
+    }
+    return entries.length - 1;
+};
+
+// Ladder order for rarity breakdowns; unknown rarities sort last
+const rarityRank = (rarity: string, raritySettings?: WorldConfig['raritySettings']): number => {
+    const key = rarity.toLowerCase();
+    const idx = (raritySettings?.levels || []).findIndex(l => l.label.toLowerCase() === key || l.id.toLowerCase() === key);
+    return idx === -1 ? Number.MAX_SAFE_INTEGER : idx;
+};
+
+const MAX_SIMULATION_ITERATIONS = 1000000;
+
+// Dice use their own stream so adding a quantity field never changes which entities are drawn
+const createDiceRandom = (seed: string): RandomSource => SeedUtils.createRandom(`${seed}:dice`);
+
+const rollQuantities = (
+    entity: UniversalEntity,
+    registry: RollOptions['componentRegistry'],
+    random: RandomSource,
+    log: string[],
+    prefix: string
+): RolledQuantity[] => {
+    if (!registry) return [];
+    const quantities: RolledQuantity[] = [];
+    Object.entries(entity.components || {}).forEach(([compId, data]) => {
+        const def = registry[compId];
+        if (!def || !data) return;
+        def.fields.filter(f => f.type === 'dice').forEach(field => {
+            const raw = data[field.key];
+            if (isBlank(raw)) return;
+            const label = `${def.label}.${field.key}`;
+            const roll = DiceUtils.roll(String(raw), random);
+            if (!roll) {
+                log.push(`${prefix}${label}: invalid dice '${raw}' (skipped)`);
+                return;
+            }
+            quantities.push({ ...roll, path: `components.${compId}.${field.key}`, label });
+            log.push(`${prefix}${label}: ${roll.breakdown} = ${roll.total}`);
+        });
+    });
+    return quantities;
+};
+
 // --- ENGINE ---
 
 export const RollerEngine = {
-    // 1. Compile Rules (Legacy Support - Disabled)
-    // The Rules System is now descriptive only and does not influence probability.
+    // 1. Compile Rules
+    // Only rules carrying structured effects influence probability; the rest stay descriptive.
     compileRules: (rules: Rule[], contextTags: Set<string>, poolName: string) => {
-        const activeEffects: ActiveEffects = {
-            bans: { global: false, tags: new Set(), items: new Set() },
-            boosts: { tags: new Map(), items: new Map() },
-            forcedRarity: { tags: new Map(), items: new Map() }
-        };
-        return { activeRules: [], activeEffects };
+        const activeEffects = createEmptyEffects();
+        const activeRules: Rule[] = [];
+        const log: string[] = [];
+        const normalizedContext = new Set(Array.from(contextTags).map(normalizeTagId));
+
+        for (const rule of rules) {
+            if (!rule.effects || rule.effects.length === 0) continue;
+            if (!isRuleActive(rule, normalizedContext, poolName)) continue;
+
+            activeRules.push(rule);
+            for (const effect of rule.effects) {
+                const applied = applyEffect(activeEffects, effect);
+                log.push(`Rule "${rule.name}": ${describeEffect(effect)}${applied ? '' : ' (skipped: invalid)'}`);
+            }
+        }
+
+        return { activeRules, activeEffects, log };
     },
 
     // 2. The Roll Algorithm (Standard Weight Only)
     roll: (
         candidates: RollCandidate[], 
         activeEffects: ActiveEffects, 
-        runtimeConstraints: RollConstraint[] = []
-    ): { result: UniversalEntity | null, log: string[] } => {
-        const log: string[] = [];
-        
-        // Note: activeEffects are currently always empty as rules are descriptive
+        runtimeConstraints: RollConstraintNode[] = [],
+        options: RollOptions = {}
+    ): { result: UniversalEntity | null, log: string[], seed: string, quantities: RolledQuantity[] } => {
+        const seed = options.seed?.trim() || SeedUtils.generateSeed();
+        const random = SeedUtils.createRandom(seed);
+        const log: string[] = [`Seed: ${seed}`];
+
+        const pool = weighCandidates(candidates, activeEffects, runtimeConstraints, options);
+        if (pool.entries.length === 0) {
+            return { result: null, log: [...log, describeEmptyPool(pool, candidates.length)], seed, quantities: [] };
+        }
+
+        // 3. Selection (Weighted Random)
+        const winner = pool.entries[pickWeightedIndex(pool.entries, pool.totalWeight, random)];
+        const selected = winner.item;
+
+        log.push(`Rolled from ${pool.entries.length} valid candidates (Filtered ${pool.rejectedCount}).`);
+        const affinity = prepareAffinity(options.affinity);
+        if (affinity) log.push(describeAffinity(affinity));
+        if (pool.bannedCount > 0) {
+            log.push(`Banned by rules: ${pool.bannedCount}`);
+        }
+        log.push(`Winner: ${selected.name} (${winner.rarity})`);
+        log.push(`Weight: ${winner.weight} / ${pool.totalWeight} (${((winner.weight / pool.totalWeight) * 100).toFixed(1)}%)`);
+        if (winner.notes.length > 0) {
+            log.push(`Modifiers on winner: ${winner.notes.join(', ')}`);
+        }
+        const quantities = rollQuantities(selected, options.componentRegistry, createDiceRandom(seed), log, 'Quantity ');
+        if (runtimeConstraints.length > 0) {
+            log.push(`Constraints Applied: ${countConstraints(runtimeConstraints)} - ${describeConstraints(runtimeConstraints)}`);
+        }
         
-        const weightedCandidates: { item: UniversalEntity, weight: number }[] = [];
-        let totalWeight = 0;
-        let rejectedCount = 0;
-
-        for (const candidate of candidates) {
-            const original = candidate.original;
-
-            // 2A. Hard Constraints (Logic Filters)
-            // "Cost < 50", "Has Icon", etc.
-            let failsConstraint = false;
-            for (const constraint of runtimeConstraints) {
-                if (!checkConstraint(original, constraint)) {
-                    failsConstraint = true;
-                    break;
-                }
-            }
-            if (failsConstraint) {
-                rejectedCount++;
-                continue;
-            }
+        return { result: selected, log, seed, quantities };
+    },
 
-            // 2C. Weight Calculation
-            let baseWeight = 10; 
-            const finalRarity = candidate.rarity;
-            
-            switch (finalRarity) {
-                case 'Common': baseWeight = 50; break;
-                case 'Uncommon': baseWeight = 30; break;
-                case 'Rare': baseWeight = 15; break;
-                case 'Epic': baseWeight = 4; break;
-                case 'Legendary': baseWeight = 1; break;
-            }
+    // 3. Multi-Draw (N results, with or without replacement)
+    // Uses the same seeded sequence as roll(), so draw #1 matches a single roll with the same seed.
+    rollMany: (
+        candidates: RollCandidate[], 
+        activeEffects: ActiveEffects, 
+        runtimeConstraints: RollConstraintNode[] = [],
+        options: MultiDrawOptions = {}
+    ): { results: UniversalEntity[], log: string[], seed: string, quantities: RolledQuantity[][] } => {
+        const seed = options.seed?.trim() || SeedUtils.generateSeed();
+        const random = SeedUtils.createRandom(seed);
+        const diceRandom = createDiceRandom(seed);
+        const count = Math.max(1, Math.floor(options.count ?? 1));
+        const withReplacement = options.withReplacement ?? false;
+        const log: string[] = [`Seed: ${seed}`];
 
-            // Apply multiplier from effects (currently 1.0)
-            const finalWeight = baseWeight * 1.0;
-            weightedCandidates.push({ item: original, weight: finalWeight });
-            totalWeight += finalWeight;
+        const pool = weighCandidates(candidates, activeEffects, runtimeConstraints, options);
+        if (pool.entries.length === 0) {
+            return { results: [], log: [...log, describeEmptyPool(pool, candidates.length)], seed, quantities: [] };
         }
 
-        if (weightedCandidates.length === 0) {
-            const msg = rejectedCount > 0 
-                ? `All ${candidates.length} candidates were filtered out (${rejectedCount} by constraints).`
-                : 'Pool is empty.';
-            return { result: null, log: [...log, msg] };
+        log.push(`Drawing ${count} from ${pool.entries.length} valid candidates ${withReplacement ? 'with' : 'without'} replacement (Filtered ${pool.rejectedCount}).`);
+        const affinity = prepareAffinity(options.affinity);
+        if (affinity) log.push(describeAffinity(affinity));
+        if (pool.bannedCount > 0) {
+            log.push(`Banned by rules: ${pool.bannedCount}`);
         }
 
-        // 3. Selection (Weighted Random)
-        let random = Math.random() * totalWeight;
-        let selected = weightedCandidates[weightedCandidates.length - 1].item;
+        const remaining = [...pool.entries];
+        let remainingWeight = pool.totalWeight;
+        const results: UniversalEntity[] = [];
+        const quantities: RolledQuantity[][] = [];
 
-        for (const entry of weightedCandidates) {
-            random -= entry.weight;
-            if (random <= 0) {
-                selected = entry.item;
+        for (let draw = 1; draw <= count; draw++) {
+            if (remaining.length === 0) {
+                log.push(`Pool exhausted after ${results.length} draws.`);
                 break;
             }
+            const idx = pickWeightedIndex(remaining, remainingWeight, random);
+            const winner = remaining[idx];
+            const chance = ((winner.weight / remainingWeight) * 100).toFixed(1);
+            results.push(winner.item);
+            log.push(`Draw ${draw}: ${winner.item.name} (${winner.rarity}) - ${chance}%${winner.notes.length > 0 ? ` [${winner.notes.join(', ')}]` : ''}`);
+            quantities.push(rollQuantities(winner.item, options.componentRegistry, diceRandom, log, `Quantity (draw ${draw}) `));
+
+            if (!withReplacement) {
+                remaining.splice(idx, 1);
+                remainingWeight -= winner.weight;
+            }
         }
 
-        log.push(`Rolled from ${weightedCandidates.length} valid candidates (Filtered ${rejectedCount}).`);
-        log.push(`Winner: ${selected.name} (${EntityUtils.getRarity(selected)})`);
         if (runtimeConstraints.length > 0) {
-            log.push(`Constraints Applied: ${runtimeConstraints.length}`);
+            log.push(`Constraints Applied: ${countConstraints(runtimeConstraints)} - ${describeConstraints(runtimeConstraints)}`);
         }
-        
-        return { result: selected, log };
+
+        return { results, log, seed, quantities };
+    },
+
+    // 4. Roll Tables (Chained Multi-Pool Draws)
+    // Each step can reference fields of earlier steps' results via `valueFrom`.
+    rollTable: (
+        table: RollTable,
+        candidatesByPool: Record<string, RollCandidate[]>,
+        rules: Rule[],
+        contextTags: Set<string>,
+        options: RollOptions = {}
+    ): { steps: { step: RollTableStep, results: UniversalEntity[], quantities: RolledQuantity[][] }[], log: string[], seed: string } => {
+        const seed = options.seed?.trim() || SeedUtils.generateSeed();
+        const log: string[] = [`Seed: ${seed}`, `Table: ${table.name}`];
+        const priorResults: UniversalEntity[][] = [];
+        const steps: { step: RollTableStep, results: UniversalEntity[], quantities: RolledQuantity[][] }[] = [];
+
+        table.steps.forEach((step, idx) => {
+            const constraints = step.constraints.map(c => resolveStepReference(c, priorResults));
+            const { activeEffects, log: ruleLog } = RollerEngine.compileRules(rules, contextTags, step.pool);
+            // Derive a per-step seed so editing one step doesn't reshuffle the others
+            const { results, log: stepLog, quantities } = RollerEngine.rollMany(candidatesByPool[step.pool] || [], activeEffects, constraints, {
+                ...options,
+                seed: `${seed}#${idx + 1}`,
+                count: step.count,
+                withReplacement: step.withReplacement
+            });
+
+            log.push(`Step ${idx + 1}: ${step.pool} x${step.count}`);
+            constraints.filter(c => c.valueFrom).forEach(c => {
+                log.push(`Reference: ${c.path} ${c.operator} step ${c.valueFrom!.step + 1}.${c.valueFrom!.path} = [${Array.isArray(c.value) ? c.value.join(', ') : c.value}]`);
+            });
+            log.push(...ruleLog, ...stepLog.slice(1));
+
+            priorResults.push(results);
+            steps.push({ step, results, quantities });
+        });
+
+        return { steps, log, seed };
+    },
+
+    // 5. Deck Mode
+    // Draws without replacement from whatever has not been drawn yet; the caller persists the discard pile.
+    drawFromDeck: (
+        candidates: RollCandidate[],
+        drawnIds: string[],
+        activeEffects: ActiveEffects,
+        runtimeConstraints: RollConstraintNode[] = [],
+        options: MultiDrawOptions = {}
+    ): { results: UniversalEntity[], log: string[], seed: string, quantities: RolledQuantity[][], remainingCount: number } => {
+        const drawn = new Set(drawnIds);
+        const remaining = candidates.filter(c => !drawn.has(c.id));
+        const { results, log, seed, quantities } = RollerEngine.rollMany(remaining, activeEffects, runtimeConstraints, { ...options, withReplacement: false });
+        log.splice(1, 0, `Deck: ${remaining.length} of ${candidates.length} cards left before this draw.`);
+        if (remaining.length === 0) log.push('Deck is empty. Reshuffle to continue.');
+        return { results, log, seed, quantities, remainingCount: remaining.length - results.length };
+    },
+
+    // 6. Probability Preview
+    // Exact single-draw odds after constraints, rule effects and rarity weighting.
+    preview: (
+        candidates: RollCandidate[],
+        activeEffects: ActiveEffects,
+        runtimeConstraints: RollConstraintNode[] = [],
+        options: RollOptions = {}
+    ): RollPreview => {
+        const pool = weighCandidates(candidates, activeEffects, runtimeConstraints, options);
+        const total = pool.totalWeight;
+
+        const entries: CandidateOdds[] = pool.entries
+            .map(e => ({ item: e.item, rarity: e.rarity, weight: e.weight, probability: total > 0 ? e.weight / total : 0, notes: e.notes }))
+            .sort((a, b) => b.probability - a.probability);
+
+        const rarityMap = new Map<string, { rarity: string; weight: number; probability: number; count: number }>();
+        entries.forEach(e => {
+            const bucket = rarityMap.get(e.rarity) || { rarity: e.rarity, weight: 0, probability: 0, count: 0 };
+            bucket.weight += e.weight;
+            bucket.probability += e.probability;
+            bucket.count++;
+            rarityMap.set(e.rarity, bucket);
+        });
+        const byRarity = Array.from(rarityMap.values())
+            .sort((a, b) => rarityRank(a.rarity, options.raritySettings) - rarityRank(b.rarity, options.raritySettings));
+
+        return {
+            entries,
+            byRarity,
+            totalWeight: total,
+            rejectedCount: pool.rejectedCount,
+            bannedCount: pool.bannedCount,
+            zeroWeightCount: pool.zeroWeightCount,
+            globalBan: pool.globalBan
+        };
+    },
+
+    // 7. Monte Carlo Simulation
+    // Repeats single draws on one seeded sequence, so a given seed always reproduces the same tallies.
+    simulate: (
+        candidates: RollCandidate[],
+        activeEffects: ActiveEffects,
+        runtimeConstraints: RollConstraintNode[] = [],
+        options: SimulationOptions = {}
+    ): SimulationResult => {
+        const seed = options.seed?.trim() || SeedUtils.generateSeed();
+        const random = SeedUtils.createRandom(seed);
+        const iterations = Math.min(MAX_SIMULATION_ITERATIONS, Math.max(1, Math.floor(options.iterations ?? 10000)));
+        const result: SimulationResult = { iterations, seed, counts: {}, rarityCounts: {} };
+
+        const pool = weighCandidates(candidates, activeEffects, runtimeConstraints, options);
+        if (pool.entries.length === 0) return { ...result, iterations: 0 };
+
+        // Cumulative weights + binary search keep large pools fast
+        const cumulative: number[] = [];
+        let running = 0;
+        pool.entries.forEach(e => { running += e.weight; cumulative.push(running); });
+        const hits = new Array<number>(pool.entries.length).fill(0);
+
+        for (let i = 0; i < iterations; i++) {
+            const target = random() * running;
+            let lo = 0;
+            let hi = cumulative.length - 1;
+            while (lo < hi) {
+                const mid = (lo + hi) >> 1;
+                if (cumulative[mid] < target) lo = mid + 1;
+                else hi = mid;
+            }
+            hits[lo]++;
+        }
+
+        pool.entries.forEach((e, idx) => {
+            if (hits[idx] === 0) return;
+            result.counts[e.item.id] = (result.counts[e.item.id] || 0) + hits[idx];
+            result.rarityCounts[e.rarity] = (result.rarityCounts[e.rarity] || 0) + hits[idx];
+        });
+
+        return result;
     }
-};
\ No newline at end of file
+};
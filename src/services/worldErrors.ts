@@ -0,0 +1,30 @@
+// Typed failures for multi-step WorldManager operations. Those operations run in a
+// single IndexedDB transaction, so a failure means none of their writes were kept.
+
+export type WorldErrorCode =
+    | 'not-found' // The world, pool or other target does not exist
+    | 'conflict' // The target name or ID is already taken
+    | 'invalid' // The input was rejected before anything was written
+    | 'storage'; // IndexedDB failed or aborted the transaction
+
+export class WorldOperationError extends Error {
+    readonly code: WorldErrorCode;
+
+    constructor(code: WorldErrorCode, message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'WorldOperationError';
+        this.code = code;
+    }
+
+    // Passes typed errors through; anything else (quota, AbortError, bugs) becomes 'storage'
+    static from(error: unknown): WorldOperationError {
+        if (error instanceof WorldOperationError) return error;
+        const message = error instanceof Error ? error.message : String(error);
+        return new WorldOperationError('storage', message || 'Database write failed', error);
+    }
+}
+
+// Both members declare both fields so `if (!result.ok)` narrows without strictNullChecks
+export type WorldOperationResult<T = void> =
+    | { ok: true; value: T; error?: never }
+    | { ok: false; value?: never; error: WorldOperationError };
@@ -1,5 +1,6 @@
 // nexus-generator/src/services/worldManager.ts
-import { db } from './db';
+import { db, WorldTransaction } from './db';
+import { WorldOperationError, WorldOperationResult } from './worldErrors';
 import { 
     World, 
     UniversalEntity, 
@@ -7,8 +8,23 @@ import {
     WorldConfig, 
     PoolCategory, 
     ComponentDefinition,
-    TagDefinition
+    TagDefinition,
+    RollTable,
+    SavedView,
+    ExportProfile,
+    WorldSnapshot,
+    SnapshotReason,
+    RulebookPackage
 } from '../types';
+import { QueryUtils } from '../utils/queryUtils';
+import { normalizeTagId } from '../utils/entityUtils';
+import { PackageUtils } from '../utils/packageUtils';
+import { MigrationUtils, MigrationReport, CURRENT_SCHEMA_VERSION } from '../utils/migrationUtils';
+import { ImportUtils, ConflictResolution, MergeSummary } from '../utils/importUtils';
+import { MarkdownUtils } from '../utils/markdownUtils';
+import { ZipUtils } from '../utils/zipUtils';
+import { PrintUtils, PrintOptions } from '../utils/printUtils';
+import { ExportProfileUtils, ExportProfileResult } from '../utils/exportProfileUtils';
 
 // --- CORE SYSTEM COMPONENTS ---
 export const STANDARD_COMPONENTS: ComponentDefinition[] = [
@@ -30,6 +46,15 @@ export const STANDARD_COMPONENTS: ComponentDefinition[] = [
         fields: [
             { key: 'value', type: 'select', defaultValue: 'Common', options: ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'] }
         ]
+    },
+    {
+        id: 'roll_weight',
+        label: 'Roll Weight',
+        category: 'System',
+        isCore: true,
+        fields: [
+            { key: 'multiplier', type: 'number', defaultValue: 1 }
+        ]
     }
 ];
 
@@ -42,11 +67,45 @@ export interface TagAnalytics {
     }
 }
 
-export const normalizeTagId = (text: string): string => {
-    if (!text) return '';
-    return text.trim().toLowerCase()
-        .replace(/\s+/g, '_')
-        .replace(/[^\p{L}\p{N}_-]+/gu, ''); 
+// Automatic snapshots (anything not 'manual') beyond this count are pruned, oldest first
+const MAX_AUTO_SNAPSHOTS = 10;
+
+/**
+ * Returns the entity with blueprint components added (and non-blueprint ones dropped),
+ * or null when it already matches. Metadata is always kept.
+ */
+const applyBlueprint = (entity: UniversalEntity, blueprints: Record<string, any>): UniversalEntity | null => {
+    const validComponentIds = new Set(Object.keys(blueprints));
+    validComponentIds.add('metadata'); 
+
+    let dirty = false;
+    const currentComponents = entity.components || {};
+    const newComponents: Record<string, any> = {};
+
+    Object.keys(currentComponents).forEach(compId => {
+        if (validComponentIds.has(compId)) {
+            newComponents[compId] = { ...currentComponents[compId] };
+        } else {
+            dirty = true; 
+        }
+    });
+
+    Object.keys(blueprints).forEach(compId => {
+        if (!newComponents[compId]) {
+            newComponents[compId] = JSON.parse(JSON.stringify(blueprints[compId]));
+            dirty = true;
+        } else {
+            const def = blueprints[compId];
+            Object.keys(def).forEach(fieldKey => {
+                if (newComponents[compId][fieldKey] === undefined) {
+                    newComponents[compId][fieldKey] = def[fieldKey];
+                    dirty = true;
+                }
+            });
+        }
+    });
+
+    return dirty ? { ...entity, components: newComponents } : null;
 };
 
 export class WorldManager {
@@ -97,7 +156,8 @@ export class WorldManager {
       componentRegistry: initialRegistry, 
       pools: {},
       rules: [],
-      tags: {} 
+      tags: {},
+      schemaVersion: CURRENT_SCHEMA_VERSION
     };
     
     await db.saveWorld(newWorld);
@@ -105,15 +165,32 @@ export class WorldManager {
   }
 
   async loadWorld(id: string, shallow: boolean = true): Promise<World | null> {
-    const world = await db.loadWorldMeta(id);
-    if (!world) return null;
+    return (await this.openWorld(id)).world;
+  }
+
+  // Like loadWorld, but also reports the schema upgrade applied on the way, if any
+  async openWorld(id: string): Promise<{ world: World | null; migration: MigrationReport | null }> {
+    let world = await db.loadWorldMeta(id);
+    if (!world) return { world: null, migration: null };
+    // Refuse data from a newer build before anything reads or rewrites it
+    MigrationUtils.assertSupported(MigrationUtils.versionOf(world));
+    let migration: MigrationReport | null = null;
+    if (MigrationUtils.needsMigration(world)) {
+        migration = await db.migrateWorld(id);
+        world = await db.loadWorldMeta(id);
+        if (!world) return { world: null, migration: null };
+    }
     
     Object.keys(world.pools).forEach(key => {
         if (!world.pools[key].entities) world.pools[key].entities = [];
     });
     if (!world.componentRegistry) { world.componentRegistry = {}; }
+    // Worlds created before a system component existed pick it up on load
+    STANDARD_COMPONENTS.forEach(def => {
+        if (!world.componentRegistry[def.id]) world.componentRegistry[def.id] = def;
+    });
     
-    return world;
+    return { world, migration };
   }
 
   async deleteWorld(id: string): Promise<void> {
@@ -131,29 +208,74 @@ export class WorldManager {
       return JSON.stringify(pkg, null, 2);
   }
 
-  async importWorldFromJson(jsonStr: string): Promise<World | null> {
-      try {
-          const pkg = JSON.parse(jsonStr);
-          const worldData = pkg.world || pkg; 
-          if (!worldData.name) throw new Error("Invalid World Data");
+  // Markdown vault (see MarkdownUtils) zipped under a folder named after the world
+  async exportWorldToMarkdownZip(worldId: string): Promise<Uint8Array | null> {
+      const pkg = await db.getFullWorldPackage(worldId);
+      if (!pkg) return null;
+      const vault = MarkdownUtils.renderWorld(pkg);
+      return ZipUtils.create(vault.files.map(file => ({ path: `${vault.root}/${file.path}`, content: file.content })));
+  }
 
-          const newId = crypto.randomUUID();
-          const newWorld = { ...worldData, id: newId, name: `${worldData.name} (Imported)` };
-          
-          await db.saveWorld(newWorld);
+  // Self-contained HTML book (see PrintUtils) for browser print-to-PDF
+  async exportWorldToPrintHtml(worldId: string, options: PrintOptions): Promise<string | null> {
+      const pkg = await db.getFullWorldPackage(worldId);
+      if (!pkg) return null;
+      return PrintUtils.renderHtml(pkg, options);
+  }
 
-          for (const poolName of Object.keys(newWorld.pools)) {
-              const entities = newWorld.pools[poolName].entities || [];
-              for (const entity of entities) {
-                  await db.saveEntity(newId, poolName, entity);
-              }
-          }
+  // JSON in the shape an export profile describes (see ExportProfileUtils)
+  async exportWorldWithProfile(worldId: string, profile: ExportProfile): Promise<WorldOperationResult<ExportProfileResult>> {
+      const problems = ExportProfileUtils.validate(profile);
+      if (problems.length > 0) return { ok: false, error: new WorldOperationError('invalid', problems.join('\n')) };
+      const pkg = await db.getFullWorldPackage(worldId);
+      if (!pkg) return { ok: false, error: new WorldOperationError('not-found', `World '${worldId}' not found.`) };
+      return { ok: true, value: ExportProfileUtils.apply(pkg, profile) };
+  }
+
+  // Imports a parsed package (see ImportUtils.parse) as a new world with fresh entity IDs
+  async importPackage(pkg: RulebookPackage): Promise<WorldOperationResult<World>> {
+      const blocking = ImportUtils.validate(pkg).find(issue => issue.severity === 'error');
+      if (blocking) return { ok: false, error: new WorldOperationError('invalid', `${blocking.path}: ${blocking.message}`) };
 
+      const copy = PackageUtils.remapEntityIds(pkg);
+      const newWorld: World = { ...copy.world, id: crypto.randomUUID(), name: `${copy.world.name} (Imported)` };
+
+      // One transaction: a failed import leaves no half-written world behind
+      return this.runOperation(newWorld.id, async ({ putEntity }) => {
+          for (const [poolName, pool] of Object.entries(newWorld.pools)) {
+              for (const entity of pool.entities || []) await putEntity(poolName, entity);
+          }
           return newWorld;
-      } catch (e) {
-          console.error("Import Failed", e);
-          return null;
-      }
+      }, newWorld);
+  }
+
+  /**
+   * Merges a parsed package into an existing world, resolving each conflict from
+   * ImportUtils.findConflicts by `resolutions` (defaults in DEFAULT_RESOLUTION).
+   * A snapshot is taken first; entity writes are recorded as one 'import' batch.
+   */
+  async mergePackage(worldId: string, pkg: RulebookPackage, resolutions: Record<string, ConflictResolution>): Promise<WorldOperationResult<MergeSummary>> {
+      const blocking = ImportUtils.validate(pkg).find(issue => issue.severity === 'error');
+      if (blocking) return { ok: false, error: new WorldOperationError('invalid', `${blocking.path}: ${blocking.message}`) };
+
+      const target = await db.getFullWorldPackage(worldId);
+      if (!target) return { ok: false, error: new WorldOperationError('not-found', `World '${worldId}' not found.`) };
+      const plan = ImportUtils.planMerge(pkg, target, resolutions);
+
+      await this.createSnapshot(worldId, `Before import: ${pkg.world.name}`, 'import');
+      const result = await this.runOperation(worldId, async txn => {
+          txn.world = { ...plan.world, id: worldId };
+          for (const { pool, entity } of plan.entities) {
+              await txn.putEntity(pool, entity, 'import');
+          }
+          // Bring existing and imported entities of merged pools in line with the grown blueprint
+          for (const poolName of plan.mergedPools) {
+              await this.propagateBlueprints(txn, poolName, txn.world.pools[poolName].defaultComponents);
+          }
+          return plan.summary;
+      });
+      if (result.ok) this.invalidateCache(worldId);
+      return result;
   }
 
   // --- POOL MANAGEMENT ---
@@ -180,35 +302,45 @@ export class WorldManager {
     await db.saveWorld(world);
   }
 
-  async deletePool(worldId: string, poolName: string): Promise<void> {
-      const world = await this.loadWorld(worldId, true);
-      if (!world || !world.pools[poolName]) return;
-
-      // 1. Delete entities from DB
-      const entities = await db.getEntitiesForPool(worldId, poolName);
-      const deletePromises = entities.map(e => db.deleteEntity(e.id));
-      await Promise.all(deletePromises);
-
-      // 2. Remove from World Meta
-      delete world.pools[poolName];
-      await db.saveWorld(world);
-  }
+  async deletePool(worldId: string, poolName: string): Promise<WorldOperationResult> {
+      return this.runOperation(worldId, async ({ world, getPoolEntities, deleteEntity, deleteDeck }) => {
+          if (!world.pools[poolName]) throw new WorldOperationError('not-found', `Pool '${poolName}' not found.`);
 
-  async renamePool(worldId: string, oldName: string, newName: string): Promise<void> {
-      const world = await this.loadWorld(worldId, true);
-      if (!world || !world.pools[oldName]) return;
-      if (world.pools[newName]) throw new Error(`Pool '${newName}' already exists.`);
+          // 1. Delete entities (and their history)
+          for (const entity of await getPoolEntities(poolName)) {
+              await deleteEntity(entity.id);
+          }
 
-      // 1. Move Meta
-      world.pools[newName] = { ...world.pools[oldName], name: newName };
-      delete world.pools[oldName];
-      await db.saveWorld(world);
+          // 2. Remove from World Meta
+          delete world.pools[poolName];
+          await deleteDeck(poolName);
+      });
+  }
+
+  async renamePool(worldId: string, oldName: string, newName: string): Promise<WorldOperationResult> {
+      return this.runOperation(worldId, async ({ world, getPoolEntities, putEntity, moveDeck }) => {
+          if (!world.pools[oldName]) throw new WorldOperationError('not-found', `Pool '${oldName}' not found.`);
+          if (world.pools[newName]) throw new WorldOperationError('conflict', `Pool '${newName}' already exists.`);
+
+          // 1. Move Meta
+          world.pools[newName] = { ...world.pools[oldName], name: newName };
+          delete world.pools[oldName];
+          (world.rollTables || []).forEach(table => table.steps.forEach(step => {
+              if (step.pool === oldName) step.pool = newName;
+          }));
+          (world.savedViews || []).forEach(view => {
+              view.query = QueryUtils.renameFilterValue(view.query, 'pool', oldName, newName);
+          });
+          (world.exportProfiles || []).forEach(profile => profile.mappings.forEach(mapping => {
+              if (mapping.pools) mapping.pools = mapping.pools.map(pool => pool === oldName ? newName : pool);
+          }));
 
-      // 2. Migrate Entities
-      const entities = await db.getEntitiesForPool(worldId, oldName);
-      if (entities.length > 0) {
-          await db.saveEntitiesBatch(worldId, newName, entities);
-      }
+          // 2. Migrate Entities
+          for (const entity of await getPoolEntities(oldName)) {
+              await putEntity(newName, entity);
+          }
+          await moveDeck(oldName, newName);
+      });
   }
 
   async updatePoolDetails(worldId: string, poolName: string, updates: { description?: string, color?: string }): Promise<void> {
@@ -246,39 +378,37 @@ export class WorldManager {
       await db.saveWorld(world);
   }
 
-  async registerComponentDefinition(worldId: string, def: ComponentDefinition, targetPool?: string): Promise<void> {
-      const world = await db.loadWorldMeta(worldId);
-      if (!world) return;
-
-      let resolvedPoolId: string | undefined = undefined;
+  // Registers the definition and, with a target pool, adds it to that pool's blueprint and entities in the same transaction
+  async registerComponentDefinition(worldId: string, def: ComponentDefinition, targetPool?: string): Promise<WorldOperationResult> {
+      return this.runOperation(worldId, async txn => {
+          const { world } = txn;
+          let resolvedPoolId: string | undefined = undefined;
       
-      if (targetPool) {
-          const exactMatch = world.pools[targetPool];
-          if (exactMatch) {
-              resolvedPoolId = targetPool;
-          } else {
-              const lowerTarget = targetPool.toLowerCase();
-              const found = Object.keys(world.pools).find(k => k.toLowerCase() === lowerTarget);
-              if (found) resolvedPoolId = found;
+          if (targetPool) {
+              const exactMatch = world.pools[targetPool];
+              if (exactMatch) {
+                  resolvedPoolId = targetPool;
+              } else {
+                  const lowerTarget = targetPool.toLowerCase();
+                  const found = Object.keys(world.pools).find(k => k.toLowerCase() === lowerTarget);
+                  if (found) resolvedPoolId = found;
+              }
           }
-      }
 
-      if (!def.category) {
-          def.category = resolvedPoolId ? resolvedPoolId.charAt(0).toUpperCase() + resolvedPoolId.slice(1) : 'General'; 
-      }
+          if (!def.category) {
+              def.category = resolvedPoolId ? resolvedPoolId.charAt(0).toUpperCase() + resolvedPoolId.slice(1) : 'General'; 
+          }
 
-      world.componentRegistry[def.id] = def;
-      await db.saveWorld(world); 
+          world.componentRegistry[def.id] = def;
 
-      if (resolvedPoolId && world.pools[resolvedPoolId]) {
-          const pool = world.pools[resolvedPoolId];
-          const defaults: any = {};
-          def.fields.forEach(f => defaults[f.key] = f.defaultValue);
+          if (resolvedPoolId && world.pools[resolvedPoolId]) {
+              const pool = world.pools[resolvedPoolId];
+              const defaults: any = {};
+              def.fields.forEach(f => defaults[f.key] = f.defaultValue);
           
-          pool.defaultComponents[def.id] = defaults;
-
-          await this.updatePoolBlueprints(worldId, resolvedPoolId, pool.defaultComponents);
-      }
+              await this.propagateBlueprints(txn, resolvedPoolId, { ...pool.defaultComponents, [def.id]: defaults });
+          }
+      });
   }
 
   async deleteComponentDefinition(worldId: string, id: string): Promise<void> {
@@ -323,51 +453,23 @@ export class WorldManager {
   }
   
   // --- BLUEPRINT PROPAGATION ---
-  async updatePoolBlueprints(worldId: string, poolName: string, blueprints: any): Promise<void> {
-      const world = await db.loadWorldMeta(worldId);
-      if (!world || !world.pools[poolName]) return;
+  async updatePoolBlueprints(worldId: string, poolName: string, blueprints: any): Promise<WorldOperationResult> {
+      // The snapshot has to be taken before the transaction opens
+      const current = await db.getEntitiesForPool(worldId, poolName);
+      if (current.some(entity => applyBlueprint(entity, blueprints))) {
+          await this.createSnapshot(worldId, `Before blueprint update: ${poolName}`, 'blueprint');
+      }
+      return this.runOperation(worldId, txn => this.propagateBlueprints(txn, poolName, blueprints));
+  }
 
+  // Sets a pool's blueprint and brings its entities in line, recorded as one 'blueprint' revision batch
+  private async propagateBlueprints({ world, getPoolEntities, putEntity }: WorldTransaction, poolName: string, blueprints: any): Promise<void> {
+      if (!world.pools[poolName]) throw new WorldOperationError('not-found', `Pool '${poolName}' not found.`);
       world.pools[poolName].defaultComponents = blueprints;
-      await db.saveWorld(world);
-
-      const { items } = await db.getEntitiesForPoolPaginated(worldId, poolName, 1, 10000); 
-
-      const validComponentIds = new Set(Object.keys(blueprints));
-      validComponentIds.add('metadata'); 
-
-      const updatedEntities = items.map(entity => {
-          let dirty = false;
-          const currentComponents = entity.components || {};
-          const newComponents: Record<string, any> = {};
-
-          Object.keys(currentComponents).forEach(compId => {
-              if (validComponentIds.has(compId)) {
-                  newComponents[compId] = currentComponents[compId];
-              } else {
-                  dirty = true; 
-              }
-          });
-
-          Object.keys(blueprints).forEach(compId => {
-              if (!newComponents[compId]) {
-                  newComponents[compId] = JSON.parse(JSON.stringify(blueprints[compId]));
-                  dirty = true;
-              } else {
-                  const def = blueprints[compId];
-                  Object.keys(def).forEach(fieldKey => {
-                      if (newComponents[compId][fieldKey] === undefined) {
-                          newComponents[compId][fieldKey] = def[fieldKey];
-                          dirty = true;
-                      }
-                  });
-              }
-          });
 
-          return dirty ? { ...entity, components: newComponents } : null;
-      }).filter(Boolean) as UniversalEntity[];
-
-      if (updatedEntities.length > 0) {
-          await db.saveEntitiesBatch(worldId, poolName, updatedEntities);
+      for (const entity of await getPoolEntities(poolName)) {
+          const updated = applyBlueprint(entity, blueprints);
+          if (updated) await putEntity(poolName, updated, 'blueprint');
       }
   }
 
@@ -382,7 +484,7 @@ export class WorldManager {
       return id;
   }
   
-  async updateTagDefinition(worldId: string, label: string, description: string): Promise<void> {
+  async updateTagDefinition(worldId: string, label: string, description: string, opposites?: string[]): Promise<void> {
       const world = await db.loadWorldMeta(worldId);
       if (!world) return;
       
@@ -400,32 +502,58 @@ export class WorldManager {
           world.tags[id].label = label;
           world.tags[id].description = description;
       }
+      if (opposites !== undefined) {
+          world.tags[id].opposites = Array.from(new Set(opposites.map(normalizeTagId).filter(o => o && o !== id)));
+      }
       
       await db.saveWorld(world);
   }
 
-  async renameTag(worldId: string, oldId: string, newLabel: string): Promise<number> {
-      const world = await db.loadWorldMeta(worldId);
-      if (!world) return 0;
-
+  async renameTag(worldId: string, oldId: string, newLabel: string): Promise<WorldOperationResult<number>> {
       const newId = normalizeTagId(newLabel);
-      if (!newId) throw new Error("Invalid tag label");
-      if (newId === oldId) return 0;
-
-      const migratedCount = await db.migrateTag(worldId, oldId, newId);
+      if (!newId) return { ok: false, error: new WorldOperationError('invalid', "Invalid tag label") };
+      if (newId === oldId) return { ok: true, value: 0 };
 
-      if (!world.tags[newId]) {
-          world.tags[newId] = { 
-              ...world.tags[oldId], 
-              id: newId, 
-              label: newLabel 
-          };
+      const meta = await db.loadWorldMeta(worldId);
+      if (meta && await db.getTagUsageCount(worldId, oldId) > 0) {
+          await this.createSnapshot(worldId, `Before tag rename: ${meta.tags[oldId]?.label || oldId} → ${newLabel}`, 'tag-migration');
       }
-      delete world.tags[oldId];
-      
-      await db.saveWorld(world);
-      this.invalidateCache(worldId);
-      return migratedCount;
+
+      const result = await this.runOperation(worldId, async ({ world, getEntitiesWithTag, putEntity }) => {
+          const oldLabel = world.tags[oldId]?.label;
+
+          // Retag entities; each gets a 'tag-migration' revision in one batch
+          const tagged = await getEntitiesWithTag(oldId);
+          for (const { poolName, ...entity } of tagged) {
+              const newTags = new Set(entity.tags);
+              newTags.delete(oldId);
+              newTags.add(newId);
+              await putEntity(poolName, { ...entity, tags: Array.from(newTags) }, 'tag-migration');
+          }
+
+          if (!world.tags[newId]) {
+              world.tags[newId] = { 
+                  ...world.tags[oldId], 
+                  id: newId, 
+                  label: newLabel 
+              };
+          }
+          delete world.tags[oldId];
+          // Keep opposite links pointing at the renamed tag
+          Object.values(world.tags).forEach(tag => {
+              if (tag.opposites?.includes(oldId)) {
+                  tag.opposites = Array.from(new Set(tag.opposites.map(o => o === oldId ? newId : o)));
+              }
+          });
+          (world.savedViews || []).forEach(view => {
+              view.query = QueryUtils.renameFilterValue(view.query, 'tag', oldId, newId);
+              if (oldLabel) view.query = QueryUtils.renameFilterValue(view.query, 'tag', oldLabel, newId);
+          });
+          return tagged.length;
+      });
+
+      if (result.ok) this.invalidateCache(worldId);
+      return result;
   }
 
   async updateWorldTags(worldId: string, tags: Record<string, TagDefinition>): Promise<void> {
@@ -496,6 +624,122 @@ export class WorldManager {
       await db.saveWorld(world);
   }
 
+  // --- ROLL TABLES ---
+  async saveRollTable(worldId: string, table: RollTable): Promise<void> {
+      const world = await db.loadWorldMeta(worldId);
+      if (!world) return;
+      if (!table.id) table.id = crypto.randomUUID();
+      const tables = world.rollTables || [];
+      const idx = tables.findIndex(t => t.id === table.id);
+      if (idx >= 0) tables[idx] = table;
+      else tables.push(table);
+      world.rollTables = tables;
+      await db.saveWorld(world);
+  }
+
+  async deleteRollTable(worldId: string, tableId: string): Promise<void> {
+      const world = await db.loadWorldMeta(worldId);
+      if (!world) return;
+      world.rollTables = (world.rollTables || []).filter(t => t.id !== tableId);
+      await db.saveWorld(world);
+  }
+
+  async saveSavedView(worldId: string, view: SavedView): Promise<void> {
+      const world = await db.loadWorldMeta(worldId);
+      if (!world) return;
+      if (!view.id) view.id = crypto.randomUUID();
+      const views = world.savedViews || [];
+      const idx = views.findIndex(v => v.id === view.id);
+      if (idx >= 0) views[idx] = view;
+      else views.push(view);
+      world.savedViews = views;
+      await db.saveWorld(world);
+  }
+
+  async deleteSavedView(worldId: string, viewId: string): Promise<void> {
+      const world = await db.loadWorldMeta(worldId);
+      if (!world) return;
+      world.savedViews = (world.savedViews || []).filter(v => v.id !== viewId);
+      await db.saveWorld(world);
+  }
+
+  // Custom export profiles; built-in ones are read-only
+  async saveExportProfile(worldId: string, profile: ExportProfile): Promise<void> {
+      const world = await db.loadWorldMeta(worldId);
+      if (!world) return;
+      if (!profile.id || ExportProfileUtils.isBuiltIn(profile.id)) profile.id = crypto.randomUUID();
+      const profiles = world.exportProfiles || [];
+      const idx = profiles.findIndex(p => p.id === profile.id);
+      if (idx >= 0) profiles[idx] = profile;
+      else profiles.push(profile);
+      world.exportProfiles = profiles;
+      await db.saveWorld(world);
+  }
+
+  async deleteExportProfile(worldId: string, profileId: string): Promise<void> {
+      const world = await db.loadWorldMeta(worldId);
+      if (!world) return;
+      world.exportProfiles = (world.exportProfiles || []).filter(p => p.id !== profileId);
+      await db.saveWorld(world);
+  }
+
+  // --- SNAPSHOTS ---
+
+  /**
+   * Stores a full copy of the world (metadata and entities) as a restore point.
+   * Automatic snapshots are capped at MAX_AUTO_SNAPSHOTS per world; manual ones are kept.
+   */
+  async createSnapshot(worldId: string, name: string, reason: SnapshotReason = 'manual'): Promise<WorldSnapshot | null> {
+      const pkg = await db.getFullWorldPackage(worldId);
+      if (!pkg) return null;
+
+      const snapshot: WorldSnapshot = {
+          id: crypto.randomUUID(),
+          worldId,
+          name,
+          created: Date.now(),
+          reason,
+          size: new TextEncoder().encode(JSON.stringify(pkg)).length,
+          entityCount: PackageUtils.entityCount(pkg)
+      };
+      await db.saveSnapshot(snapshot, pkg);
+
+      if (reason !== 'manual') {
+          const auto = (await db.listSnapshots(worldId)).filter(s => s.reason !== 'manual');
+          await Promise.all(auto.slice(MAX_AUTO_SNAPSHOTS).map(s => db.deleteSnapshot(s.id)));
+      }
+      return snapshot;
+  }
+
+  /**
+   * Rolls the world back to a snapshot. The current state is snapshotted first,
+   * so a restore can itself be undone.
+   */
+  async restoreSnapshot(snapshotId: string): Promise<void> {
+      const snapshot = await db.getSnapshot(snapshotId);
+      const pkg = await db.getSnapshotPackage(snapshotId);
+      if (!snapshot || !pkg) throw new Error("Snapshot not found");
+
+      await this.createSnapshot(snapshot.worldId, `Before restoring: ${snapshot.name}`, 'before-restore');
+      await db.replaceWorldContents({ ...pkg, world: { ...pkg.world, id: snapshot.worldId } });
+      this.invalidateCache(snapshot.worldId);
+  }
+
+  // Copies a snapshot into a new world with fresh world and entity IDs
+  async forkSnapshot(snapshotId: string, name: string): Promise<WorldOperationResult<World>> {
+      const pkg = await db.getSnapshotPackage(snapshotId);
+      if (!pkg) return { ok: false, error: new WorldOperationError('not-found', "Snapshot not found") };
+
+      const copy = PackageUtils.remapEntityIds(pkg);
+      const world: World = { ...copy.world, id: crypto.randomUUID(), name };
+      return this.runOperation(world.id, async ({ putEntity }) => {
+          for (const [poolName, pool] of Object.entries(world.pools)) {
+              for (const entity of pool.entities || []) await putEntity(poolName, entity);
+          }
+          return world;
+      }, world);
+  }
+
   generateContextString(world: World): string {
       let context = `WORLD: ${world.name} (Genre: ${world.config.genre})\n`;
       context += `LORE: ${world.config.loreContext || ''}\n\n`;
@@ -509,6 +753,17 @@ export class WorldManager {
       return context;
   }
 
+  // Runs `work` in one transaction and reports failure as a typed result; nothing is written on failure
+  private async runOperation<T>(worldId: string, work: (txn: WorldTransaction) => Promise<T>, initial?: World): Promise<WorldOperationResult<T>> {
+      try {
+          return { ok: true, value: await db.runWorldTransaction(worldId, work, initial) };
+      } catch (e) {
+          const error = WorldOperationError.from(e);
+          console.error(`World operation failed (${error.code})`, error);
+          return { ok: false, error };
+      }
+  }
+
   private invalidateCache(worldId: string) {
       this.analyticsCache.delete(worldId);
   }
@@ -516,4 +771,16 @@ export class WorldManager {
   async saveEntitiesToPool(worldId: string, poolName: string, entities: UniversalEntity[]): Promise<void> {
       await db.saveEntitiesBatch(worldId, poolName, entities);
   }
+
+  // Writes spreadsheet rows (see CsvUtils.buildEntities) as one 'import' revision batch
+  async importPoolRows(worldId: string, poolName: string, entities: UniversalEntity[], newTags: TagDefinition[]): Promise<WorldOperationResult<number>> {
+      const result = await this.runOperation(worldId, async ({ world, putEntity }) => {
+          if (!world.pools[poolName]) throw new WorldOperationError('not-found', `Pool '${poolName}' not found.`);
+          newTags.forEach(tag => { if (!world.tags[tag.id]) world.tags[tag.id] = tag; });
+          for (const entity of entities) await putEntity(poolName, entity, 'import');
+          return entities.length;
+      });
+      if (result.ok) this.invalidateCache(worldId);
+      return result;
+  }
 }
\ No newline at end of file
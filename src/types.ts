@@ -21,7 +21,7 @@ export interface WorldConfig {
 }
 
 // --- SCHEMA SYSTEM ---
-export type ComponentFieldType = 'text' | 'number' | 'boolean' | 'select' | 'list' | 'date';
+export type ComponentFieldType = 'text' | 'number' | 'boolean' | 'select' | 'list' | 'date' | 'dice';
 
 export interface ComponentField {
     key: string;
@@ -73,6 +73,7 @@ export interface TagDefinition {
     label: string;
     description?: string;
     color?: string;
+    opposites?: string[]; // Tag IDs penalized by roller affinity when this tag is in context
 }
 
 export interface World {
@@ -84,6 +85,53 @@ export interface World {
     componentRegistry: Record<string, ComponentDefinition>; 
     pools: Record<string, Pool>;
     rules: Rule[];
+    rollTables?: RollTable[];
+    savedViews?: SavedView[];
+    exportProfiles?: ExportProfile[]; // Custom JSON export shapes; built-in ones live in ExportProfileUtils
+    schemaVersion?: number; // Data shape version (see MigrationUtils); absent on worlds from before versioning
+}
+
+// A named entity query (see QueryUtils) pinned to the sidebar
+export interface SavedView {
+    id: string;
+    name: string;
+    query: string;
+    description?: string;
+    created: number;
+}
+
+// --- EXPORT PROFILES ---
+// Conversions applied to a mapped value before it is written
+export type ExportConversion = 'string' | 'number' | 'integer' | 'boolean' | 'list' | 'joined' | 'html' | 'lowercase' | 'slug';
+
+export interface ExportFieldMapping {
+    target: string; // Dot path in the output record; numeric segments create arrays, e.g. 'pages.0.name'
+    // 'id', 'name', 'pool', 'poolType', 'tags', 'tagLabels', 'description', 'rarity', 'relations',
+    // or '<componentId>.<fieldKey>'. Without a source, `constant` is written.
+    source?: string;
+    constant?: any;
+    fallback?: any; // Written when the source value is empty
+    convert?: ExportConversion;
+}
+
+// Output records for entities of the matching pools. The first mapping that matches an entity's
+// pool wins; a mapping with no pools and no pool types matches every pool.
+export interface ExportPoolMapping {
+    collection: string; // Output array the records go to
+    pools?: string[];
+    poolTypes?: PoolCategory[];
+    fields: ExportFieldMapping[];
+    flattenComponents?: boolean; // Also write every component field as '<componentId>_<fieldKey>'
+}
+
+export interface ExportProfile {
+    id: string;
+    name: string;
+    description?: string;
+    mappings: ExportPoolMapping[];
+    // A single collection is written as a bare array unless `wrap` is set
+    wrap?: boolean;
+    created: number;
 }
 
 // --- DESCRIPTIVE RULES ---
@@ -93,12 +141,133 @@ export interface RuleReference {
     type: 'tag' | 'item';
 }
 
+// --- EXECUTABLE RULE EFFECTS (Optional) ---
+// A rule without effects stays purely descriptive.
+export type RuleEffectType = 'ban' | 'boost' | 'forceRarity';
+
+export interface RuleEffect {
+    type: RuleEffectType;
+    targetType: 'tag' | 'item' | 'all'; // 'all' is only meaningful for bans
+    target: string; // Tag ID, or entity ID / name
+    value?: number | string; // Boost multiplier or forced rarity label
+}
+
+export interface RuleCondition {
+    contextTags?: string[]; // All must be present in the roll context
+    pools?: string[]; // Empty = applies to any target pool
+}
+
 export interface Rule {
     id: string;
     name: string;
     content: string; // Free text description
     references: RuleReference[]; // Linked entities/tags
     created: number;
+    condition?: RuleCondition;
+    effects?: RuleEffect[];
+}
+
+// --- ROLL CONSTRAINTS & TABLES ---
+export type ConstraintOperator =
+    | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'missing' | 'truthy'
+    | 'in' | 'between' | 'regex' | 'hasTag';
+
+export interface RollConstraint {
+    path: string; // e.g. "components.stats.values.cost" (ignored by 'hasTag')
+    operator: ConstraintOperator;
+    value?: any; // 'in': list, 'between': [min, max], 'regex': pattern
+    // Roll tables only: take the value from an earlier step's results instead of `value`
+    valueFrom?: { step: number; path: string };
+}
+
+export type ConstraintGroupMode = 'and' | 'or' | 'not';
+
+// 'not' passes when none of its children match
+export interface RollConstraintGroup {
+    mode: ConstraintGroupMode;
+    children: RollConstraintNode[];
+}
+
+export type RollConstraintNode = RollConstraint | RollConstraintGroup;
+
+export interface RollTableStep {
+    id: string;
+    pool: string;
+    count: number;
+    withReplacement?: boolean;
+    constraints: RollConstraint[];
+}
+
+export interface RollTable {
+    id: string;
+    name: string;
+    description?: string;
+    steps: RollTableStep[];
+    created: number;
+}
+
+// Deck mode: a pool drawn without replacement across sessions.
+// Only the discard pile is stored, so entities added later join the deck automatically.
+export interface RollDeck {
+    id: string; // `${worldId}:${pool}`
+    worldId: string;
+    pool: string;
+    active: boolean;
+    drawn: { id: string; name: string; drawnAt: number }[];
+    shuffledAt: number;
+}
+
+// A dice-field quantity rolled for one winner, e.g. "Loot.count: 2d6 [3, 4] = 7"
+export interface RollQuantitySnapshot {
+    label: string;
+    total: number;
+    breakdown: string;
+}
+
+// A single Roller run, persisted per world so results survive navigation
+export interface RollHistoryEntry {
+    id: string;
+    worldId: string;
+    timestamp: number;
+    pool: string;
+    seed: string;
+    constraints: RollConstraintNode[];
+    contextTags: string[];
+    drawCount: number;
+    withReplacement?: boolean;
+    // Snapshot of the winners so the entry still reads correctly after edits or deletion
+    winners: { id: string; name: string; rarity: string; quantities?: RollQuantitySnapshot[] }[];
+    log: string[];
+}
+
+// --- REVISIONS ---
+export type RevisionSource = 'create' | 'edit' | 'restore' | 'tag-migration' | 'blueprint' | 'import';
+
+// One entity write, stored as full before/after snapshots; diffs are computed on display
+export interface EntityRevision {
+    id: string;
+    worldId: string;
+    entityId: string;
+    poolName: string;
+    timestamp: number;
+    source: RevisionSource;
+    batchId?: string; // Shared by every revision written by one bulk operation
+    before: UniversalEntity | null; // null when the write created the entity
+    after: UniversalEntity;
+}
+
+// --- SNAPSHOTS ---
+export type SnapshotReason = 'manual' | 'tag-migration' | 'blueprint' | 'ai-build' | 'before-restore' | 'import';
+
+// Listing data for a stored world snapshot; the package itself lives in a separate store
+export interface WorldSnapshot {
+    id: string;
+    worldId: string;
+    name: string;
+    created: number;
+    reason: SnapshotReason;
+    size: number; // Bytes of the serialized package
+    entityCount: number;
 }
 
 // --- AI & GENERATION ---
@@ -174,6 +343,7 @@ export interface GenerationLogEntry {
 
 export interface RulebookPackage {
     version: string;
+    schemaVersion?: number; // Absent on packages exported before versioning
     exportDate: number;
     world: World;
 }
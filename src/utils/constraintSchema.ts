@@ -0,0 +1,67 @@
+// Builds the list of constraint paths a pool's entities actually carry,
+// so the Roller can offer a picker instead of free-typed dot paths.
+import { ComponentFieldType, ConstraintOperator, World } from '../types';
+
+// 'tags' is the entity's own tag list rather than a component field
+export type ConstraintFieldType = ComponentFieldType | 'tags';
+
+export interface ConstraintField {
+    path: string;
+    label: string;
+    group: string; // Component label, used for <optgroup>
+    type: ConstraintFieldType;
+    options?: string[];
+}
+
+const OPERATORS_BY_TYPE: Record<ConstraintFieldType, ConstraintOperator[]> = {
+    number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'missing', 'truthy'],
+    text: ['eq', 'neq', 'contains', 'in', 'regex', 'missing', 'truthy'],
+    select: ['eq', 'neq', 'in', 'missing', 'truthy'],
+    boolean: ['eq', 'neq', 'truthy', 'missing'],
+    list: ['contains', 'in', 'missing', 'truthy'],
+    date: ['eq', 'neq', 'regex', 'missing', 'truthy'],
+    dice: ['eq', 'neq', 'contains', 'regex', 'missing', 'truthy'],
+    tags: ['hasTag', 'contains', 'missing']
+};
+
+export const ConstraintSchema = {
+    /**
+     * Fields available on a pool: entity name and tags, every field of the pool's
+     * default components, plus core components (e.g. rarity) every entity carries.
+     */
+    getFields: (world: World, poolName: string): ConstraintField[] => {
+        const fields: ConstraintField[] = [
+            { path: 'name', label: 'name', group: 'Entity', type: 'text' },
+            { path: 'tags', label: 'tags', group: 'Entity', type: 'tags' }
+        ];
+        const pool = world.pools[poolName];
+        const componentIds = Object.keys(pool?.defaultComponents || {});
+        Object.values(world.componentRegistry || {})
+            .filter(def => def.isCore && !componentIds.includes(def.id))
+            .forEach(def => componentIds.push(def.id));
+
+        const rarityLabels = (world.config.raritySettings?.levels || []).map(l => l.label);
+
+        componentIds.forEach(compId => {
+            const def = world.componentRegistry?.[compId];
+            if (!def) return;
+            def.fields.forEach(field => {
+                // The rarity select follows the world's ladder, not the hard-coded defaults
+                const options = compId === 'rarity' && field.key === 'value' && rarityLabels.length > 0 ? rarityLabels : field.options;
+                fields.push({
+                    path: `components.${compId}.${field.key}`,
+                    label: field.key,
+                    group: def.label,
+                    type: field.type,
+                    options
+                });
+            });
+        });
+
+        return fields;
+    },
+
+    // Unknown (custom) paths allow every operator
+    getOperators: (field: ConstraintField | undefined, all: ConstraintOperator[]): ConstraintOperator[] =>
+        field ? OPERATORS_BY_TYPE[field.type] || all : all
+};
@@ -0,0 +1,262 @@
+// Spreadsheet round-trips for a single pool: entities flatten to one column per
+// component field (from the pool blueprint and the component registry), and rows
+// map back to entities with per-type coercion and row-level errors.
+import { ComponentField, ComponentFieldType, Pool, TagDefinition, UniversalEntity, World } from '../types';
+import { DiceUtils } from './diceUtils';
+import { normalizeTagId } from './entityUtils';
+
+export type CsvDelimiter = ',' | '\t';
+
+export interface CsvColumn {
+    key: string; // Header text and mapping target: 'id', 'name', 'tags' or '<componentId>.<fieldKey>'
+    label: string;
+    componentId?: string;
+    field?: ComponentField;
+}
+
+export interface CsvTable {
+    delimiter: CsvDelimiter;
+    headers: string[];
+    rows: string[][];
+}
+
+export interface CsvRowError {
+    row: number; // Spreadsheet row number, header = 1
+    column?: string;
+    message: string;
+}
+
+export interface CsvImportPlan {
+    entities: { row: number; entity: UniversalEntity; isUpdate: boolean }[];
+    newTags: TagDefinition[];
+    errors: CsvRowError[]; // Rows with errors are left out of `entities`
+}
+
+// Multiple values (tags, list fields) share a cell, separated by this
+const LIST_SEPARATOR = ';';
+// Components every entity carries that are not spreadsheet material
+const SKIPPED_COMPONENTS = ['metadata', 'relations'];
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_WORDS = ['false', 'no', 'n', '0'];
+
+const splitList = (raw: string) => raw.split(LIST_SEPARATOR).map(part => part.trim()).filter(Boolean);
+
+const formatCell = (value: any, type?: ComponentFieldType): string => {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(String).join(`${LIST_SEPARATOR} `);
+    if (typeof value === 'object') return JSON.stringify(value);
+    if (type === 'boolean') return value ? 'true' : 'false';
+    return String(value);
+};
+
+const quoteCell = (cell: string, delimiter: CsvDelimiter) =>
+    cell.includes(delimiter) || /["\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+export const CsvUtils = {
+    // id, name, tags, then every field of every blueprint component
+    poolColumns: (world: World, pool: Pool): CsvColumn[] => {
+        const columns: CsvColumn[] = [
+            { key: 'id', label: 'ID' },
+            { key: 'name', label: 'Name' },
+            { key: 'tags', label: 'Tags' }
+        ];
+        Object.keys(pool.defaultComponents || {}).filter(id => !SKIPPED_COMPONENTS.includes(id)).forEach(componentId => {
+            const def = world.componentRegistry[componentId];
+            // Blueprint entries without a registry definition still export their keys as text
+            const fields: ComponentField[] = def?.fields
+                || Object.keys(pool.defaultComponents[componentId] || {}).map(key => ({ key, type: 'text', defaultValue: '' }));
+            fields.forEach(field => columns.push({
+                key: `${componentId}.${field.key}`,
+                label: `${def?.label || componentId} › ${field.key}`,
+                componentId,
+                field
+            }));
+        });
+        return columns;
+    },
+
+    // Tags are written as labels, which is what designers read and type
+    exportPool: (world: World, pool: Pool, entities: UniversalEntity[], delimiter: CsvDelimiter = ','): string => {
+        const columns = CsvUtils.poolColumns(world, pool);
+        const rows = entities.map(entity => columns.map(column => {
+            if (column.key === 'id') return entity.id;
+            if (column.key === 'name') return entity.name;
+            if (column.key === 'tags') return (entity.tags || []).map(id => world.tags[id]?.label || id).join(`${LIST_SEPARATOR} `);
+            return formatCell(entity.components?.[column.componentId!]?.[column.field!.key], column.field!.type);
+        }));
+        return [columns.map(column => column.key), ...rows]
+            .map(row => row.map(cell => quoteCell(cell, delimiter)).join(delimiter))
+            .join('\r\n');
+    },
+
+    /**
+     * RFC 4180 parsing: quoted cells may hold delimiters, newlines and doubled quotes.
+     * The delimiter is a tab when the header line has more tabs than commas.
+     */
+    parse: (text: string): CsvTable => {
+        const source = text.replace(/^\uFEFF/, '');
+        const firstLine = source.split(/\r?\n/, 1)[0] || '';
+        const delimiter: CsvDelimiter = (firstLine.match(/\t/g) || []).length > (firstLine.match(/,/g) || []).length ? '\t' : ',';
+
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let cell = '';
+        let inQuotes = false;
+        for (let i = 0; i < source.length; i++) {
+            const char = source[i];
+            if (inQuotes) {
+                if (char === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+                else if (char === '"') inQuotes = false;
+                else cell += char;
+            } else if (char === '"' && cell === '') {
+                inQuotes = true;
+            } else if (char === delimiter) {
+                row.push(cell);
+                cell = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && source[i + 1] === '\n') i++;
+                row.push(cell);
+                rows.push(row);
+                row = [];
+                cell = '';
+            } else {
+                cell += char;
+            }
+        }
+        if (cell !== '' || row.length > 0) {
+            row.push(cell);
+            rows.push(row);
+        }
+        const nonEmpty = rows.filter(r => r.some(value => value.trim() !== ''));
+        return { delimiter, headers: (nonEmpty[0] || []).map(h => h.trim()), rows: nonEmpty.slice(1) };
+    },
+
+    // Best guess at which column each header feeds; '' means ignored
+    suggestMapping: (headers: string[], columns: CsvColumn[]): string[] => {
+        const used = new Set<string>();
+        return headers.map(header => {
+            const h = header.trim().toLowerCase();
+            const byKey = columns.find(c => c.key.toLowerCase() === h || c.label.toLowerCase() === h);
+            // A bare field key works when only one blueprint component has that field
+            const byField = columns.filter(c => c.field?.key.toLowerCase() === h);
+            const match = byKey || (byField.length === 1 ? byField[0] : undefined);
+            if (!match || used.has(match.key)) return '';
+            used.add(match.key);
+            return match.key;
+        });
+    },
+
+    // An empty cell yields `undefined`: the field keeps its current or default value
+    coerce: (raw: string, field: ComponentField): { value: any } | { error: string } => {
+        const text = raw.trim();
+        if (text === '') return { value: undefined };
+        switch (field.type) {
+            case 'number': {
+                const value = Number(text);
+                return Number.isFinite(value) ? { value } : { error: `'${text}' is not a number` };
+            }
+            case 'boolean': {
+                const lower = text.toLowerCase();
+                if (TRUE_WORDS.includes(lower)) return { value: true };
+                if (FALSE_WORDS.includes(lower)) return { value: false };
+                return { error: `'${text}' is not true or false` };
+            }
+            case 'select': {
+                if (!field.options?.length) return { value: text };
+                const option = field.options.find(o => o.toLowerCase() === text.toLowerCase());
+                return option !== undefined ? { value: option } : { error: `'${text}' is not one of ${field.options.join(', ')}` };
+            }
+            case 'list':
+                return { value: splitList(text) };
+            case 'date': {
+                if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return { value: text };
+                const date = new Date(text);
+                if (Number.isNaN(date.getTime())) return { error: `'${text}' is not a date` };
+                // Local calendar date, so "March 3" stays March 3 whatever the time zone
+                const pad = (n: number) => String(n).padStart(2, '0');
+                return { value: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` };
+            }
+            case 'dice':
+                return DiceUtils.isValid(text) ? { value: text } : { error: `'${text}' is not dice notation` };
+            default:
+                return { value: raw };
+        }
+    },
+
+    /**
+     * Turns mapped rows into entities. Rows whose ID matches an entity in `existing`
+     * update it; other rows create entities from the pool blueprint. Unknown tags
+     * become new tag definitions. Rows with any error are reported and skipped.
+     */
+    buildEntities: (table: CsvTable, mapping: string[], world: World, pool: Pool, existing: UniversalEntity[]): CsvImportPlan => {
+        const columns = new Map(CsvUtils.poolColumns(world, pool).map(column => [column.key, column]));
+        const existingById = new Map(existing.map(entity => [entity.id, entity]));
+        const tagByText = new Map<string, string>();
+        Object.values(world.tags).forEach(tag => {
+            tagByText.set(tag.id.toLowerCase(), tag.id);
+            tagByText.set(tag.label.toLowerCase(), tag.id);
+        });
+
+        const plan: CsvImportPlan = { entities: [], newTags: [], errors: [] };
+        const seenIds = new Set<string>();
+        const today = new Date().toISOString().split('T')[0];
+
+        table.rows.forEach((cells, index) => {
+            const row = index + 2;
+            const errors: CsvRowError[] = [];
+            const value = (key: string) => {
+                const i = mapping.indexOf(key);
+                return i >= 0 ? (cells[i] ?? '') : '';
+            };
+
+            const rowId = value('id').trim();
+            const current = rowId ? existingById.get(rowId) : undefined;
+            if (rowId && seenIds.has(rowId)) errors.push({ row, column: 'id', message: `ID '${rowId}' appears more than once` });
+            if (rowId) seenIds.add(rowId);
+
+            const entity: UniversalEntity = current
+                ? JSON.parse(JSON.stringify(current))
+                : { id: crypto.randomUUID(), name: '', tags: [], components: JSON.parse(JSON.stringify(pool.defaultComponents || {})) };
+            if (!current) {
+                entity.components.metadata = { id: entity.id, created_at: today };
+                entity.components.relations = {};
+            }
+
+            const name = value('name').trim();
+            if (name) entity.name = name;
+            if (!entity.name) errors.push({ row, column: 'name', message: 'Name is required' });
+
+            if (value('tags').trim()) {
+                entity.tags = splitList(value('tags')).map(text => {
+                    const known = tagByText.get(text.toLowerCase());
+                    if (known) return known;
+                    const id = normalizeTagId(text);
+                    if (!tagByText.has(id)) plan.newTags.push({ id, label: text });
+                    tagByText.set(text.toLowerCase(), tagByText.get(id) || id);
+                    tagByText.set(id, tagByText.get(id) || id);
+                    return tagByText.get(id)!;
+                }).filter(Boolean);
+            }
+
+            mapping.forEach((key, i) => {
+                const column = columns.get(key);
+                if (!column?.field) return;
+                const result = CsvUtils.coerce(cells[i] ?? '', column.field);
+                if ('error' in result) {
+                    errors.push({ row, column: key, message: result.error });
+                } else if (result.value !== undefined) {
+                    entity.components[column.componentId!] = { ...entity.components[column.componentId!], [column.field.key]: result.value };
+                }
+            });
+
+            if (errors.length > 0) plan.errors.push(...errors);
+            else plan.entities.push({ row, entity, isUpdate: !!current });
+        });
+
+        // Only keep new tags that a written row still uses
+        const usedTags = new Set(plan.entities.flatMap(({ entity }) => entity.tags));
+        plan.newTags = plan.newTags.filter(tag => usedTags.has(tag.id));
+        return plan;
+    }
+};
@@ -0,0 +1,104 @@
+// Dice-notation parser for quantity fields ("2d6", "4d6kh3+1", "d20-2", "3").
+// Rolls take a RandomSource so results replay from the roll seed.
+import { RandomSource } from './seedUtils';
+
+export interface DiceTerm {
+    sign: 1 | -1;
+    count: number; // Number of dice; 0 for a flat modifier
+    sides: number;
+    keepHighest?: number; // "kh3" / "k3": only the highest N dice count
+    modifier: number; // Flat value when count is 0
+}
+
+export interface DiceRoll {
+    expression: string; // Normalized, e.g. "4d6kh3+1"
+    total: number;
+    breakdown: string; // e.g. "4d6kh3 [6, 5, 3, (1)] + 1"
+}
+
+// Guards against typos like "1000000d6" freezing the Roller
+const MAX_DICE = 1000;
+const MAX_SIDES = 100000;
+
+// One term: optional sign, then either [N]dM[kh K | k K] or a plain integer
+const TERM_PATTERN = /([+-]?)(?:(\d*)d(\d+)(?:kh?(\d+))?|(\d+))/gy;
+
+export const DiceUtils = {
+    /**
+     * Parses an expression into terms. Returns null for anything that is not
+     * valid notation, including empty input.
+     */
+    parse: (input: string): DiceTerm[] | null => {
+        const raw = String(input ?? '');
+        // Whitespace may separate terms but must not join digits ("2d6 3" is not "2d63")
+        if (/\d\s+\d/.test(raw)) return null;
+        const source = raw.replace(/\s+/g, '').toLowerCase();
+        if (!source) return null;
+
+        const terms: DiceTerm[] = [];
+        TERM_PATTERN.lastIndex = 0;
+        while (TERM_PATTERN.lastIndex < source.length) {
+            const start = TERM_PATTERN.lastIndex;
+            const match = TERM_PATTERN.exec(source);
+            if (!match) return null;
+            // Every term after the first needs an explicit operator ("2d6d8" is not valid)
+            if (terms.length > 0 && !match[1]) return null;
+            if (start === 0 && match[1] === '+') return null;
+
+            const sign = match[1] === '-' ? -1 : 1;
+            if (match[5] !== undefined) {
+                terms.push({ sign, count: 0, sides: 0, modifier: parseInt(match[5], 10) });
+                continue;
+            }
+            const count = match[2] ? parseInt(match[2], 10) : 1;
+            const sides = parseInt(match[3], 10);
+            const keep = match[4] !== undefined ? parseInt(match[4], 10) : undefined;
+            if (count < 1 || count > MAX_DICE || sides < 1 || sides > MAX_SIDES) return null;
+            if (keep !== undefined && (keep < 1 || keep > count)) return null;
+            terms.push({ sign, count, sides, keepHighest: keep, modifier: 0 });
+        }
+        return terms.length > 0 ? terms : null;
+    },
+
+    isValid: (input: string): boolean => DiceUtils.parse(input) !== null,
+
+    format: (terms: DiceTerm[]): string =>
+        terms.map((t, idx) => {
+            const op = t.sign < 0 ? '-' : idx > 0 ? '+' : '';
+            if (t.count === 0) return `${op}${t.modifier}`;
+            return `${op}${t.count}d${t.sides}${t.keepHighest !== undefined ? `kh${t.keepHighest}` : ''}`;
+        }).join(''),
+
+    // Returns null when the expression does not parse
+    roll: (input: string, random: RandomSource): DiceRoll | null => {
+        const terms = DiceUtils.parse(input);
+        if (!terms) return null;
+
+        let total = 0;
+        const parts: string[] = [];
+        terms.forEach((term, idx) => {
+            const op = term.sign < 0 ? (idx > 0 ? '- ' : '-') : idx > 0 ? '+ ' : '';
+            if (term.count === 0) {
+                total += term.sign * term.modifier;
+                parts.push(`${op}${term.modifier}`);
+                return;
+            }
+
+            const rolls = Array.from({ length: term.count }, () => Math.floor(random() * term.sides) + 1);
+            // Dropped dice are the lowest ones; ties drop the later roll
+            const kept = new Set<number>(
+                rolls.map((value, i) => ({ value, i }))
+                    .sort((a, b) => b.value - a.value || a.i - b.i)
+                    .slice(0, term.keepHighest ?? term.count)
+                    .map(r => r.i)
+            );
+            const subtotal = rolls.reduce((sum, value, i) => sum + (kept.has(i) ? value : 0), 0);
+            total += term.sign * subtotal;
+
+            const label = `${term.count}d${term.sides}${term.keepHighest !== undefined ? `kh${term.keepHighest}` : ''}`;
+            parts.push(`${op}${label} [${rolls.map((value, i) => kept.has(i) ? String(value) : `(${value})`).join(', ')}]`);
+        });
+
+        return { expression: DiceUtils.format(terms), total, breakdown: parts.join(' ') };
+    }
+};
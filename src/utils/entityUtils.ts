@@ -1,5 +1,13 @@
 import { UniversalEntity } from '../types';
 
+// Tag ids are lowercase labels with underscores for spaces and punctuation dropped
+export const normalizeTagId = (text: string): string => {
+  if (!text) return '';
+  return text.trim().toLowerCase()
+      .replace(/\s+/g, '_')
+      .replace(/[^\p{L}\p{N}_-]+/gu, '');
+};
+
 export const EntityUtils = {
   // Safe Accessor for Description (Dynamic Scan)
   getDescription: (e: UniversalEntity) => {
@@ -40,7 +48,7 @@ export const EntityUtils = {
       const attrs: Record<string, any> = {};
       
       // FIX: Added 'description' to hidden list to prevent duplicate display
-      const HIDDEN_COMPONENTS = ['lore', 'visual', 'metadata', 'rarity', 'legacy', 'description', 'relations'];
+      const HIDDEN_COMPONENTS = ['lore', 'visual', 'metadata', 'rarity', 'roll_weight', 'legacy', 'description', 'relations'];
       // Also hide fields that are likely "long descriptions" to avoid cluttering the stats card
       const HIDDEN_FIELDS = ['description', 'bio', 'biography', 'history', 'background', 'rumor', 'secret'];
 
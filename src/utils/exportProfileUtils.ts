@@ -0,0 +1,237 @@
+// Maps a world package onto the JSON shape another tool expects (a VTT compendium,
+// a game engine's data files) using an ExportProfile: per-pool field mappings with
+// dot-path targets, constants, fallbacks and type conversions.
+import { ExportConversion, ExportFieldMapping, ExportPoolMapping, ExportProfile, Pool, RulebookPackage, UniversalEntity, World } from '../types';
+import { EntityUtils } from './entityUtils';
+
+export interface ExportProfileResult {
+    output: any;
+    counts: Record<string, number>; // Records per collection
+    unmapped: number; // Entities whose pool no mapping covers
+}
+
+export const EXPORT_CONVERSIONS: ExportConversion[] = ['string', 'number', 'integer', 'boolean', 'list', 'joined', 'html', 'lowercase', 'slug'];
+
+// Sources that are not component fields
+export const ENTITY_SOURCES = ['id', 'name', 'pool', 'poolType', 'tags', 'tagLabels', 'description', 'rarity', 'relations'];
+
+const BUILT_IN_PREFIX = 'builtin:';
+const SKIPPED_COMPONENTS = ['metadata', 'relations'];
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'x'];
+// Path segments that would write into object prototypes
+const UNSAFE_SEGMENTS = ['__proto__', 'prototype', 'constructor'];
+
+const NEXUS_FLAGS: ExportFieldMapping[] = [
+    { target: 'flags.nexus.id', source: 'id' },
+    { target: 'flags.nexus.pool', source: 'pool' },
+    { target: 'flags.nexus.tags', source: 'tagLabels' }
+];
+
+export const BUILT_IN_EXPORT_PROFILES: ExportProfile[] = [
+    {
+        id: `${BUILT_IN_PREFIX}foundry`,
+        name: 'Foundry VTT compendia',
+        description: 'Asset pools become Item documents, other pools JournalEntry documents with one text page. Item type and system paths follow dnd5e; duplicate the profile to adapt them to another game system.',
+        wrap: true,
+        created: 0,
+        mappings: [
+            {
+                collection: 'items',
+                poolTypes: ['Asset'],
+                fields: [
+                    { target: 'name', source: 'name' },
+                    { target: 'type', constant: 'loot' },
+                    { target: 'img', constant: 'icons/svg/item-bag.svg' },
+                    { target: 'system.description.value', source: 'description', convert: 'html', fallback: '' },
+                    { target: 'system.rarity', source: 'rarity', convert: 'lowercase', fallback: '' },
+                    ...NEXUS_FLAGS
+                ]
+            },
+            {
+                collection: 'journal',
+                fields: [
+                    { target: 'name', source: 'name' },
+                    { target: 'pages.0.name', source: 'name' },
+                    { target: 'pages.0.type', constant: 'text' },
+                    { target: 'pages.0.text.content', source: 'description', convert: 'html', fallback: '' },
+                    { target: 'pages.0.text.format', constant: 1 },
+                    ...NEXUS_FLAGS
+                ]
+            }
+        ]
+    },
+    {
+        id: `${BUILT_IN_PREFIX}flat`,
+        name: 'Generic flat',
+        description: 'One array of flat records: identity columns plus every component field as <component>_<field>. Suits game engines and spreadsheet-like loaders.',
+        created: 0,
+        mappings: [
+            {
+                collection: 'entities',
+                flattenComponents: true,
+                fields: [
+                    { target: 'id', source: 'id' },
+                    { target: 'name', source: 'name' },
+                    { target: 'pool', source: 'pool' },
+                    { target: 'category', source: 'poolType' },
+                    { target: 'tags', source: 'tagLabels', convert: 'list', fallback: [] },
+                    { target: 'description', source: 'description', fallback: '' },
+                    { target: 'rarity', source: 'rarity', fallback: '' }
+                ]
+            }
+        ]
+    }
+];
+
+const isEmpty = (value: any) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const matches = (mapping: ExportPoolMapping, pool: Pool) => {
+    const byName = mapping.pools?.length ? mapping.pools.includes(pool.name) : undefined;
+    const byType = mapping.poolTypes?.length ? mapping.poolTypes.includes(pool.type) : undefined;
+    if (byName === undefined && byType === undefined) return true;
+    return !!byName || !!byType;
+};
+
+export const ExportProfileUtils = {
+    isBuiltIn: (id: string) => id.startsWith(BUILT_IN_PREFIX),
+
+    // Built-in profiles first, then the world's own
+    listProfiles: (world: World): ExportProfile[] => [...BUILT_IN_EXPORT_PROFILES, ...(world.exportProfiles || [])],
+
+    // Every source a field mapping can read for this world
+    availableSources: (world: World): string[] => [
+        ...ENTITY_SOURCES,
+        ...Object.values(world.componentRegistry || {})
+            .filter(def => !SKIPPED_COMPONENTS.includes(def.id))
+            .flatMap(def => def.fields.map(field => `${def.id}.${field.key}`))
+    ],
+
+    readSource: (entity: UniversalEntity, source: string, pool: Pool, world: World): any => {
+        switch (source) {
+            case 'id': return entity.id;
+            case 'name': return entity.name;
+            case 'pool': return pool.name;
+            case 'poolType': return pool.type;
+            case 'tags': return [...(entity.tags || [])];
+            case 'tagLabels': return (entity.tags || []).map(id => world.tags[id]?.label || id);
+            case 'description': return EntityUtils.getDescription(entity) || undefined;
+            // Only entities with a rarity component have one, as in the pool view
+            case 'rarity': return entity.components?.['rarity'] ? EntityUtils.getRarity(entity) : undefined;
+            case 'relations': return entity.components?.relations ? JSON.parse(JSON.stringify(entity.components.relations)) : undefined;
+        }
+        const dot = source.indexOf('.');
+        if (dot < 0) return undefined;
+        return entity.components?.[source.slice(0, dot)]?.[source.slice(dot + 1)];
+    },
+
+    convert: (value: any, conversion?: ExportConversion): any => {
+        if (!conversion || value === undefined || value === null) return value;
+        switch (conversion) {
+            case 'string':
+                if (Array.isArray(value)) return value.join(', ');
+                return typeof value === 'object' ? JSON.stringify(value) : String(value);
+            case 'number':
+            case 'integer': {
+                const number = typeof value === 'number' ? value : Number(String(value).trim());
+                if (String(value).trim() === '' || !Number.isFinite(number)) return null;
+                return conversion === 'integer' ? Math.round(number) : number;
+            }
+            case 'boolean':
+                return typeof value === 'boolean' ? value : TRUE_WORDS.includes(String(value).trim().toLowerCase());
+            case 'list':
+                if (Array.isArray(value)) return value;
+                return typeof value === 'string' ? value.split(/[;,]/).map(part => part.trim()).filter(Boolean) : [value];
+            case 'joined':
+                return Array.isArray(value) ? value.join(', ') : value;
+            case 'html':
+                return String(value).trim().split(/\n\s*\n/).filter(Boolean)
+                    .map(block => `<p>${escapeHtml(block.trim()).replace(/\r?\n/g, '<br>')}</p>`).join('');
+            case 'lowercase':
+                return String(value).toLowerCase();
+            case 'slug':
+                return String(value).toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+        }
+        return value;
+    },
+
+    // Writes `value` at a dot path, creating objects, or arrays where the next segment is numeric
+    setPath: (record: any, path: string, value: any) => {
+        const segments = path.split('.');
+        let node = record;
+        segments.slice(0, -1).forEach((segment, i) => {
+            const key = /^\d+$/.test(segment) ? Number(segment) : segment;
+            if (node[key] === undefined || node[key] === null || typeof node[key] !== 'object') {
+                node[key] = /^\d+$/.test(segments[i + 1]) ? [] : {};
+            }
+            node = node[key];
+        });
+        const last = segments[segments.length - 1];
+        node[/^\d+$/.test(last) ? Number(last) : last] = value;
+    },
+
+    // Problems that would make the profile produce broken output; empty when it is usable
+    validate: (profile: ExportProfile): string[] => {
+        const errors: string[] = [];
+        if (!profile || typeof profile !== 'object') return ['Profile must be an object'];
+        if (!profile.name?.trim()) errors.push('Profile needs a name');
+        if (!Array.isArray(profile.mappings) || profile.mappings.length === 0) {
+            errors.push('Profile needs at least one pool mapping');
+            return errors;
+        }
+        profile.mappings.forEach((mapping, i) => {
+            const where = `mappings[${i}]`;
+            if (!mapping.collection?.trim()) errors.push(`${where}: collection is required`);
+            if (!Array.isArray(mapping.fields)) {
+                errors.push(`${where}: fields must be a list`);
+                return;
+            }
+            mapping.fields.forEach((field, j) => {
+                const at = `${where}.fields[${j}]`;
+                if (!field.target || field.target.split('.').some(segment => !segment.trim() || UNSAFE_SEGMENTS.includes(segment))) errors.push(`${at}: target path is invalid`);
+                if (!field.source && field.constant === undefined) errors.push(`${at}: needs a source or a constant`);
+                if (field.convert && !EXPORT_CONVERSIONS.includes(field.convert)) errors.push(`${at}: unknown conversion '${field.convert}'`);
+            });
+        });
+        return errors;
+    },
+
+    apply: (pkg: RulebookPackage, profile: ExportProfile): ExportProfileResult => {
+        const world = pkg.world;
+        const collections: Record<string, any[]> = {};
+        profile.mappings.forEach(mapping => { collections[mapping.collection] = collections[mapping.collection] || []; });
+        let unmapped = 0;
+
+        Object.values(world.pools).forEach(pool => {
+            const mapping = profile.mappings.find(candidate => matches(candidate, pool));
+            if (!mapping) {
+                unmapped += (pool.entities || []).length;
+                return;
+            }
+            (pool.entities || []).forEach(entity => {
+                const record: any = {};
+                mapping.fields.forEach(field => {
+                    let value = field.source ? ExportProfileUtils.readSource(entity, field.source, pool, world) : field.constant;
+                    if (isEmpty(value) && field.fallback !== undefined) value = field.fallback;
+                    value = ExportProfileUtils.convert(value, field.convert);
+                    if (value !== undefined) ExportProfileUtils.setPath(record, field.target, value);
+                });
+                if (mapping.flattenComponents) {
+                    Object.entries(entity.components || {})
+                        .filter(([id]) => !SKIPPED_COMPONENTS.includes(id))
+                        .forEach(([id, data]) => Object.entries(data || {}).forEach(([key, value]) => {
+                            const column = `${id}_${key}`;
+                            if (!(column in record)) record[column] = value;
+                        }));
+                }
+                collections[mapping.collection].push(record);
+            });
+        });
+
+        const counts = Object.fromEntries(Object.entries(collections).map(([name, records]) => [name, records.length]));
+        const names = Object.keys(collections);
+        const output = names.length === 1 && !profile.wrap ? collections[names[0]] : collections;
+        return { output, counts, unmapped };
+    }
+};
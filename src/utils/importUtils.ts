@@ -0,0 +1,400 @@
+// Package import: JSON parsing, shape validation, and merging into an existing world
+// with per-conflict choices. Everything here is pure; WorldManager does the writes.
+import { ComponentDefinition, Pool, RulebookPackage, TagDefinition, UniversalEntity, World } from '../types';
+import { WorldOperationError } from '../services/worldErrors';
+import { MigrationUtils, MigrationReport } from './migrationUtils';
+import { PackageUtils } from './packageUtils';
+import { QueryUtils } from './queryUtils';
+
+export interface ImportIssue {
+    severity: 'error' | 'warning'; // Errors block the import
+    path: string; // e.g. "pools.NPCs.entities[3].tags"
+    message: string;
+}
+
+export interface ImportSummary {
+    worldName: string;
+    pools: { name: string; type: string; entities: number }[];
+    components: number;
+    tags: number;
+    rules: number;
+    entities: number;
+}
+
+export type ConflictKind = 'pool' | 'component' | 'tag' | 'entity';
+export type ConflictResolution = 'skip' | 'overwrite' | 'rename';
+
+export interface ImportConflict {
+    key: string; // `${kind}:${id}`, the key into the resolution map
+    kind: ConflictKind;
+    id: string; // Pool name, component ID, tag ID or incoming entity ID
+    label: string;
+    pool?: string; // Entities: the incoming pool
+}
+
+export interface MergeSummary {
+    poolsAdded: number;
+    componentsAdded: number;
+    tagsAdded: number;
+    rulesAdded: number;
+    entitiesAdded: number;
+    entitiesOverwritten: number;
+    entitiesSkipped: number;
+}
+
+export interface MergePlan {
+    world: World; // The target world after the merge, without entities
+    entities: { pool: string; entity: UniversalEntity }[]; // Entities to write
+    mergedPools: string[]; // Existing pools whose blueprint gained components or fields from the package
+    summary: MergeSummary;
+}
+
+// What each conflict does when the user has not chosen: keep the target as it is,
+// except that a same-named pool is merged into rather than dropped
+export const DEFAULT_RESOLUTION: Record<ConflictKind, ConflictResolution> = {
+    pool: 'overwrite',
+    component: 'skip',
+    tag: 'skip',
+    entity: 'skip'
+};
+
+const POOL_TYPES = ['Asset', 'World', 'Character'];
+const FIELD_TYPES = ['text', 'number', 'boolean', 'select', 'list', 'date', 'dice'];
+const MAX_ISSUES = 200;
+// Built-in components that entities carry without a registry entry
+const UNREGISTERED_COMPONENTS = ['metadata', 'relations'];
+
+const isRecord = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: any) => typeof value === 'string';
+const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+// First of `base`, `base (2)`, `base (3)`... that is not taken
+const uniqueName = (base: string, taken: (candidate: string) => boolean, format = (n: number) => `${base} (${n})`) => {
+    if (!taken(base)) return base;
+    let n = 2;
+    while (taken(format(n))) n++;
+    return format(n);
+};
+
+export const ImportUtils = {
+    /**
+     * Parses a package file and brings it up to the current data version. Bare world
+     * objects without the package wrapper are accepted.
+     */
+    parse: (json: string): { pkg: RulebookPackage; migration: MigrationReport } => {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(json);
+        } catch (e) {
+            throw new WorldOperationError('invalid', "Not a valid JSON file.", e);
+        }
+        const pkg: RulebookPackage = parsed?.world ? parsed : { version: '', exportDate: Date.now(), world: parsed };
+        if (!isRecord(pkg.world) || !isString(pkg.world.name) || !pkg.world.name) {
+            throw new WorldOperationError('invalid', "Not a Rulebook package: the world has no name.");
+        }
+        const migration = MigrationUtils.migratePackage(pkg);
+        return { pkg, migration };
+    },
+
+    // Checks a (migrated) package against the World / UniversalEntity shapes
+    validate: (pkg: RulebookPackage): ImportIssue[] => {
+        const issues: ImportIssue[] = [];
+        const add = (severity: ImportIssue['severity'], path: string, message: string) => {
+            if (issues.length < MAX_ISSUES) issues.push({ severity, path, message });
+        };
+        const world = pkg.world;
+
+        Object.entries(world.tags || {}).forEach(([id, tag]) => {
+            if (!isRecord(tag)) add('error', `tags.${id}`, 'Tag definition must be an object.');
+            else if (!isString(tag.label)) add('error', `tags.${id}.label`, 'Tag label must be text.');
+        });
+
+        Object.entries(world.componentRegistry || {}).forEach(([id, def]) => {
+            const path = `componentRegistry.${id}`;
+            if (!isRecord(def)) { add('error', path, 'Component definition must be an object.'); return; }
+            if (def.id !== id) add('warning', `${path}.id`, `ID '${def.id}' does not match its key; the key is used.`);
+            if (!isString(def.label)) add('error', `${path}.label`, 'Component label must be text.');
+            if (!Array.isArray(def.fields)) { add('error', `${path}.fields`, 'Fields must be a list.'); return; }
+            def.fields.forEach((field, i) => {
+                if (!isRecord(field) || !isString(field.key) || !field.key) add('error', `${path}.fields[${i}]`, 'Field needs a key.');
+                else if (!FIELD_TYPES.includes(field.type)) add('error', `${path}.fields[${i}].type`, `Unknown field type '${field.type}'.`);
+            });
+        });
+
+        const entityIds = new Set<string>();
+        Object.entries(world.pools || {}).forEach(([poolName, pool]) => {
+            const path = `pools.${poolName}`;
+            if (!isRecord(pool)) { add('error', path, 'Pool must be an object.'); return; }
+            if (!POOL_TYPES.includes(pool.type)) add('error', `${path}.type`, `Pool type must be one of ${POOL_TYPES.join(', ')}.`);
+            if (!isRecord(pool.defaultComponents)) add('error', `${path}.defaultComponents`, 'Blueprint must be an object.');
+            (pool.entities || []).forEach((entity, i) => {
+                const entityPath = `${path}.entities[${i}]`;
+                if (!isRecord(entity)) { add('error', entityPath, 'Entity must be an object.'); return; }
+                if (!isString(entity.id) || !entity.id) add('error', `${entityPath}.id`, 'Entity needs an ID.');
+                else if (entityIds.has(entity.id)) add('error', `${entityPath}.id`, `Duplicate entity ID '${entity.id}'.`);
+                else entityIds.add(entity.id);
+                if (!isString(entity.name)) add('error', `${entityPath}.name`, 'Entity name must be text.');
+                if (!Array.isArray(entity.tags) || !entity.tags.every(isString)) {
+                    add('error', `${entityPath}.tags`, 'Tags must be a list of tag IDs.');
+                } else {
+                    entity.tags.filter(tag => !world.tags?.[tag]).forEach(tag => add('warning', `${entityPath}.tags`, `Tag '${tag}' is not defined.`));
+                }
+                if (!isRecord(entity.components) || !Object.values(entity.components).every(isRecord)) {
+                    add('error', `${entityPath}.components`, 'Components must map component IDs to objects.');
+                } else {
+                    Object.keys(entity.components)
+                        .filter(id => !UNREGISTERED_COMPONENTS.includes(id) && !world.componentRegistry?.[id])
+                        .forEach(id => add('warning', `${entityPath}.components.${id}`, `Component '${id}' is not registered.`));
+                }
+            });
+        });
+
+        (world.rules || []).forEach((rule, i) => {
+            if (!isRecord(rule) || !isString(rule.id) || !isString(rule.name)) add('error', `rules[${i}]`, 'Rule needs an ID and a name.');
+        });
+        return issues;
+    },
+
+    summarize: (pkg: RulebookPackage): ImportSummary => {
+        const pools = Object.entries(pkg.world.pools || {}).map(([name, pool]) => ({ name, type: pool.type, entities: (pool.entities || []).length }));
+        return {
+            worldName: pkg.world.name,
+            pools,
+            components: Object.keys(pkg.world.componentRegistry || {}).length,
+            tags: Object.keys(pkg.world.tags || {}).length,
+            rules: (pkg.world.rules || []).length,
+            entities: pools.reduce((sum, pool) => sum + pool.entities, 0)
+        };
+    },
+
+    /**
+     * Everything in `incoming` that collides with `target`: same-named pools, and
+     * components and tags that share an ID but differ. Entity conflicts are same-named
+     * entities (ignoring case) in a pool both packages have.
+     */
+    findConflicts: (incoming: RulebookPackage, target: RulebookPackage): ImportConflict[] => {
+        const conflicts: ImportConflict[] = [];
+        const a = incoming.world;
+        const b = target.world;
+
+        Object.keys(a.pools || {}).filter(name => b.pools?.[name]).forEach(name => {
+            conflicts.push({ key: `pool:${name}`, kind: 'pool', id: name, label: name });
+            const existing = new Set((b.pools[name].entities || []).map(entity => nameKey(entity.name)));
+            (a.pools[name].entities || []).filter(entity => existing.has(nameKey(entity.name))).forEach(entity => {
+                conflicts.push({ key: `entity:${entity.id}`, kind: 'entity', id: entity.id, label: entity.name, pool: name });
+            });
+        });
+        Object.entries(a.componentRegistry || {}).forEach(([id, def]) => {
+            if (b.componentRegistry?.[id] && !same(b.componentRegistry[id], def)) {
+                conflicts.push({ key: `component:${id}`, kind: 'component', id, label: def.label || id });
+            }
+        });
+        Object.entries(a.tags || {}).forEach(([id, tag]) => {
+            if (b.tags?.[id] && !same(b.tags[id], tag)) {
+                conflicts.push({ key: `tag:${id}`, kind: 'tag', id, label: tag.label || id });
+            }
+        });
+        return conflicts;
+    },
+
+    resolutionFor: (resolutions: Record<string, ConflictResolution>, kind: ConflictKind, id: string): ConflictResolution =>
+        resolutions[`${kind}:${id}`] || DEFAULT_RESOLUTION[kind],
+
+    /**
+     * Merges `incoming` into `target` (a full package, entities included) and returns
+     * the new world record plus the entities to write. Renamed tags and components are
+     * rewritten wherever incoming data refers to them. Entities get fresh IDs, except
+     * overwritten ones, which keep the target's ID; relations to a skipped entity are
+     * pointed at the same-named target entity instead.
+     */
+    planMerge: (incoming: RulebookPackage, target: RulebookPackage, resolutions: Record<string, ConflictResolution>): MergePlan => {
+        const src: World = JSON.parse(JSON.stringify(incoming.world));
+        const world: World = JSON.parse(JSON.stringify(target.world));
+        world.tags = world.tags || {};
+        world.componentRegistry = world.componentRegistry || {};
+        world.pools = world.pools || {};
+        world.rules = world.rules || [];
+        const resolve = (kind: ConflictKind, id: string) => ImportUtils.resolutionFor(resolutions, kind, id);
+        const summary: MergeSummary = { poolsAdded: 0, componentsAdded: 0, tagsAdded: 0, rulesAdded: 0, entitiesAdded: 0, entitiesOverwritten: 0, entitiesSkipped: 0 };
+
+        // 1. Tags. IDs are settled first so opposites can be rewritten as tags are added.
+        const tagMap = new Map<string, string>();
+        const tagsToAdd: [string, TagDefinition][] = [];
+        Object.entries(src.tags || {}).forEach(([id, tag]) => {
+            const existing = world.tags[id];
+            if (!existing) { tagsToAdd.push([id, tag]); return; }
+            if (same(existing, tag)) return;
+            const choice = resolve('tag', id);
+            if (choice === 'overwrite') tagsToAdd.push([id, tag]);
+            if (choice === 'rename') {
+                const newId = uniqueName(id, key => !!world.tags[key] || !!src.tags[key] || tagsToAdd.some(([added]) => added === key), n => `${id}_${n}`);
+                const label = uniqueName(tag.label, candidate => Object.values(world.tags).some(t => t.label === candidate));
+                tagMap.set(id, newId);
+                tagsToAdd.push([newId, { ...tag, id: newId, label }]);
+            }
+        });
+        const mapTag = (id: string) => tagMap.get(id) || id;
+        tagsToAdd.forEach(([id, tag]) => {
+            if (!world.tags[id]) summary.tagsAdded++;
+            world.tags[id] = { ...tag, id, opposites: tag.opposites?.map(mapTag) };
+        });
+
+        // 2. Component definitions
+        const componentMap = new Map<string, string>();
+        Object.entries(src.componentRegistry || {}).forEach(([id, def]) => {
+            const existing = world.componentRegistry[id];
+            if (!existing) { world.componentRegistry[id] = { ...def, id }; summary.componentsAdded++; return; }
+            if (same(existing, def)) return;
+            const choice = resolve('component', id);
+            if (choice === 'overwrite') world.componentRegistry[id] = { ...def, id };
+            if (choice === 'rename') {
+                const newId = uniqueName(id, key => !!world.componentRegistry[key] || !!src.componentRegistry[key], n => `${id}_${n}`);
+                world.componentRegistry[newId] = { ...def, id: newId, label: `${def.label} (${newId})` } as ComponentDefinition;
+                componentMap.set(id, newId);
+                summary.componentsAdded++;
+            }
+        });
+        const mapComponents = <T,>(components: Record<string, T>): Record<string, T> =>
+            Object.fromEntries(Object.entries(components || {}).map(([id, value]) => [componentMap.get(id) || id, value]));
+
+        // 3. Pools, and which incoming entities land where
+        const poolMap = new Map<string, string>();
+        const targetByName = new Map<string, Map<string, string>>(); // pool -> lowercased name -> target entity ID
+        const idMap = new Map<string, string>(); // incoming entity ID -> final ID
+        const overwritten = new Set<string>();
+        const kept: { pool: string; entity: UniversalEntity }[] = [];
+        const mergedPools: string[] = [];
+
+        Object.entries(src.pools || {}).forEach(([name, pool]) => {
+            const incomingPool: Pool = { ...pool, name, defaultComponents: mapComponents(pool.defaultComponents), entities: [] };
+            let destination = name;
+            if (world.pools[name]) {
+                const choice = resolve('pool', name);
+                if (choice === 'skip') {
+                    summary.entitiesSkipped += (pool.entities || []).length;
+                    return;
+                }
+                if (choice === 'rename') {
+                    destination = uniqueName(name, key => !!world.pools[key] || !!src.pools[key]);
+                    world.pools[destination] = { ...incomingPool, name: destination };
+                    summary.poolsAdded++;
+                } else {
+                    // Merged into: the target keeps its description, color and blueprint values,
+                    // and gains the components and fields only the package has
+                    const existing = world.pools[name];
+                    const blueprint = JSON.parse(JSON.stringify(existing.defaultComponents || {}));
+                    let grew = false;
+                    Object.entries(incomingPool.defaultComponents || {}).forEach(([id, fields]) => {
+                        if (!blueprint[id]) {
+                            blueprint[id] = fields;
+                            grew = true;
+                            return;
+                        }
+                        Object.entries(fields || {}).forEach(([key, value]) => {
+                            if (blueprint[id][key] === undefined) {
+                                blueprint[id][key] = value;
+                                grew = true;
+                            }
+                        });
+                    });
+                    world.pools[name] = { ...existing, defaultComponents: blueprint };
+                    if (grew) mergedPools.push(name);
+                    targetByName.set(name, new Map(
+                        (target.world.pools[name]?.entities || []).map(entity => [nameKey(entity.name), entity.id] as [string, string])
+                    ));
+                }
+            } else {
+                world.pools[name] = incomingPool;
+                summary.poolsAdded++;
+            }
+            poolMap.set(name, destination);
+
+            const existingNames = targetByName.get(destination);
+            const takenNames = new Set([
+                ...(target.world.pools[destination]?.entities || []).map(entity => nameKey(entity.name)),
+                ...(pool.entities || []).map(entity => nameKey(entity.name))
+            ]);
+            (pool.entities || []).forEach(entity => {
+                const match = existingNames?.get(nameKey(entity.name));
+                if (!match) { kept.push({ pool: destination, entity }); return; }
+                const choice = resolve('entity', entity.id);
+                if (choice === 'skip') {
+                    idMap.set(entity.id, match);
+                    summary.entitiesSkipped++;
+                } else if (choice === 'overwrite') {
+                    idMap.set(entity.id, match);
+                    overwritten.add(entity.id);
+                    kept.push({ pool: destination, entity });
+                } else {
+                    const newName = uniqueName(entity.name, candidate => takenNames.has(nameKey(candidate)));
+                    takenNames.add(nameKey(newName));
+                    kept.push({ pool: destination, entity: { ...entity, name: newName } });
+                }
+            });
+        });
+
+        // 4. Rewrite IDs and references in what is kept
+        const keptPools: Record<string, Pool> = {};
+        kept.forEach(({ pool, entity }) => {
+            if (!keptPools[pool]) keptPools[pool] = { ...world.pools[pool], entities: [] };
+            keptPools[pool].entities.push({
+                ...entity,
+                tags: Array.from(new Set((entity.tags || []).map(mapTag))),
+                components: mapComponents(entity.components)
+            });
+        });
+        const remapped = PackageUtils.remapEntityIds(
+            { version: '', exportDate: 0, world: { ...src, pools: keptPools } },
+            oldId => idMap.get(oldId) || crypto.randomUUID(),
+            oldId => idMap.get(oldId) // Skipped duplicates resolve to the target's entity
+        );
+        const entities = Object.entries(remapped.world.pools).flatMap(([pool, data]) => data.entities.map(entity => ({ pool, entity })));
+        summary.entitiesOverwritten = overwritten.size;
+        summary.entitiesAdded = entities.length - overwritten.size;
+
+        // 5. Rules, roll tables, saved views and export profiles that the target does not have by name
+        const mapPool = (name: string) => poolMap.get(name) || name;
+        const hasName = (list: { name: string }[] | undefined, name: string) => (list || []).some(item => item.name === name);
+        (remapped.world.rules || []).forEach(rule => {
+            if (hasName(world.rules, rule.name)) return;
+            world.rules.push({
+                ...rule,
+                id: crypto.randomUUID(),
+                references: (rule.references || []).map(ref => ref.type === 'tag' ? { ...ref, id: mapTag(ref.id) } : ref),
+                effects: rule.effects?.map(effect => effect.targetType === 'tag' ? { ...effect, target: mapTag(effect.target) } : effect),
+                condition: rule.condition && {
+                    ...rule.condition,
+                    contextTags: rule.condition.contextTags?.map(mapTag),
+                    pools: rule.condition.pools?.map(mapPool)
+                }
+            });
+            summary.rulesAdded++;
+        });
+        (src.rollTables || []).forEach(table => {
+            if (hasName(world.rollTables, table.name)) return;
+            world.rollTables = [...(world.rollTables || []), {
+                ...table,
+                id: crypto.randomUUID(),
+                steps: table.steps.map(step => ({ ...step, pool: mapPool(step.pool) }))
+            }];
+        });
+        (src.savedViews || []).forEach(view => {
+            if (hasName(world.savedViews, view.name)) return;
+            let query = view.query;
+            poolMap.forEach((to, from) => { if (to !== from) query = QueryUtils.renameFilterValue(query, 'pool', from, to); });
+            tagMap.forEach((to, from) => { query = QueryUtils.renameFilterValue(query, 'tag', from, to); });
+            world.savedViews = [...(world.savedViews || []), { ...view, id: crypto.randomUUID(), query }];
+        });
+        (src.exportProfiles || []).forEach(profile => {
+            if (hasName(world.exportProfiles, profile.name)) return;
+            world.exportProfiles = [...(world.exportProfiles || []), {
+                ...profile,
+                id: crypto.randomUUID(),
+                mappings: profile.mappings.map(mapping => ({ ...mapping, pools: mapping.pools?.map(mapPool) }))
+            }];
+        });
+
+        return { world, entities, mergedPools, summary };
+    }
+};
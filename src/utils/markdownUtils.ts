@@ -0,0 +1,307 @@
+// Renders a world package as a folder of Markdown pages (an Obsidian-style vault):
+// an index, lore, tags glossary and rules, one page per pool and one per entity.
+// Links between pages are relative Markdown links, so they also work on plain wikis.
+import { RulebookPackage, Rule, UniversalEntity, World } from '../types';
+import { ZipEntry } from './zipUtils';
+
+export interface MarkdownVault {
+    root: string; // Top-level folder, named after the world
+    files: ZipEntry[]; // Paths relative to the root
+}
+
+interface EntityPage {
+    entity: UniversalEntity;
+    pool: string;
+    path: string;
+}
+
+// Components every entity carries; metadata goes to the frontmatter, relations to their own section
+const SYSTEM_COMPONENTS = ['metadata', 'relations'];
+const LORE_PAGE = 'Lore.md';
+const TAGS_PAGE = 'Tags.md';
+const RULES_PAGE = 'Rules.md';
+const INDEX_PAGE = 'README.md';
+
+// File names valid on every OS; Obsidian also treats #, ^, [, ] and | specially
+const toFileName = (name: string, fallback = 'Untitled'): string => {
+    const cleaned = name
+        .replace(/[\\/:*?"<>|#^[\]\u0000-\u001F]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^\.+|\.+$/g, '')
+        .slice(0, 100)
+        .trim();
+    return cleaned || fallback;
+};
+
+// Anchor slug as GitHub and Obsidian generate it for a heading
+const toAnchor = (heading: string) => heading.trim().toLowerCase().replace(/[^\p{L}\p{N}\s-]/gu, '').replace(/\s/g, '-');
+
+// Relative link from one vault page to another
+const linkTo = (from: string, to: string, label: string, anchor?: string): string => {
+    const fromParts = from.split('/').slice(0, -1);
+    const toParts = to.split('/');
+    let common = 0;
+    while (common < fromParts.length && common < toParts.length - 1 && fromParts[common] === toParts[common]) common++;
+    const relative = [...fromParts.slice(common).map(() => '..'), ...toParts.slice(common)];
+    const href = relative.map(encodeURIComponent).join('/') + (anchor ? `#${toAnchor(anchor)}` : '');
+    return `[${escapeText(label)}](${href})`;
+};
+
+const escapeText = (text: string) => text.replace(/([\\[\]*_`|<>])/g, '\\$1');
+const escapeCell = (text: string) => escapeText(text).replace(/\r?\n/g, '<br>');
+
+const yamlString = (value: string) => JSON.stringify(value);
+
+const formatValue = (value: any): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (Array.isArray(value)) return value.length ? value.map(formatValue).join(', ') : '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'object') return `\`${JSON.stringify(value)}\``;
+    const text = String(value);
+    // Generated images are embedded as data URLs; they would swamp the page
+    if (text.startsWith('data:image/')) return '*(image)*';
+    return escapeCell(text);
+};
+
+const table = (headers: string[], rows: string[][]): string[] => [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`)
+];
+
+export const MarkdownUtils = {
+    renderWorld: (pkg: RulebookPackage): MarkdownVault => {
+        const world = pkg.world;
+        const files: ZipEntry[] = [];
+
+        // Assign every entity a unique page path inside its pool folder
+        const poolFolders = new Map<string, string>();
+        const usedFolders = new Set<string>();
+        const pages = new Map<string, EntityPage>();
+        Object.keys(world.pools).sort((a, b) => a.localeCompare(b)).forEach(poolName => {
+            const folder = uniqueName(toFileName(poolName), usedFolders);
+            poolFolders.set(poolName, folder);
+            const usedPages = new Set<string>([folder.toLowerCase()]);
+            sortByName(world.pools[poolName].entities || []).forEach(entity => {
+                const page = uniqueName(toFileName(entity.name), usedPages);
+                pages.set(entity.id, { entity, pool: poolName, path: `${folder}/${page}.md` });
+            });
+        });
+
+        const byName = new Map<string, EntityPage>();
+        pages.forEach(page => {
+            const key = page.entity.name.trim().toLowerCase();
+            if (key && !byName.has(key)) byName.set(key, page);
+        });
+        // Relation values, rule item references and effect targets hold an entity ID or an entity name
+        const resolveEntity = (idOrName: string) => pages.get(idOrName) || byName.get(idOrName.trim().toLowerCase());
+
+        // Backlinks: relations pointing at each entity, and rules referencing it
+        const linkedFrom = new Map<string, { page: EntityPage; type: string }[]>();
+        pages.forEach(page => {
+            Object.entries(page.entity.components?.relations || {}).forEach(([type, ids]) => {
+                (Array.isArray(ids) ? ids : []).forEach((idOrName: string) => {
+                    const target = resolveEntity(String(idOrName));
+                    if (!target || target.entity.id === page.entity.id) return;
+                    const id = target.entity.id;
+                    if (!linkedFrom.has(id)) linkedFrom.set(id, []);
+                    if (linkedFrom.get(id)!.some(link => link.page === page && link.type === type)) return;
+                    linkedFrom.get(id)!.push({ page, type });
+                });
+            });
+        });
+        const rulesFor = new Map<string, Rule[]>();
+        (world.rules || []).forEach(rule => {
+            const targets = new Set<string>();
+            (rule.references || []).filter(ref => ref.type === 'item').forEach(ref => {
+                const page = resolveEntity(ref.id) || resolveEntity(ref.label);
+                if (page) targets.add(page.entity.id);
+            });
+            (rule.effects || []).filter(effect => effect.targetType === 'item').forEach(effect => {
+                const page = resolveEntity(effect.target);
+                if (page) targets.add(page.entity.id);
+            });
+            targets.forEach(id => {
+                if (!rulesFor.has(id)) rulesFor.set(id, []);
+                rulesFor.get(id)!.push(rule);
+            });
+        });
+
+        const tagLink = (from: string, id: string) => world.tags[id]
+            ? linkTo(from, TAGS_PAGE, world.tags[id].label, world.tags[id].label)
+            : `\`${escapeText(id)}\``;
+        const entityLink = (from: string, idOrName: string, label?: string) => {
+            const page = resolveEntity(idOrName);
+            return page ? linkTo(from, page.path, page.entity.name) : escapeText(label || idOrName);
+        };
+        const ruleLink = (from: string, rule: Rule) => linkTo(from, RULES_PAGE, rule.name || 'Untitled rule', rule.name || 'Untitled rule');
+
+        // --- Index ---
+        const index: string[] = [`# ${escapeText(world.name)}`, ''];
+        if (world.config?.genre) index.push(`*${escapeText(world.config.genre)}*`, '');
+        index.push(
+            `- ${linkTo(INDEX_PAGE, LORE_PAGE, 'Lore & Context')}`,
+            `- ${linkTo(INDEX_PAGE, TAGS_PAGE, 'Tags')} (${Object.keys(world.tags || {}).length})`,
+            `- ${linkTo(INDEX_PAGE, RULES_PAGE, 'Rules')} (${(world.rules || []).length})`,
+            '', '## Pools', ''
+        );
+        poolFolders.forEach((folder, poolName) => {
+            const pool = world.pools[poolName];
+            index.push(`- ${linkTo(INDEX_PAGE, `${folder}/${folder}.md`, poolName)} — ${pool.type}, ${(pool.entities || []).length} entries`);
+        });
+        index.push('', `*Exported ${new Date(pkg.exportDate || Date.now()).toISOString().split('T')[0]}*`, '');
+        files.push({ path: INDEX_PAGE, content: index.join('\n') });
+
+        // --- Lore & context fields ---
+        const lore: string[] = ['# Lore & Context', ''];
+        lore.push(world.config?.loreContext?.trim() || '*No lore context.*', '');
+        const fields = (world.config?.contextFields || []).filter(field => field.key || field.value);
+        if (fields.length > 0) {
+            lore.push('## Context Fields', '', ...table(['Field', 'Value'], fields.map(field => [escapeCell(field.key), escapeCell(field.value)])), '');
+        }
+        files.push({ path: LORE_PAGE, content: lore.join('\n') });
+
+        // --- Tags glossary ---
+        const tagCounts = new Map<string, number>();
+        pages.forEach(page => (page.entity.tags || []).forEach(id => tagCounts.set(id, (tagCounts.get(id) || 0) + 1)));
+        const tagsPage: string[] = ['# Tags', ''];
+        const tags = Object.values(world.tags || {}).sort((a, b) => a.label.localeCompare(b.label));
+        if (tags.length === 0) tagsPage.push('*No tags defined.*', '');
+        tags.forEach(tag => {
+            tagsPage.push(`## ${escapeText(tag.label)}`, '', `- ID: \`${tag.id}\``, `- Used by: ${tagCounts.get(tag.id) || 0} entries`);
+            if (tag.opposites?.length) tagsPage.push(`- Opposes: ${tag.opposites.map(id => tagLink(TAGS_PAGE, id)).join(', ')}`);
+            tagsPage.push('');
+            if (tag.description?.trim()) tagsPage.push(tag.description.trim(), '');
+        });
+        files.push({ path: TAGS_PAGE, content: tagsPage.join('\n') });
+
+        // --- Rules ---
+        const rulesPage: string[] = ['# Rules', ''];
+        if ((world.rules || []).length === 0) rulesPage.push('*No rules defined.*', '');
+        (world.rules || []).forEach(rule => {
+            rulesPage.push(`## ${escapeText(rule.name || 'Untitled rule')}`, '');
+            if (rule.content?.trim()) rulesPage.push(rule.content.trim(), '');
+            const refs = (rule.references || []).map(ref => ref.type === 'tag'
+                ? tagLink(RULES_PAGE, ref.id)
+                : entityLink(RULES_PAGE, resolveEntity(ref.id) ? ref.id : ref.label, ref.label));
+            if (refs.length > 0) rulesPage.push(`**References:** ${refs.join(', ')}`, '');
+            const condition: string[] = [];
+            if (rule.condition?.contextTags?.length) condition.push(`context has ${rule.condition.contextTags.map(id => tagLink(RULES_PAGE, id)).join(' and ')}`);
+            if (rule.condition?.pools?.length) condition.push(`rolling in ${rule.condition.pools.map(name => poolFolders.has(name) ? linkTo(RULES_PAGE, `${poolFolders.get(name)}/${poolFolders.get(name)}.md`, name) : escapeText(name)).join(' or ')}`);
+            if (condition.length > 0) rulesPage.push(`**When:** ${condition.join('; ')}`, '');
+            if (rule.effects?.length) {
+                rulesPage.push('**Effects:**', '');
+                rule.effects.forEach(effect => {
+                    const target = effect.targetType === 'all' ? 'everything'
+                        : effect.targetType === 'tag' ? tagLink(RULES_PAGE, effect.target)
+                        : entityLink(RULES_PAGE, effect.target);
+                    if (effect.type === 'ban') rulesPage.push(`- Ban ${target}`);
+                    else if (effect.type === 'boost') rulesPage.push(`- Boost ${target} ×${effect.value ?? 1}`);
+                    else rulesPage.push(`- Force ${target} to rarity ${escapeText(String(effect.value ?? ''))}`);
+                });
+                rulesPage.push('');
+            }
+        });
+        files.push({ path: RULES_PAGE, content: rulesPage.join('\n') });
+
+        // --- Pools and entities ---
+        poolFolders.forEach((folder, poolName) => {
+            const pool = world.pools[poolName];
+            const poolPath = `${folder}/${folder}.md`;
+            const poolPage: string[] = [`# ${escapeText(poolName)}`, '', `*${pool.type} pool*`, ''];
+            if (pool.description?.trim()) poolPage.push(pool.description.trim(), '');
+            const blueprint = Object.keys(pool.defaultComponents || {}).filter(id => !SYSTEM_COMPONENTS.includes(id));
+            if (blueprint.length > 0) poolPage.push(`**Components:** ${blueprint.map(id => escapeText(world.componentRegistry[id]?.label || id)).join(', ')}`, '');
+            poolPage.push(`## Entries (${(pool.entities || []).length})`, '');
+            sortByName(pool.entities || []).forEach(entity => {
+                const page = pages.get(entity.id)!;
+                const tagList = (entity.tags || []).map(id => world.tags[id]?.label || id);
+                poolPage.push(`- ${linkTo(poolPath, page.path, entity.name)}${tagList.length ? ` — ${escapeText(tagList.join(', '))}` : ''}`);
+            });
+            poolPage.push('');
+            files.push({ path: poolPath, content: poolPage.join('\n') });
+
+            (pool.entities || []).forEach(entity => {
+                const page = pages.get(entity.id)!;
+                files.push({ path: page.path, content: renderEntity(world, page, poolPath, {
+                    tagLink, entityLink, ruleLink, resolveEntity,
+                    linkedFrom: linkedFrom.get(entity.id) || [],
+                    rules: rulesFor.get(entity.id) || []
+                }) });
+            });
+        });
+
+        return { root: toFileName(world.name, 'World'), files };
+    }
+};
+
+interface EntityLinks {
+    tagLink: (from: string, id: string) => string;
+    entityLink: (from: string, idOrName: string, label?: string) => string;
+    ruleLink: (from: string, rule: Rule) => string;
+    resolveEntity: (idOrName: string) => EntityPage | undefined;
+    linkedFrom: { page: EntityPage; type: string }[];
+    rules: Rule[];
+}
+
+const renderEntity = (world: World, page: EntityPage, poolPath: string, links: EntityLinks): string => {
+    const { entity, path } = page;
+    const metadata = entity.components?.metadata || {};
+    const tagLabels = (entity.tags || []).map(id => world.tags[id]?.label || id);
+
+    // Frontmatter lets Obsidian and static site generators index the page
+    const lines: string[] = [
+        '---',
+        `id: ${yamlString(entity.id)}`,
+        `pool: ${yamlString(page.pool)}`,
+        `tags: [${tagLabels.map(yamlString).join(', ')}]`
+    ];
+    if (metadata.created_at) lines.push(`created: ${yamlString(String(metadata.created_at))}`);
+    lines.push('---', '', `# ${escapeText(entity.name)}`, '', `*${linkTo(path, poolPath, page.pool)}*`, '');
+
+    if ((entity.tags || []).length > 0) lines.push(`**Tags:** ${entity.tags.map(id => links.tagLink(path, id)).join(', ')}`, '');
+
+    Object.entries(entity.components || {})
+        .filter(([id]) => !SYSTEM_COMPONENTS.includes(id))
+        .forEach(([id, data]) => {
+            const def = world.componentRegistry[id];
+            const keys = def ? def.fields.map(field => field.key) : Object.keys(data || {});
+            lines.push(`## ${escapeText(def?.label || id)}`, '');
+            if (keys.length === 0) { lines.push('*Empty.*', ''); return; }
+            lines.push(...table(['Field', 'Value'], keys.map(key => [escapeCell(key), formatValue(data?.[key])])), '');
+        });
+
+    const relations = Object.entries(entity.components?.relations || {})
+        .map(([type, ids]) => [type, (Array.isArray(ids) ? ids : []).filter((id: string) => links.resolveEntity(String(id))?.entity.id !== entity.id)] as [string, string[]])
+        .filter(([, ids]) => ids.length > 0);
+    if (relations.length > 0) {
+        lines.push('## Relations', '');
+        relations.forEach(([type, ids]) => lines.push(`- **${escapeText(type)}:** ${ids.map(id => links.entityLink(path, id)).join(', ')}`));
+        lines.push('');
+    }
+
+    if (links.linkedFrom.length > 0) {
+        lines.push('## Linked From', '');
+        links.linkedFrom.forEach(({ page: source, type }) => lines.push(`- ${linkTo(path, source.path, source.entity.name)} (${escapeText(type)})`));
+        lines.push('');
+    }
+
+    if (links.rules.length > 0) {
+        lines.push('## Referenced by Rules', '');
+        links.rules.forEach(rule => lines.push(`- ${links.ruleLink(path, rule)}`));
+        lines.push('');
+    }
+
+    return lines.join('\n');
+};
+
+const sortByName = (entities: UniversalEntity[]) => [...entities].sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+
+// Case-insensitive, since Windows and macOS file systems are
+const uniqueName = (base: string, used: Set<string>): string => {
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} (${n})`;
+    used.add(name.toLowerCase());
+    return name;
+};
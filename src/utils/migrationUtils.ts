@@ -0,0 +1,153 @@
+// Versioned upgrades for world data. Stored worlds, imported packages and snapshots
+// all pass through the same numbered steps, so an old shape is upgraded the same way
+// wherever it turns up.
+import { RulebookPackage, UniversalEntity, World } from '../types';
+import { WorldOperationError } from '../services/worldErrors';
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Data written before versioning (packages tagged '5.1-DynamicECS', worlds without `schemaVersion`)
+const LEGACY_SCHEMA_VERSION = 1;
+
+export interface MigrationStepReport {
+    version: number; // Version the step produced
+    description: string;
+    worldChanged: boolean;
+    entitiesChanged: number;
+}
+
+export interface MigrationReport {
+    from: number;
+    to: number;
+    steps: MigrationStepReport[]; // Only steps that changed something
+}
+
+interface SchemaMigration {
+    to: number; // Runs on data at `to - 1`
+    description: string;
+    // Both mutate in place and return whether anything changed
+    world?: (world: World) => boolean;
+    entity?: (entity: UniversalEntity) => boolean;
+}
+
+// Sets `obj[key]` to `fallback` when it is missing or not the expected kind of value
+const ensure = (obj: any, key: string, fallback: () => any, valid: (value: any) => boolean): boolean => {
+    if (valid(obj[key])) return false;
+    obj[key] = fallback();
+    return true;
+};
+const isRecord = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Entities as exports wrote them before version 3, with the database's index fields inline
+type LegacyEntityRecord = UniversalEntity & {
+    worldId?: string;
+    poolName?: string;
+    activeComponents?: string[];
+    searchTokens?: string[];
+};
+const STORAGE_FIELDS: (keyof LegacyEntityRecord)[] = ['worldId', 'poolName', 'activeComponents', 'searchTokens'];
+
+const MIGRATIONS: SchemaMigration[] = [
+    {
+        to: 2,
+        description: 'Filled in fields missing from early worlds',
+        world: world => {
+            let changed = false;
+            changed = ensure(world, 'tags', () => ({}), isRecord) || changed;
+            changed = ensure(world, 'componentRegistry', () => ({}), isRecord) || changed;
+            changed = ensure(world, 'pools', () => ({}), isRecord) || changed;
+            changed = ensure(world, 'rules', () => [], Array.isArray) || changed;
+            // Malformed tags, pools and rules are left for import validation to report
+            Object.entries(world.tags).forEach(([id, tag]) => {
+                if (!isRecord(tag)) return;
+                if (tag.id !== id || !tag.label) {
+                    world.tags[id] = { ...tag, id, label: tag.label || id };
+                    changed = true;
+                }
+            });
+            Object.entries(world.pools).forEach(([name, pool]) => {
+                if (!isRecord(pool)) return;
+                if (pool.name !== name) { pool.name = name; changed = true; }
+                changed = ensure(pool, 'entities', () => [], Array.isArray) || changed;
+                changed = ensure(pool, 'defaultComponents', () => ({ metadata: { id: 'UUID', created_at: '' } }), isRecord) || changed;
+            });
+            world.rules.filter(isRecord).forEach(rule => {
+                changed = ensure(rule, 'references', () => [], Array.isArray) || changed;
+            });
+            return changed;
+        },
+        entity: entity => {
+            let changed = false;
+            changed = ensure(entity, 'name', () => '', value => typeof value === 'string') || changed;
+            changed = ensure(entity, 'tags', () => [], Array.isArray) || changed;
+            changed = ensure(entity, 'components', () => ({}), isRecord) || changed;
+            return changed;
+        }
+    },
+    {
+        // Exports used to carry the database's index fields on every entity
+        to: 3,
+        description: 'Removed storage bookkeeping from entities',
+        entity: entity => {
+            const record: LegacyEntityRecord = entity;
+            const keys = STORAGE_FIELDS.filter(key => key in record);
+            keys.forEach(key => delete record[key]);
+            return keys.length > 0;
+        }
+    }
+];
+
+export const MigrationUtils = {
+    versionOf: (data: { schemaVersion?: number }): number => data.schemaVersion ?? LEGACY_SCHEMA_VERSION,
+
+    needsMigration: (world: World): boolean => MigrationUtils.versionOf(world) < CURRENT_SCHEMA_VERSION,
+
+    // Data from a newer build may use shapes this one would silently mangle
+    assertSupported: (version: number) => {
+        if (!Number.isInteger(version) || version < LEGACY_SCHEMA_VERSION) {
+            throw new WorldOperationError('invalid', `Unrecognised data version '${version}'.`);
+        }
+        if (version > CURRENT_SCHEMA_VERSION) {
+            throw new WorldOperationError('invalid', `This world was saved by a newer version of the app (data version ${version}; this version supports up to ${CURRENT_SCHEMA_VERSION}). Update the app to open it.`);
+        }
+    },
+
+    /**
+     * Upgrades a world and its entities in place, from `world.schemaVersion` to the
+     * current version. Entities are passed separately because stored worlds keep
+     * them outside the world record.
+     */
+    migrate: (world: World, entities: UniversalEntity[]): MigrationReport => {
+        const from = MigrationUtils.versionOf(world);
+        MigrationUtils.assertSupported(from);
+
+        const steps: MigrationStepReport[] = [];
+        MIGRATIONS.filter(step => step.to > from).forEach(step => {
+            const worldChanged = step.world ? step.world(world) : false;
+            const entitiesChanged = step.entity ? entities.filter(entity => isRecord(entity) && step.entity!(entity)).length : 0;
+            if (worldChanged || entitiesChanged > 0) {
+                steps.push({ version: step.to, description: step.description, worldChanged, entitiesChanged });
+            }
+        });
+        world.schemaVersion = CURRENT_SCHEMA_VERSION;
+        return { from, to: CURRENT_SCHEMA_VERSION, steps };
+    },
+
+    // Upgrades an exported package or snapshot in place, entities included
+    migratePackage: (pkg: RulebookPackage): MigrationReport => {
+        const world = pkg.world;
+        world.schemaVersion = pkg.schemaVersion ?? world.schemaVersion;
+        const entities = Object.values(world.pools || {}).flatMap(pool => isRecord(pool) && Array.isArray(pool.entities) ? pool.entities : []);
+        const report = MigrationUtils.migrate(world, entities);
+        pkg.schemaVersion = CURRENT_SCHEMA_VERSION;
+        return report;
+    },
+
+    describe: (report: MigrationReport): string => {
+        if (report.steps.length === 0) return `Data version ${report.to}, no changes needed.`;
+        const lines = report.steps.map(step =>
+            `v${step.version}: ${step.description}` + (step.entitiesChanged > 0 ? ` (${step.entitiesChanged} entities)` : '')
+        );
+        return [`Upgraded from data version ${report.from} to ${report.to}.`, ...lines].join('\n');
+    }
+};
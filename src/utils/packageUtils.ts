@@ -0,0 +1,142 @@
+// Whole-world helpers over RulebookPackage: structural diffs and entity ID remapping.
+import { RulebookPackage, UniversalEntity, World } from '../types';
+import { RevisionUtils, FieldChange } from './revisionUtils';
+
+export interface MetaChange {
+    kind: 'added' | 'removed' | 'changed';
+    section: 'world' | 'pool' | 'tag' | 'component' | 'rule' | 'rollTable' | 'savedView' | 'exportProfile';
+    label: string;
+}
+
+export interface EntitySummary {
+    id: string;
+    name: string;
+    pool: string;
+}
+
+export interface EntityChange extends EntitySummary {
+    movedFrom?: string; // Previous pool when the entity changed pools
+    changes: FieldChange[];
+}
+
+// Changes that take `from` to `to`: "added" exists only in `to`, "removed" only in `from`
+export interface WorldDiff {
+    meta: MetaChange[];
+    added: EntitySummary[];
+    removed: EntitySummary[];
+    modified: EntityChange[];
+}
+
+const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+const diffKeyed = <T,>(
+    section: MetaChange['section'],
+    from: Record<string, T>,
+    to: Record<string, T>,
+    label: (item: T, key: string) => string,
+    out: MetaChange[]
+) => {
+    Object.keys(to).forEach(key => {
+        if (!(key in from)) out.push({ kind: 'added', section, label: label(to[key], key) });
+        else if (!same(from[key], to[key])) out.push({ kind: 'changed', section, label: label(to[key], key) });
+    });
+    Object.keys(from).forEach(key => {
+        if (!(key in to)) out.push({ kind: 'removed', section, label: label(from[key], key) });
+    });
+};
+
+const byId = <T extends { id: string },>(list: T[] = []) => Object.fromEntries(list.map(item => [item.id, item]));
+
+// Pool settings without the entity list, which is diffed per entity
+const poolMeta = (world: World) =>
+    Object.fromEntries(Object.entries(world.pools || {}).map(([key, { entities, ...pool }]) => [key, pool]));
+
+const entityIndex = (world: World) => {
+    const index = new Map<string, { entity: UniversalEntity, pool: string }>();
+    Object.entries(world.pools || {}).forEach(([pool, data]) => {
+        (data.entities || []).forEach(entity => index.set(entity.id, { entity, pool }));
+    });
+    return index;
+};
+
+export const PackageUtils = {
+    entityCount: (pkg: RulebookPackage): number =>
+        Object.values(pkg.world.pools || {}).reduce((sum, pool) => sum + (pool.entities || []).length, 0),
+
+    diff: (from: RulebookPackage, to: RulebookPackage): WorldDiff => {
+        const meta: MetaChange[] = [];
+        const a = from.world;
+        const b = to.world;
+
+        if (a.name !== b.name) meta.push({ kind: 'changed', section: 'world', label: 'name' });
+        if (!same(a.config, b.config)) meta.push({ kind: 'changed', section: 'world', label: 'config' });
+        diffKeyed('pool', poolMeta(a), poolMeta(b), (_, key) => key, meta);
+        diffKeyed('tag', a.tags || {}, b.tags || {}, tag => tag.label, meta);
+        diffKeyed('component', a.componentRegistry || {}, b.componentRegistry || {}, def => def.label, meta);
+        diffKeyed('rule', byId(a.rules), byId(b.rules), rule => rule.name, meta);
+        diffKeyed('rollTable', byId(a.rollTables), byId(b.rollTables), table => table.name, meta);
+        diffKeyed('savedView', byId(a.savedViews), byId(b.savedViews), view => view.name, meta);
+        diffKeyed('exportProfile', byId(a.exportProfiles), byId(b.exportProfiles), profile => profile.name, meta);
+
+        const fromEntities = entityIndex(a);
+        const toEntities = entityIndex(b);
+        const added: EntitySummary[] = [];
+        const removed: EntitySummary[] = [];
+        const modified: EntityChange[] = [];
+
+        toEntities.forEach(({ entity, pool }, id) => {
+            const previous = fromEntities.get(id);
+            if (!previous) {
+                added.push({ id, name: entity.name, pool });
+                return;
+            }
+            const changes = RevisionUtils.diff(previous.entity, entity);
+            if (changes.length > 0 || previous.pool !== pool) {
+                modified.push({ id, name: entity.name, pool, movedFrom: previous.pool !== pool ? previous.pool : undefined, changes });
+            }
+        });
+        fromEntities.forEach(({ entity, pool }, id) => {
+            if (!toEntities.has(id)) removed.push({ id, name: entity.name, pool });
+        });
+
+        const byName = (x: EntitySummary, y: EntitySummary) => x.name.localeCompare(y.name);
+        return { meta, added: added.sort(byName), removed: removed.sort(byName), modified: modified.sort(byName) };
+    },
+
+    /**
+     * Deep copy of a package with fresh entity IDs. Entity IDs are global keys in
+     * the database, so a copy living next to its source needs its own. Relations,
+     * metadata IDs and item references in rules are rewritten to match; references
+     * to entities outside the package go through `external` when it knows them.
+     */
+    remapEntityIds: (
+        pkg: RulebookPackage,
+        newId: (oldId: string) => string = () => crypto.randomUUID(),
+        external: (oldId: string) => string | undefined = () => undefined
+    ): RulebookPackage => {
+        const copy: RulebookPackage = JSON.parse(JSON.stringify(pkg));
+        const idMap = new Map<string, string>();
+        Object.values(copy.world.pools || {}).forEach(pool => {
+            (pool.entities || []).forEach(entity => idMap.set(entity.id, newId(entity.id)));
+        });
+        const mapId = (id: string) => idMap.get(id) || external(id) || id;
+
+        Object.values(copy.world.pools || {}).forEach(pool => {
+            (pool.entities || []).forEach(entity => {
+                entity.id = mapId(entity.id);
+                if (entity.components?.metadata?.id) entity.components.metadata.id = mapId(entity.components.metadata.id);
+                const relations = entity.components?.relations;
+                if (relations) {
+                    Object.keys(relations).forEach(type => {
+                        if (Array.isArray(relations[type])) relations[type] = relations[type].map(mapId);
+                    });
+                }
+            });
+        });
+        (copy.world.rules || []).forEach(rule => {
+            rule.references = (rule.references || []).map(ref => ref.type === 'item' ? { ...ref, id: mapId(ref.id) } : ref);
+            rule.effects = rule.effects?.map(effect => effect.targetType === 'item' ? { ...effect, target: mapId(effect.target) } : effect);
+        });
+        return copy;
+    }
+};
@@ -0,0 +1,215 @@
+// Composes a world package into a self-contained HTML book for browser print-to-PDF:
+// cover, contents, then chapters (lore, one per pool, tag glossary, rules) in the
+// order the caller picks. All styling is inline so the file works offline.
+import { Pool, RulebookPackage, Rule, UniversalEntity, World } from '../types';
+import { EntityUtils } from './entityUtils';
+
+// 'lore', 'tags', 'rules', or 'pool:<pool name>'
+export type PrintChapter = string;
+
+// Resolves 'print.book.*' UI strings, so the book prints in the interface language
+export type PrintTranslate = (key: string, vars?: Record<string, string | number>) => string;
+
+export interface PrintOptions {
+    chapters: PrintChapter[]; // Included chapters, in print order
+    pageSize?: 'A4' | 'Letter';
+    translate: PrintTranslate;
+}
+
+export interface PrintChapterInfo {
+    id: PrintChapter;
+    kind: 'lore' | 'pool' | 'tags' | 'rules';
+    pool?: string;
+}
+
+const POOL_PREFIX = 'pool:';
+const DEFAULT_ACCENT = '#3b82f6';
+
+const escapeHtml = (value: any): string => String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Only plain hex colors reach the stylesheet, since colors are user-editable
+const safeColor = (color: string | undefined, fallback: string) => color && /^#[0-9a-f]{3,8}$/i.test(color) ? color : fallback;
+
+// Paragraphs on blank lines, line breaks kept within them
+const paragraphs = (text: string): string => text.trim().split(/\n\s*\n/)
+    .map(block => `<p>${escapeHtml(block.trim()).replace(/\r?\n/g, '<br>')}</p>`)
+    .join('');
+
+const sortByName = (entities: UniversalEntity[]) => [...entities].sort((a, b) => (a.name || '').localeCompare(b.name || ''));
+
+const STYLES = (pageSize: string) => `
+@page { size: ${pageSize}; margin: 18mm 16mm; }
+* { box-sizing: border-box; }
+body { font-family: Georgia, 'Times New Roman', serif; color: #1e293b; line-height: 1.5; margin: 0; font-size: 11pt; }
+main { max-width: 190mm; margin: 0 auto; padding: 12mm 0; }
+h1, h2, h3 { font-family: 'Helvetica Neue', Arial, sans-serif; line-height: 1.2; }
+.cover { min-height: 240mm; display: flex; flex-direction: column; justify-content: center; text-align: center; break-after: page; }
+.cover h1 { font-size: 40pt; margin: 0 0 6mm; }
+.cover .genre { font-size: 16pt; font-style: italic; color: #475569; }
+.cover .meta { margin-top: 20mm; font-size: 9pt; color: #64748b; }
+.contents { break-after: page; }
+.contents ol { font-size: 13pt; }
+.contents a { color: inherit; text-decoration: none; }
+.chapter { break-before: page; }
+.chapter > h2 { font-size: 24pt; border-bottom: 3px solid var(--accent, ${DEFAULT_ACCENT}); padding-bottom: 2mm; margin-top: 0; }
+.chapter > .intro { color: #475569; font-style: italic; }
+.cards { display: grid; grid-template-columns: 1fr 1fr; gap: 5mm; }
+.card { break-inside: avoid; border: 1px solid #cbd5e1; border-left: 4px solid var(--accent, ${DEFAULT_ACCENT}); border-radius: 2mm; padding: 4mm; }
+.card h3 { margin: 0 0 1.5mm; font-size: 13pt; }
+.card p { margin: 0 0 2mm; font-size: 10pt; }
+.rarity { display: inline-block; color: #fff; font: bold 7.5pt Arial, sans-serif; text-transform: uppercase; letter-spacing: 0.05em; padding: 0.5mm 2mm; border-radius: 1mm; margin-bottom: 2mm; }
+.tags { font: 8pt Arial, sans-serif; color: #64748b; margin-bottom: 2mm; }
+.attrs { width: 100%; border-collapse: collapse; font: 8.5pt Arial, sans-serif; }
+.attrs th, .attrs td { border-top: 1px solid #e2e8f0; padding: 0.8mm 0; vertical-align: top; }
+.attrs th { text-align: left; color: #64748b; font-weight: normal; padding-right: 2mm; width: 40%; }
+.glossary dt { font-weight: bold; font-family: Arial, sans-serif; margin-top: 3mm; }
+.glossary dd { margin: 0.5mm 0 0 0; font-size: 10pt; }
+.swatch { display: inline-block; width: 3mm; height: 3mm; border-radius: 50%; margin-right: 2mm; vertical-align: middle; }
+.rule { break-inside: avoid; margin-bottom: 6mm; }
+.rule h3 { margin-bottom: 1mm; }
+.rule .detail { font: 9pt Arial, sans-serif; color: #475569; margin: 1mm 0; }
+.fields { border-collapse: collapse; margin-top: 4mm; }
+.fields th, .fields td { text-align: left; padding: 1.5mm 4mm 1.5mm 0; border-top: 1px solid #e2e8f0; vertical-align: top; }
+.empty { color: #94a3b8; font-style: italic; }
+.toolbar { position: fixed; top: 4mm; right: 4mm; font-family: Arial, sans-serif; }
+.toolbar button { padding: 2mm 5mm; font-size: 11pt; cursor: pointer; }
+@media print { .toolbar { display: none; } main { padding: 0; } }
+`;
+
+export const PrintUtils = {
+    // Every chapter the world offers, in the default reading order
+    availableChapters: (world: World): PrintChapterInfo[] => [
+        { id: 'lore', kind: 'lore' },
+        ...Object.keys(world.pools).map(name => ({ id: `${POOL_PREFIX}${name}`, kind: 'pool' as const, pool: name })),
+        { id: 'tags', kind: 'tags' },
+        { id: 'rules', kind: 'rules' }
+    ],
+
+    describeChapter: (id: PrintChapter): PrintChapterInfo => id.startsWith(POOL_PREFIX)
+        ? { id, kind: 'pool', pool: id.slice(POOL_PREFIX.length) }
+        : { id, kind: id as PrintChapterInfo['kind'] },
+
+    renderHtml: (pkg: RulebookPackage, options: PrintOptions): string => {
+        const world = pkg.world;
+        const t = options.translate;
+        const chapters = options.chapters
+            .map(PrintUtils.describeChapter)
+            .filter(chapter => chapter.kind !== 'pool' || !!world.pools[chapter.pool!]);
+
+        const entityNames = new Map<string, string>();
+        Object.values(world.pools).forEach(pool => (pool.entities || []).forEach(entity => entityNames.set(entity.id, entity.name)));
+        const tagLabel = (id: string) => world.tags[id]?.label || id;
+
+        const titleOf = (chapter: PrintChapterInfo) => {
+            if (chapter.kind === 'pool') return chapter.pool!;
+            return t(`print.book.${chapter.kind}`);
+        };
+        const anchorOf = (index: number) => `chapter-${index + 1}`;
+
+        const body = chapters.map((chapter, index) => {
+            const heading = `<h2>${index + 1}. ${escapeHtml(titleOf(chapter))}</h2>`;
+            let content: string;
+            if (chapter.kind === 'lore') content = renderLore(world, t);
+            else if (chapter.kind === 'pool') content = renderPool(world, world.pools[chapter.pool!], tagLabel, t);
+            else if (chapter.kind === 'tags') content = renderGlossary(world, t);
+            else content = renderRules(world.rules || [], tagLabel, id => entityNames.get(id), t);
+            const accent = chapter.kind === 'pool' ? safeColor(world.pools[chapter.pool!].color, DEFAULT_ACCENT) : DEFAULT_ACCENT;
+            return `<section class="chapter" id="${anchorOf(index)}" style="--accent: ${accent}">${heading}${content}</section>`;
+        }).join('\n');
+
+        const contents = chapters.length > 1
+            ? `<nav class="contents"><h2>${escapeHtml(t('print.book.contents'))}</h2><ol>${chapters.map((chapter, index) => `<li><a href="#${anchorOf(index)}">${escapeHtml(titleOf(chapter))}</a></li>`).join('')}</ol></nav>`
+            : '';
+
+        const exported = new Date(pkg.exportDate || Date.now()).toLocaleDateString();
+        return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(world.name)}</title>
+<style>${STYLES(options.pageSize || 'A4')}</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">${escapeHtml(t('print.book.printButton'))}</button></div>
+<main>
+<section class="cover">
+<h1>${escapeHtml(world.name)}</h1>
+${world.config?.genre ? `<div class="genre">${escapeHtml(world.config.genre)}</div>` : ''}
+<div class="meta">${escapeHtml(exported)}</div>
+</section>
+${contents}
+${body}
+</main>
+</body>
+</html>
+`;
+    }
+};
+
+const renderLore = (world: World, t: PrintTranslate): string => {
+    const lore = world.config?.loreContext?.trim();
+    const fields = (world.config?.contextFields || []).filter(field => field.key || field.value);
+    let html = lore ? paragraphs(lore) : `<p class="empty">${escapeHtml(t('print.book.noLore'))}</p>`;
+    if (fields.length > 0) {
+        html += `<table class="fields">${fields.map(field => `<tr><th>${escapeHtml(field.key)}</th><td>${escapeHtml(field.value)}</td></tr>`).join('')}</table>`;
+    }
+    return html;
+};
+
+// Cards follow the pool view: rarity badge only when the entity has a rarity component
+const renderPool = (world: World, pool: Pool, tagLabel: (id: string) => string, t: PrintTranslate): string => {
+    const levels = world.config?.raritySettings?.levels || [];
+    const poolColor = safeColor(pool.color, DEFAULT_ACCENT);
+    const intro = pool.description?.trim() ? `<p class="intro">${escapeHtml(pool.description.trim())}</p>` : '';
+    const entities = sortByName(pool.entities || []);
+    if (entities.length === 0) return `${intro}<p class="empty">${escapeHtml(t('print.book.noEntries'))}</p>`;
+
+    const cards = entities.map(entity => {
+        const rarity = entity.components?.['rarity'] ? EntityUtils.getRarity(entity) : null;
+        const rarityColor = rarity ? safeColor(levels.find(level => level.label === rarity)?.color, poolColor) : poolColor;
+        const description = EntityUtils.getDescription(entity);
+        const attributes = Object.entries(EntityUtils.getDisplayAttributes(entity)).filter(([, value]) => value !== '' && value !== undefined);
+        return `<article class="card" style="--accent: ${rarityColor}">
+<h3>${escapeHtml(entity.name)}</h3>
+${rarity ? `<span class="rarity" style="background: ${rarityColor}">${escapeHtml(rarity)}</span>` : ''}
+${entity.tags?.length ? `<div class="tags">${entity.tags.map(id => escapeHtml(tagLabel(id))).join(' · ')}</div>` : ''}
+${description ? paragraphs(String(description)) : ''}
+${attributes.length ? `<table class="attrs">${attributes.map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(typeof value === 'boolean' ? t(value ? 'print.book.yes' : 'print.book.no') : value)}</td></tr>`).join('')}</table>` : ''}
+</article>`;
+    }).join('\n');
+    return `${intro}<div class="cards">${cards}</div>`;
+};
+
+const renderGlossary = (world: World, t: PrintTranslate): string => {
+    const tags = Object.values(world.tags || {}).sort((a, b) => a.label.localeCompare(b.label));
+    if (tags.length === 0) return `<p class="empty">${escapeHtml(t('print.book.noTags'))}</p>`;
+    return `<dl class="glossary">${tags.map(tag => {
+        const opposites = (tag.opposites || []).map(id => world.tags[id]?.label || id);
+        return `<dt><span class="swatch" style="background: ${safeColor(tag.color, '#94a3b8')}"></span>${escapeHtml(tag.label)}</dt>
+<dd>${tag.description?.trim() ? escapeHtml(tag.description.trim()) : `<span class="empty">${escapeHtml(t('print.book.noDescription'))}</span>`}${opposites.length ? `<br><em>${escapeHtml(t('print.book.opposes', { tags: opposites.join(', ') }))}</em>` : ''}</dd>`;
+    }).join('\n')}</dl>`;
+};
+
+const renderRules = (rules: Rule[], tagLabel: (id: string) => string, entityName: (id: string) => string | undefined, t: PrintTranslate): string => {
+    if (rules.length === 0) return `<p class="empty">${escapeHtml(t('print.book.noRules'))}</p>`;
+    return rules.map(rule => {
+        const details: string[] = [];
+        if (rule.references?.length) details.push(t('print.book.references', { items: rule.references.map(ref => ref.type === 'tag' ? tagLabel(ref.id) : entityName(ref.id) || ref.label).join(', ') }));
+        if (rule.condition?.contextTags?.length) details.push(t('print.book.whenContext', { tags: rule.condition.contextTags.map(tagLabel).join(', ') }));
+        if (rule.condition?.pools?.length) details.push(t('print.book.appliesTo', { pools: rule.condition.pools.join(', ') }));
+        (rule.effects || []).forEach(effect => {
+            const target = effect.targetType === 'all' ? t('print.book.everything') : effect.targetType === 'tag' ? tagLabel(effect.target) : entityName(effect.target) || effect.target;
+            if (effect.type === 'ban') details.push(t('print.book.bans', { target }));
+            else if (effect.type === 'boost') details.push(t('print.book.boosts', { target, value: effect.value ?? 1 }));
+            else details.push(t('print.book.forces', { target, value: effect.value ?? '' }));
+        });
+        return `<div class="rule"><h3>${escapeHtml(rule.name || t('print.book.untitledRule'))}</h3>
+${rule.content?.trim() ? paragraphs(rule.content) : ''}
+${details.map(detail => `<div class="detail">${escapeHtml(detail)}</div>`).join('')}</div>`;
+    }).join('\n');
+};
@@ -0,0 +1,190 @@
+// Structured entity query language, e.g.
+//   pool:Factions tag:noble rarity>=Rare components.stats.power>10 "iron crown"
+// Filters compile to RollConstraints so they share the Roller's operator semantics.
+import { ConstraintOperator, RollConstraint, UniversalEntity, World } from '../types';
+import { matchesConstraints } from '../services/rollerEngine';
+import { SearchUtils } from './searchUtils';
+
+export interface EntityQuery {
+    pools: string[]; // Any of
+    tags: string[]; // All of (tag IDs)
+    components: string[]; // All of (component IDs, from `has:`)
+    constraints: RollConstraint[];
+    terms: string[]; // Bare words, matched as word prefixes
+    phrases: string[]; // Quoted text, matched as substrings
+    errors: string[];
+}
+
+// Context used to resolve labels to IDs; parsing still works without it
+export type QueryContext = Pick<World, 'pools' | 'tags' | 'componentRegistry' | 'config'>;
+
+// Longest operators first so ">=" is not read as ">"
+const FILTER_PATTERN = /^([a-z_][\w.]*)(>=|<=|!=|>|<|=|:|~)(.*)$/i;
+const TOKEN_PATTERN = /\S*?"[^"]*"\S*|\S+/g;
+
+const OPERATOR_MAP: Record<string, ConstraintOperator> = {
+    '=': 'eq', '!=': 'neq', '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte', ':': 'contains', '~': 'regex'
+};
+
+// Fallback ladder for worlds without raritySettings, lowest first
+const DEFAULT_RARITY_LADDER = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+
+const emptyQuery = (): EntityQuery => ({ pools: [], tags: [], components: [], constraints: [], terms: [], phrases: [], errors: [] });
+
+const resolvePool = (name: string, ctx?: QueryContext): string =>
+    Object.keys(ctx?.pools || {}).find(p => p.toLowerCase() === name.toLowerCase()) || name;
+
+const resolveTag = (label: string, ctx?: QueryContext): string => {
+    const key = label.toLowerCase();
+    const match = Object.values(ctx?.tags || {}).find(t => t.id.toLowerCase() === key || t.label.toLowerCase() === key);
+    return match ? match.id : label;
+};
+
+const resolveComponent = (name: string, ctx?: QueryContext): string => {
+    const key = name.toLowerCase();
+    const match = Object.values(ctx?.componentRegistry || {}).find(d => d.id.toLowerCase() === key || d.label.toLowerCase() === key);
+    return match ? match.id : name;
+};
+
+// rarity>=Rare becomes "rarity in [Rare, Epic, Legendary]" using the world's ladder order
+const compileRarity = (op: string, value: string, query: EntityQuery, ctx?: QueryContext) => {
+    const ladder = ctx?.config?.raritySettings?.levels?.map(l => l.label) || DEFAULT_RARITY_LADDER;
+    const idx = ladder.findIndex(l => l.toLowerCase() === value.toLowerCase());
+    const path = 'components.rarity.value';
+    if (idx === -1) {
+        query.errors.push(`Unknown rarity '${value}'`);
+        return;
+    }
+    const pick = (keep: (i: number) => boolean) => ladder.filter((_, i) => keep(i));
+    switch (op) {
+        case ':': case '=': query.constraints.push({ path, operator: 'in', value: [ladder[idx]] }); break;
+        case '!=': query.constraints.push({ path, operator: 'in', value: pick(i => i !== idx) }); break;
+        case '>': query.constraints.push({ path, operator: 'in', value: pick(i => i > idx) }); break;
+        case '>=': query.constraints.push({ path, operator: 'in', value: pick(i => i >= idx) }); break;
+        case '<': query.constraints.push({ path, operator: 'in', value: pick(i => i < idx) }); break;
+        case '<=': query.constraints.push({ path, operator: 'in', value: pick(i => i <= idx) }); break;
+        default: query.errors.push(`Operator '${op}' is not supported for rarity`);
+    }
+};
+
+const tokensOf = (entity: UniversalEntity): string[] => {
+    const fields = SearchUtils.getFieldText(entity);
+    return [...fields.name, ...fields.tags, ...fields.text].flatMap(v => SearchUtils.tokenize(v));
+};
+
+export const QueryUtils = {
+    /**
+     * Parses a query string. Unknown filters and bad values are collected in
+     * `errors` and skipped, so the rest of the query still applies.
+     */
+    parse: (input: string, ctx?: QueryContext): EntityQuery => {
+        const query = emptyQuery();
+        const rawTokens = String(input ?? '').match(TOKEN_PATTERN) || [];
+
+        rawTokens.forEach(raw => {
+            if (raw.startsWith('"') && raw.endsWith('"') && raw.length >= 2) {
+                const phrase = raw.slice(1, -1).trim();
+                if (phrase) query.phrases.push(phrase);
+                return;
+            }
+
+            const match = raw.match(FILTER_PATTERN);
+            if (!match) {
+                query.terms.push(raw.replace(/"/g, ''));
+                return;
+            }
+
+            const [, rawKey, op, rawValue] = match;
+            const key = rawKey.toLowerCase();
+            const value = unquote(rawValue).trim();
+            if (!value) {
+                query.errors.push(`Missing value for '${rawKey}'`);
+                return;
+            }
+
+            if (key === 'pool' || key === 'tag' || key === 'has') {
+                if (op !== ':' && op !== '=') {
+                    query.errors.push(`'${rawKey}' only supports ':'`);
+                } else if (key === 'pool') {
+                    query.pools.push(resolvePool(value, ctx));
+                } else if (key === 'tag') {
+                    query.tags.push(resolveTag(value, ctx));
+                } else {
+                    query.components.push(resolveComponent(value, ctx));
+                }
+                return;
+            }
+            if (key === 'rarity') {
+                compileRarity(op, value, query, ctx);
+                return;
+            }
+            if (key === 'name' || key.includes('.')) {
+                // "stats.power" is shorthand for "components.stats.power"
+                const path = key === 'name' || rawKey.startsWith('components.') ? rawKey : `components.${rawKey}`;
+                query.constraints.push({ path, operator: OPERATOR_MAP[op], value });
+                return;
+            }
+            query.errors.push(`Unknown filter '${rawKey}'`);
+        });
+
+        return query;
+    },
+
+    // True when the input uses filter syntax rather than plain search words
+    isStructured: (input: string): boolean => {
+        const tokens = String(input ?? '').match(TOKEN_PATTERN) || [];
+        return tokens.some(t => t.startsWith('"') || FILTER_PATTERN.test(t));
+    },
+
+    /**
+     * Rewrites `key:from` filters in a query string, e.g. after a pool or tag rename.
+     * Quotes are added when the new value contains spaces.
+     */
+    renameFilterValue: (input: string, key: 'pool' | 'tag', from: string, to: string): string => {
+        const replacement = /\s/.test(to) ? `"${to}"` : to;
+        return (String(input ?? '').match(TOKEN_PATTERN) || []).map(raw => {
+            const match = raw.match(FILTER_PATTERN);
+            if (!match || match[1].toLowerCase() !== key || (match[2] !== ':' && match[2] !== '=')) return raw;
+            return unquote(match[3]).toLowerCase() === from.toLowerCase() ? `${match[1]}${match[2]}${replacement}` : raw;
+        }).join(' ');
+    },
+
+    isEmpty: (query: EntityQuery): boolean =>
+        query.pools.length + query.tags.length + query.components.length + query.constraints.length + query.terms.length + query.phrases.length === 0,
+
+    // Tokens the full-text index can narrow by: bare words plus every word inside a phrase
+    indexTokens: (query: EntityQuery): string[] =>
+        Array.from(new Set([...query.terms, ...query.phrases].flatMap(t => SearchUtils.tokenize(t, true)))),
+
+    /**
+     * Evaluates the whole query against one entity. `poolName` is checked
+     * against `pool:` filters when known.
+     */
+    matches: (entity: UniversalEntity, query: EntityQuery, poolName?: string): boolean => {
+        if (query.pools.length > 0 && poolName !== undefined && !query.pools.some(p => p.toLowerCase() === poolName.toLowerCase())) return false;
+
+        const tags = (entity.tags || []).map(t => t.toLowerCase());
+        if (!query.tags.every(t => tags.includes(t.toLowerCase()))) return false;
+
+        const components = Object.keys(entity.components || {});
+        if (!query.components.every(c => components.includes(c))) return false;
+
+        if (!matchesConstraints(entity, query.constraints)) return false;
+
+        if (query.terms.length > 0) {
+            const tokens = tokensOf(entity);
+            const termTokens = query.terms.flatMap(t => SearchUtils.tokenize(t, true));
+            if (!termTokens.every(q => tokens.some(t => t.startsWith(q)))) return false;
+        }
+
+        if (query.phrases.length > 0) {
+            const fields = SearchUtils.getFieldText(entity);
+            const haystack = [...fields.name, ...fields.tags, ...fields.text].join('\n').normalize('NFKC').toLowerCase();
+            if (!query.phrases.every(p => haystack.includes(p.normalize('NFKC').toLowerCase()))) return false;
+        }
+
+        return true;
+    }
+};
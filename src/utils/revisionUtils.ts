@@ -0,0 +1,59 @@
+// Field-level diffs between two entity snapshots, for the revision history panel.
+import { UniversalEntity } from '../types';
+
+export interface FieldChange {
+    path: string; // "name", "tags" or "<componentId>.<field>"
+    kind: 'added' | 'removed' | 'changed';
+    before?: any;
+    after?: any;
+}
+
+const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+export const RevisionUtils = {
+    /**
+     * Lists what changed from `before` to `after`. Tags are reported one per added or
+     * removed tag; component fields are compared by value, so reordered keys are not changes.
+     */
+    diff: (before: UniversalEntity | null, after: UniversalEntity | null): FieldChange[] => {
+        const changes: FieldChange[] = [];
+
+        if (before?.name !== after?.name) {
+            if (!before) changes.push({ path: 'name', kind: 'added', after: after?.name });
+            else if (!after) changes.push({ path: 'name', kind: 'removed', before: before.name });
+            else changes.push({ path: 'name', kind: 'changed', before: before.name, after: after.name });
+        }
+
+        const oldTags = new Set(before?.tags || []);
+        const newTags = new Set(after?.tags || []);
+        newTags.forEach(tag => { if (!oldTags.has(tag)) changes.push({ path: 'tags', kind: 'added', after: tag }); });
+        oldTags.forEach(tag => { if (!newTags.has(tag)) changes.push({ path: 'tags', kind: 'removed', before: tag }); });
+
+        const oldComps = before?.components || {};
+        const newComps = after?.components || {};
+        const compIds = Array.from(new Set([...Object.keys(oldComps), ...Object.keys(newComps)]));
+        compIds.forEach(compId => {
+            const oldData = oldComps[compId] || {};
+            const newData = newComps[compId] || {};
+            const keys = Array.from(new Set([...Object.keys(oldData), ...Object.keys(newData)]));
+            keys.forEach(key => {
+                const path = `${compId}.${key}`;
+                const hadKey = compId in oldComps && key in oldData;
+                const hasKey = compId in newComps && key in newData;
+                if (!hadKey && hasKey) changes.push({ path, kind: 'added', after: newData[key] });
+                else if (hadKey && !hasKey) changes.push({ path, kind: 'removed', before: oldData[key] });
+                else if (!same(oldData[key], newData[key])) changes.push({ path, kind: 'changed', before: oldData[key], after: newData[key] });
+            });
+        });
+
+        return changes;
+    },
+
+    // Compact single-line rendering of a field value
+    formatValue: (value: any, maxLength: number = 80): string => {
+        if (value === undefined || value === null || value === '') return '∅';
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        if (text.startsWith('data:')) return '[image]';
+        return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+    }
+};
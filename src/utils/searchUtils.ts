@@ -0,0 +1,155 @@
+// Tokenizer and ranking for the entity full-text index.
+// Latin-script text splits on word boundaries; CJK text has no spaces,
+// so it is indexed as single characters plus overlapping bigrams.
+import { UniversalEntity } from '../types';
+
+export type SearchField = 'name' | 'tags' | 'text';
+
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+const CJK_RUN_PATTERN = /([\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]+)/;
+
+// Components that hold IDs, URLs or bookkeeping rather than searchable prose
+const SKIPPED_COMPONENTS = ['metadata', 'relations', 'visual', 'roll_weight'];
+const MAX_INDEXED_TOKENS = 2000;
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { name: 10, tags: 4, text: 1 };
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase();
+
+// Query mode drops CJK unigrams when bigrams exist, so "铁王冠" needs both "铁王" and "王冠"
+const tokenizeRun = (run: string, forQuery: boolean): string[] => {
+    const tokens: string[] = [];
+    run.split(CJK_RUN_PATTERN).forEach(part => {
+        if (!part) return;
+        if (!CJK_PATTERN.test(part)) {
+            tokens.push(part);
+            return;
+        }
+        const chars = Array.from(part);
+        if (!forQuery || chars.length === 1) tokens.push(...chars);
+        for (let i = 0; i < chars.length - 1; i++) tokens.push(chars[i] + chars[i + 1]);
+    });
+    return tokens;
+};
+
+const collectText = (value: any, out: string[]) => {
+    if (typeof value === 'string') {
+        // Skip embedded images and links
+        if (!value.startsWith('data:') && !/^https?:\/\//.test(value)) out.push(value);
+    } else if (Array.isArray(value)) {
+        value.forEach(v => collectText(v, out));
+    }
+};
+
+export const SearchUtils = {
+    tokenize: (text: string, forQuery: boolean = false): string[] => {
+        const tokens: string[] = [];
+        const matches = normalize(String(text ?? '')).match(WORD_PATTERN) || [];
+        matches.forEach(run => tokens.push(...tokenizeRun(run, forQuery)));
+        return tokens;
+    },
+
+    // Searchable text of an entity, split by ranking field
+    getFieldText: (entity: UniversalEntity): Record<SearchField, string[]> => {
+        const text: string[] = [];
+        Object.entries(entity.components || {}).forEach(([compId, data]) => {
+            if (SKIPPED_COMPONENTS.includes(compId) || !data || typeof data !== 'object') return;
+            Object.values(data).forEach(v => collectText(v, text));
+        });
+        return { name: [entity.name || ''], tags: entity.tags || [], text };
+    },
+
+    /**
+     * Unique tokens stored on the entity record for the 'by-token' index.
+     * Prefixed with the world ID so one multiEntry index serves every world.
+     */
+    buildIndexTokens: (worldId: string, entity: UniversalEntity): string[] => {
+        const fields = SearchUtils.getFieldText(entity);
+        const unique = new Set<string>();
+        for (const value of [...fields.name, ...fields.tags, ...fields.text]) {
+            for (const token of SearchUtils.tokenize(value)) {
+                unique.add(token);
+                if (unique.size >= MAX_INDEXED_TOKENS) break;
+            }
+            if (unique.size >= MAX_INDEXED_TOKENS) break;
+        }
+        return Array.from(unique).map(t => SearchUtils.indexKey(worldId, t));
+    },
+
+    indexKey: (worldId: string, token: string) => `${worldId}:${token}`,
+
+    /**
+     * Relevance of an entity for the query tokens. Name hits outweigh tags,
+     * tags outweigh body text; whole-token hits outweigh prefix hits.
+     */
+    score: (entity: UniversalEntity, query: string, queryTokens: string[]): number => {
+        const fields = SearchUtils.getFieldText(entity);
+        let score = 0;
+        (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+            const tokens = new Set(fields[field].flatMap(v => SearchUtils.tokenize(v)));
+            queryTokens.forEach(q => {
+                if (tokens.has(q)) score += FIELD_WEIGHTS[field] * 2;
+                else if (Array.from(tokens).some(t => t.startsWith(q))) score += FIELD_WEIGHTS[field];
+            });
+        });
+        const name = normalize(entity.name || '');
+        const phrase = normalize(query.trim());
+        if (name === phrase) score += 50;
+        else if (name.startsWith(phrase)) score += 20;
+        return score;
+    },
+
+    /**
+     * Splits text into matched / unmatched segments for display.
+     * Latin tokens highlight as word prefixes; CJK query runs highlight as substrings.
+     */
+    highlight: (text: string, query: string): HighlightSegment[] => {
+        const terms = (normalize(query).match(WORD_PATTERN) || []).filter(Boolean);
+        if (!text || terms.length === 0) return [{ text, match: false }];
+
+        const lower = normalize(text);
+        // Only safe when normalization kept the length, otherwise indexes would drift
+        if (lower.length !== text.length) return [{ text, match: false }];
+
+        const marks = new Array<boolean>(text.length).fill(false);
+        terms.forEach(term => {
+            const isCjk = CJK_PATTERN.test(term);
+            let from = 0;
+            while (from <= lower.length - term.length) {
+                const idx = lower.indexOf(term, from);
+                if (idx === -1) break;
+                const atWordStart = idx === 0 || !/[\p{L}\p{N}]/u.test(lower[idx - 1]) || CJK_PATTERN.test(lower[idx - 1]);
+                if (isCjk || atWordStart) marks.fill(true, idx, idx + term.length);
+                from = idx + 1;
+            }
+        });
+
+        const segments: HighlightSegment[] = [];
+        marks.forEach((match, i) => {
+            const last = segments[segments.length - 1];
+            if (last && last.match === match) last.text += text[i];
+            else segments.push({ text: text[i], match });
+        });
+        return segments;
+    },
+
+    // Short excerpt around the first hit in the entity's body text, for results that matched outside the name
+    snippet: (entity: UniversalEntity, query: string, radius: number = 40): string => {
+        const terms = normalize(query).match(WORD_PATTERN) || [];
+        if (terms.length === 0) return '';
+        for (const value of SearchUtils.getFieldText(entity).text) {
+            const idx = normalize(value).indexOf(terms[0]);
+            if (idx === -1) continue;
+            const start = Math.max(0, idx - radius);
+            const end = Math.min(value.length, idx + terms[0].length + radius);
+            return `${start > 0 ? '…' : ''}${value.slice(start, end)}${end < value.length ? '…' : ''}`;
+        }
+        return '';
+    }
+};
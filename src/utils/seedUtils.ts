@@ -0,0 +1,39 @@
+// Deterministic PRNG helpers for reproducible rolls.
+// A seed is any string; the same seed always yields the same sequence.
+
+export type RandomSource = () => number;
+
+const SEED_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export const SeedUtils = {
+    // xmur3 string hash -> 32-bit integer
+    hashSeed: (seed: string): number => {
+        let h = 1779033703 ^ seed.length;
+        for (let i = 0; i < seed.length; i++) {
+            h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+            h = (h << 13) | (h >>> 19);
+        }
+        h = Math.imul(h ^ (h >>> 16), 2246822507);
+        h = Math.imul(h ^ (h >>> 13), 3266489909);
+        return (h ^= h >>> 16) >>> 0;
+    },
+
+    // mulberry32: returns floats in [0, 1), like Math.random
+    createRandom: (seed: string): RandomSource => {
+        let state = SeedUtils.hashSeed(seed);
+        return () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    },
+
+    // Short, unambiguous ID suitable for reading aloud at the table
+    generateSeed: (length: number = 8): string => {
+        const bytes = new Uint32Array(length);
+        crypto.getRandomValues(bytes);
+        return Array.from(bytes, b => SEED_ALPHABET[b % SEED_ALPHABET.length]).join('');
+    }
+};
@@ -0,0 +1,100 @@
+// Minimal zip writer for exports. Files are stored uncompressed (method 0), which
+// every unzip tool reads; the exports are small text files, so compression would
+// buy little for the code it needs.
+
+export interface ZipEntry {
+    path: string; // Forward slashes; folders are implied by the paths
+    content: string | Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date and time fields, in local time as zip tools expect
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export const ZipUtils = {
+    create: (entries: ZipEntry[], modified: Date = new Date()): Uint8Array => {
+        const encoder = new TextEncoder();
+        const { time, date } = dosDateTime(modified);
+        const locals: Uint8Array[] = [];
+        const centrals: Uint8Array[] = [];
+        let offset = 0;
+
+        entries.forEach(entry => {
+            const name = encoder.encode(entry.path);
+            const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+            const crc = crc32(data);
+
+            const local = new Uint8Array(30 + name.length + data.length);
+            const lv = new DataView(local.buffer);
+            lv.setUint32(0, 0x04034B50, true); // Local file header signature
+            lv.setUint16(4, 20, true); // Version needed: 2.0
+            lv.setUint16(6, 0x0800, true); // Flags: UTF-8 file names
+            lv.setUint16(8, 0, true); // Method: stored
+            lv.setUint16(10, time, true);
+            lv.setUint16(12, date, true);
+            lv.setUint32(14, crc, true);
+            lv.setUint32(18, data.length, true); // Compressed size
+            lv.setUint32(22, data.length, true); // Uncompressed size
+            lv.setUint16(26, name.length, true);
+            lv.setUint16(28, 0, true); // Extra field length
+            local.set(name, 30);
+            local.set(data, 30 + name.length);
+
+            const central = new Uint8Array(46 + name.length);
+            const cv = new DataView(central.buffer);
+            cv.setUint32(0, 0x02014B50, true); // Central directory signature
+            cv.setUint16(4, 20, true); // Version made by
+            cv.setUint16(6, 20, true); // Version needed
+            cv.setUint16(8, 0x0800, true);
+            cv.setUint16(10, 0, true);
+            cv.setUint16(12, time, true);
+            cv.setUint16(14, date, true);
+            cv.setUint32(16, crc, true);
+            cv.setUint32(20, data.length, true);
+            cv.setUint32(24, data.length, true);
+            cv.setUint16(28, name.length, true);
+            // Extra, comment, disk number, internal and external attributes stay 0
+            cv.setUint32(42, offset, true); // Offset of the local header
+            central.set(name, 46);
+
+            locals.push(local);
+            centrals.push(central);
+            offset += local.length;
+        });
+
+        const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+        const end = new Uint8Array(22);
+        const ev = new DataView(end.buffer);
+        ev.setUint32(0, 0x06054B50, true); // End of central directory signature
+        ev.setUint16(8, entries.length, true); // Entries on this disk
+        ev.setUint16(10, entries.length, true); // Total entries
+        ev.setUint32(12, centralSize, true);
+        ev.setUint32(16, offset, true); // Central directory offset
+
+        const out = new Uint8Array(offset + centralSize + end.length);
+        let position = 0;
+        [...locals, ...centrals, end].forEach(part => {
+            out.set(part, position);
+            position += part.length;
+        });
+        return out;
+    }
+};